@@ -9,10 +9,13 @@ import { execFileSync, spawn } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
+import { formatMinutes } from "../wave-executor/budget.js";
 import {
 	writeEnforcementExtension,
 	cleanupEnforcement,
 } from "../wave-executor/helpers.js";
+import type { TokenUsage } from "../wave-executor/types.js";
+import { addUsage, formatCost, formatTokens, priceUsage, totalTokens, usageFromMessage } from "../wave-executor/usage.js";
 import type { AgentRunner, RunnerConfig, RunnerResult, StallInfo } from "./types.js";
 
 /** Default per-task timeout: 10 minutes */
@@ -122,6 +125,28 @@ export class PiRunner implements AgentRunner {
 			let retryExhausted = false;  // auto_retry_end with success=false
 			let hasAssistantOutput = false;  // any actual text output produced
 
+			// Token usage, priced per assistant message and summed
+			let usage: TokenUsage | undefined;
+			// Set when the run's budget (config.limits) is spent and the agent is killed
+			let budgetExceeded: string | undefined;
+
+			// limits are what's left of the task cap; messages name the cap itself
+			function checkBudget(): string | null {
+				const limits = config.limits;
+				if (!limits || !usage) return null;
+				const tokens = totalTokens(usage);
+				const usd = usage.costUsd ?? 0;
+				if (limits.tokens !== undefined && tokens >= limits.tokens) {
+					const cap = limits.cap?.tokens ?? limits.tokens;
+					return `task token budget of ${formatTokens(cap)} exceeded (${formatTokens(tokens)} in this run)`;
+				}
+				if (limits.usd !== undefined && usd >= limits.usd) {
+					const cap = limits.cap?.usd ?? limits.usd;
+					return `task cost budget of ${formatCost(cap)} exceeded (${formatCost(usd)} in this run)`;
+				}
+				return null;
+			}
+
 			function checkStall(event: any): { level: "soft" | "hard"; reason: string } | null {
 				if (event.type === "tool_execution_start") {
 					const summary = `${event.toolName}(${summarizeArgs(event.args)})`;
@@ -169,6 +194,7 @@ export class PiRunner implements AgentRunner {
 				try { fs.unlinkSync(stallSignalFile); } catch { /* ignore */ }
 				clearTimeout(hangingToolTimer);
 				clearTimeout(timer);
+				clearTimeout(budgetTimer);
 			};
 
 			proc.stdout.on("data", (data) => {
@@ -188,6 +214,13 @@ export class PiRunner implements AgentRunner {
 						if (event.type === "message_end" && event.message?.role === "assistant") {
 							lastStopReason = event.message.stopReason;
 							lastErrorMessage = event.message.errorMessage;
+							const messageUsage = usageFromMessage(event.message);
+							if (messageUsage) usage = addUsage(usage, priceUsage(messageUsage));
+							const overBudget = checkBudget();
+							if (overBudget && !budgetExceeded && !timedOut) {
+								budgetExceeded = overBudget;
+								killProc();
+							}
 							// Check if this message has actual text output
 							if (Array.isArray(event.message.content)) {
 								for (const part of event.message.content) {
@@ -272,12 +305,14 @@ export class PiRunner implements AgentRunner {
 				resolved = true;
 				cleanup();
 
-				let effectiveExitCode = stall ? 125 : timedOut ? 124 : (code ?? 1);
+				let effectiveExitCode = stall ? 125 : timedOut ? 124 : budgetExceeded ? 1 : (code ?? 1);
 				let effectiveStderr = timedOut
 					? `Task timed out after ${Math.round((config.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS) / 1000)}s\n${stderr}`
 					: stall
 						? `Agent stalled: ${stall.reason}\n${stderr}`
-						: stderr;
+						: budgetExceeded
+							? `Budget exceeded: ${budgetExceeded}\n${stderr}`
+							: stderr;
 
 				// pi CLI in JSON mode always exits 0, even on fatal errors.
 				// Detect error conditions and override exit code.
@@ -303,6 +338,8 @@ export class PiRunner implements AgentRunner {
 					stderr: effectiveStderr,
 					timedOut,
 					stall,
+					...(usage ? { usage } : {}),
+					...(budgetExceeded ? { budgetExceeded } : {}),
 				});
 			});
 
@@ -310,7 +347,7 @@ export class PiRunner implements AgentRunner {
 				if (resolved) return;
 				resolved = true;
 				cleanup();
-				resolve({ exitCode: 1, stdout, stderr: stderr || "Failed to spawn pi" });
+				resolve({ exitCode: 1, stdout, stderr: stderr || "Failed to spawn pi", ...(usage ? { usage } : {}) });
 			});
 
 			const killProc = () => {
@@ -332,6 +369,14 @@ export class PiRunner implements AgentRunner {
 					killProc();
 				}, effectiveTimeout)
 				: undefined;
+			const budgetMs = config.limits?.ms;
+			const budgetTimer = budgetMs !== undefined
+				? setTimeout(() => {
+					const capMinutes = config.limits?.cap?.minutes;
+					budgetExceeded = `task time budget of ${formatMinutes(capMinutes !== undefined ? capMinutes * 60_000 : budgetMs)} exceeded`;
+					killProc();
+				}, budgetMs)
+				: undefined;
 		});
 	}
 
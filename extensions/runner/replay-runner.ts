@@ -0,0 +1,175 @@
+/**
+ * ReplayRunner — records real agent sessions into a cassette and replays them offline.
+ *
+ * Record mode wraps the configured runner: every spawn stores the raw JSON
+ * event stream, the result and the files the agent changed in its working
+ * directory. Replay mode spawns nothing: it writes the recorded files into the
+ * task's cwd and returns the recorded stream, so executeWave, merges and resume
+ * can be exercised end to end without network access.
+ *
+ * Cassette layout (one directory per agent run):
+ *   <cassette>/<task-id or agent>-<n>/meta.json   result, changed and deleted paths
+ *   <cassette>/<task-id or agent>-<n>/events.jsonl
+ *   <cassette>/<task-id or agent>-<n>/prompt.md
+ *   <cassette>/<task-id or agent>-<n>/files/...   contents of changed files
+ *
+ * Runs are keyed by the task ID in the prompt (agent name for doctor/fix
+ * prompts) and numbered per key, so retries replay in order. File changes are
+ * read from `git status` and need a git working directory; record with
+ * maxConcurrency 1 when tasks share a directory (foundation, integration) so
+ * their changes aren't attributed to each other.
+ */
+
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AgentRunner, RunnerConfig, RunnerResult } from "./types.js";
+
+interface CassetteMeta {
+	agentName: string;
+	taskId?: string;
+	exitCode: number;
+	stderr: string;
+	timedOut?: boolean;
+	stall?: RunnerResult["stall"];
+	/** Final assistant text, as parsed by the recording runtime. */
+	finalOutput: string;
+	durationMs: number;
+	/** Tokens the recorded run used — not reported on replay, which costs nothing. */
+	usage?: RunnerResult["usage"];
+	changed: string[];
+	deleted: string[];
+}
+
+/** Task prompts name the task as `**<id>: <title>**`. */
+function promptTaskId(prompt: string): string | undefined {
+	return prompt.match(/^\*\*([^*:\s]+): /m)?.[1];
+}
+
+// ── Working-tree snapshots ─────────────────────────────────────────
+
+/** Hash of every changed or untracked file in a git working tree, keyed by path. */
+function dirtyFiles(cwd: string): Map<string, string | null> | null {
+	let status: string;
+	try {
+		status = execFileSync("git", ["status", "--porcelain=v1", "-z", "--untracked-files=all"], {
+			cwd, encoding: "utf-8", timeout: 30_000, stdio: ["ignore", "pipe", "ignore"],
+		});
+	} catch {
+		return null; // not a git working tree
+	}
+	const files = new Map<string, string | null>();
+	const entries = status.split("\0").filter(Boolean);
+	for (let i = 0; i < entries.length; i++) {
+		const code = entries[i].slice(0, 2);
+		const file = entries[i].slice(3);
+		if (code[0] === "R" || code[0] === "C") i++; // next entry is the rename source
+		const full = path.join(cwd, file);
+		files.set(file, fs.existsSync(full) ? createHash("sha1").update(fs.readFileSync(full)).digest("hex") : null);
+	}
+	return files;
+}
+
+// ── Runner ─────────────────────────────────────────────────────────
+
+export class ReplayRunner implements AgentRunner {
+	private counters = new Map<string, number>();
+	/** Recorded stdout → final output, for extractFinalOutput during replay. */
+	private finalOutputs = new Map<string, string>();
+
+	/**
+	 * @param cassetteDir where runs are stored
+	 * @param recordWith  runner to record (record mode); omit to replay
+	 */
+	constructor(
+		readonly cassetteDir: string,
+		private recordWith?: AgentRunner,
+	) {}
+
+	get recording(): boolean {
+		return this.recordWith !== undefined;
+	}
+
+	spawn(config: RunnerConfig): Promise<RunnerResult> {
+		const taskId = promptTaskId(config.task);
+		const key = (taskId ?? config.agentName).replace(/[^\w.-]+/g, "_");
+		const n = (this.counters.get(key) ?? 0) + 1;
+		this.counters.set(key, n);
+		const entryDir = path.join(this.cassetteDir, `${key}-${n}`);
+		return this.recordWith
+			? this.record(this.recordWith, config, taskId, entryDir)
+			: Promise.resolve(this.replay(config, entryDir));
+	}
+
+	extractFinalOutput(jsonLines: string): string {
+		return this.finalOutputs.get(jsonLines) ?? this.recordWith?.extractFinalOutput(jsonLines) ?? "";
+	}
+
+	private async record(inner: AgentRunner, config: RunnerConfig, taskId: string | undefined, entryDir: string): Promise<RunnerResult> {
+		const before = dirtyFiles(config.cwd);
+		const start = Date.now();
+		const result = await inner.spawn(config);
+		const after = dirtyFiles(config.cwd);
+
+		const changed: string[] = [];
+		const deleted: string[] = [];
+		if (before && after) {
+			for (const [file, hash] of after) {
+				if (before.has(file) && before.get(file) === hash) continue;
+				if (hash === null) deleted.push(file);
+				else changed.push(file);
+			}
+		}
+
+		fs.rmSync(entryDir, { recursive: true, force: true });
+		fs.mkdirSync(entryDir, { recursive: true });
+		for (const file of changed) {
+			const target = path.join(entryDir, "files", file);
+			fs.mkdirSync(path.dirname(target), { recursive: true });
+			fs.copyFileSync(path.join(config.cwd, file), target);
+		}
+		const meta: CassetteMeta = {
+			agentName: config.agentName,
+			...(taskId ? { taskId } : {}),
+			exitCode: result.exitCode,
+			stderr: result.stderr,
+			...(result.timedOut ? { timedOut: true } : {}),
+			...(result.stall ? { stall: result.stall } : {}),
+			finalOutput: inner.extractFinalOutput(result.stdout),
+			durationMs: Date.now() - start,
+			...(result.usage ? { usage: result.usage } : {}),
+			changed,
+			deleted,
+		};
+		fs.writeFileSync(path.join(entryDir, "meta.json"), JSON.stringify(meta, null, 2) + "\n", "utf-8");
+		fs.writeFileSync(path.join(entryDir, "events.jsonl"), result.stdout, "utf-8");
+		fs.writeFileSync(path.join(entryDir, "prompt.md"), config.task, "utf-8");
+		return result;
+	}
+
+	private replay(config: RunnerConfig, entryDir: string): RunnerResult {
+		const metaPath = path.join(entryDir, "meta.json");
+		if (!fs.existsSync(metaPath)) {
+			return { exitCode: 1, stdout: "", stderr: `Replay: no recorded run at ${entryDir}` };
+		}
+		const meta: CassetteMeta = JSON.parse(fs.readFileSync(metaPath, "utf-8"));
+		const stdout = fs.readFileSync(path.join(entryDir, "events.jsonl"), "utf-8");
+
+		for (const file of meta.changed) {
+			const target = path.join(config.cwd, file);
+			fs.mkdirSync(path.dirname(target), { recursive: true });
+			fs.copyFileSync(path.join(entryDir, "files", file), target);
+		}
+		for (const file of meta.deleted) fs.rmSync(path.join(config.cwd, file), { force: true });
+
+		this.finalOutputs.set(stdout, meta.finalOutput);
+		return {
+			exitCode: meta.exitCode,
+			stdout,
+			stderr: meta.stderr,
+			...(meta.timedOut ? { timedOut: true } : {}),
+			...(meta.stall ? { stall: meta.stall } : {}),
+		};
+	}
+}
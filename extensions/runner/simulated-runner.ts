@@ -0,0 +1,66 @@
+/**
+ * SimulatedRunner — stands in for a real runtime during `/waves-execute --dry-run`.
+ *
+ * Nothing is spawned. Every agent succeeds after an estimated duration on a
+ * virtual clock shared by all concurrent spawns, so the executors walk the
+ * plan exactly as in a real run (same scheduling, same concurrency limits)
+ * and the clock ends at the estimated wall time.
+ */
+
+import type { AgentRunner, RunnerConfig, RunnerResult } from "./types.js";
+
+export const DRY_RUN_OUTPUT = "(dry run — agent not started)";
+
+interface PendingAgent {
+	end: number;
+	resolve: () => void;
+}
+
+export class SimulatedRunner implements AgentRunner {
+	/** Virtual time since the run started, in ms. */
+	now = 0;
+	private pending: PendingAgent[] = [];
+	private flushScheduled = false;
+
+	constructor(
+		/** Estimated duration of one agent run, in ms. */
+		private estimate: (config: RunnerConfig) => number,
+		/** Called when an agent starts, with its virtual start and end times. */
+		private onSpawn?: (config: RunnerConfig, start: number, end: number) => void,
+	) {}
+
+	spawn(config: RunnerConfig): Promise<RunnerResult> {
+		const start = this.now;
+		const end = start + Math.max(0, this.estimate(config));
+		this.onSpawn?.(config, start, end);
+		return new Promise((resolve) => {
+			this.pending.push({ end, resolve: () => resolve({ exitCode: 0, stdout: "", stderr: "" }) });
+			this.scheduleFlush();
+		});
+	}
+
+	extractFinalOutput(_jsonLines: string): string {
+		return DRY_RUN_OUTPUT;
+	}
+
+	/**
+	 * Once every concurrent caller is waiting on an agent (the executors do no
+	 * other async work in a dry run), advance the clock to the next finish and
+	 * resolve the agents ending then. Their callers may start new agents at
+	 * the new time before the next flush.
+	 */
+	private scheduleFlush(): void {
+		if (this.flushScheduled) return;
+		this.flushScheduled = true;
+		setImmediate(() => {
+			this.flushScheduled = false;
+			if (this.pending.length === 0) return;
+			const next = Math.min(...this.pending.map((p) => p.end));
+			this.now = next;
+			const done = this.pending.filter((p) => p.end === next);
+			this.pending = this.pending.filter((p) => p.end !== next);
+			for (const p of done) p.resolve();
+			if (this.pending.length > 0) this.scheduleFlush();
+		});
+	}
+}
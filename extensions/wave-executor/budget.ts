@@ -0,0 +1,184 @@
+/**
+ * Budget caps — hard limits on tokens, dollars and wall-clock time per run,
+ * per wave and per task, from `budget.json` next to the plans and
+ * `/waves-execute --budget` (which wins).
+ *
+ *   - task: carried on the retry policy (`taskLimit`). Each agent run gets
+ *     what's left of it and the runner kills the agent when that's spent;
+ *     the task is then not retried and no further fix cycle starts.
+ *   - wave, run: tracked as tasks end. Once reached, RunControl.admit skips
+ *     every task that hasn't started yet — running tasks finish — and the
+ *     run stops after the wave. Skipped tasks are saved as such, so
+ *     `/waves-continue` picks up from there.
+ */
+
+import { loadProjectJson } from "./project-json.js";
+import type { BudgetCaps, RunLimits, SpendLimit, TaskAttempt, TokenUsage } from "./types.js";
+import { addUsage, formatCost, formatTokens, sumUsage, totalTokens } from "./usage.js";
+
+export const BUDGET_FILE = "budget.json";
+
+const SCOPES = ["run", "wave", "task"] as const;
+const LIMITS = ["tokens", "usd", "minutes"] as const;
+
+// ── Caps ───────────────────────────────────────────────────────────
+
+/** Unknown scopes or limits and non-positive values in parsed caps. */
+export function validateBudgetCaps(data: unknown): string[] {
+	if (typeof data !== "object" || data === null || Array.isArray(data)) return ["expected an object"];
+	const errors: string[] = [];
+	for (const [scope, limit] of Object.entries(data as Record<string, unknown>)) {
+		if (scope === "$schema") continue;
+		if (!(SCOPES as readonly string[]).includes(scope)) {
+			errors.push(`unknown scope "${scope}" (expected ${SCOPES.join(", ")})`);
+			continue;
+		}
+		if (typeof limit !== "object" || limit === null || Array.isArray(limit)) {
+			errors.push(`${scope}: expected an object`);
+			continue;
+		}
+		for (const [key, v] of Object.entries(limit as Record<string, unknown>)) {
+			if (!(LIMITS as readonly string[]).includes(key)) errors.push(`${scope}: unknown limit "${key}"`);
+			else if (typeof v !== "number" || !(v > 0)) errors.push(`${scope}.${key}: expected a positive number`);
+		}
+	}
+	return errors;
+}
+
+/** Caps in `budget.json` in the project directory; none if absent. */
+export function loadBudgetCaps(projectDir: string): BudgetCaps {
+	const data = loadProjectJson<BudgetCaps & { $schema?: string }>(projectDir, BUDGET_FILE, validateBudgetCaps);
+	if (!data) return {};
+	const { $schema: _, ...caps } = data;
+	return caps;
+}
+
+/** `--budget run.usd=20,task.minutes=30` → caps. Throws with every problem listed. */
+export function parseBudgetSpec(spec: string): BudgetCaps {
+	const caps: Record<string, Record<string, number>> = {};
+	const errors: string[] = [];
+	for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+		const m = part.match(/^(\w+)\.(\w+)\s*=\s*(.+)$/);
+		if (!m) {
+			errors.push(`"${part}": expected <scope>.<limit>=<number>, e.g. run.usd=20`);
+			continue;
+		}
+		const [, scope, key, raw] = m;
+		const value = Number(raw.replace(/^\$/, ""));
+		(caps[scope] ??= {})[key] = Number.isFinite(value) ? value : NaN;
+	}
+	errors.push(...validateBudgetCaps(caps));
+	if (errors.length > 0) throw new Error(`--budget:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+	return caps as BudgetCaps;
+}
+
+/** `override` over `base`, limit by limit. */
+export function mergeBudgetCaps(base: BudgetCaps, override: BudgetCaps = {}): BudgetCaps {
+	const caps: BudgetCaps = {};
+	for (const scope of SCOPES) {
+		const limit = { ...base[scope], ...override[scope] };
+		if (Object.keys(limit).length > 0) caps[scope] = limit;
+	}
+	return caps;
+}
+
+export function formatSpendLimit(limit: SpendLimit): string {
+	return [
+		...(limit.usd !== undefined ? [formatCost(limit.usd)] : []),
+		...(limit.tokens !== undefined ? [`${formatTokens(limit.tokens)} tokens`] : []),
+		...(limit.minutes !== undefined ? [formatMinutes(limit.minutes * 60_000)] : []),
+	].join(" / ");
+}
+
+/** `45s` under a minute, else whole minutes: `12 min` */
+export function formatMinutes(ms: number): string {
+	return ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / 60_000)} min`;
+}
+
+// ── Spend ──────────────────────────────────────────────────────────
+
+/**
+ * Which limit `usage` and `elapsedMs` reached, described, or null while
+ * every limit has room.
+ */
+export function limitReached(limit: SpendLimit | undefined, usage: TokenUsage | undefined, elapsedMs: number): string | null {
+	if (!limit) return null;
+	const tokens = totalTokens(usage);
+	const usd = usage?.costUsd ?? 0;
+	if (limit.usd !== undefined && usd >= limit.usd) return `${formatCost(usd)} of ${formatCost(limit.usd)}`;
+	if (limit.tokens !== undefined && tokens >= limit.tokens) return `${formatTokens(tokens)} of ${formatTokens(limit.tokens)} tokens`;
+	if (limit.minutes !== undefined && elapsedMs >= limit.minutes * 60_000) {
+		return `${Math.round(elapsedMs / 60_000)} of ${limit.minutes} min`;
+	}
+	return null;
+}
+
+/** What a task's runs so far used: their usage, and their time including backoff waits. */
+function attemptSpend(attempts: TaskAttempt[]): { usage: TokenUsage | undefined; ms: number } {
+	return {
+		usage: sumUsage(attempts.map((a) => a.usage)),
+		ms: attempts.reduce((sum, a) => sum + a.durationMs + (a.delayMs ?? 0), 0),
+	};
+}
+
+/** The task cap reached by `attempts`, described, or null. */
+export function taskLimitReached(limit: SpendLimit | undefined, attempts: TaskAttempt[]): string | null {
+	const { usage, ms } = attemptSpend(attempts);
+	return limitReached(limit, usage, ms);
+}
+
+/** What the next run of a task may spend: the task cap minus its earlier runs. */
+export function remainingLimits(limit: SpendLimit | undefined, attempts: TaskAttempt[]): RunLimits | undefined {
+	if (!limit) return undefined;
+	const { usage, ms } = attemptSpend(attempts);
+	return {
+		...(limit.tokens !== undefined ? { tokens: Math.max(limit.tokens - totalTokens(usage), 0) } : {}),
+		...(limit.usd !== undefined ? { usd: Math.max(limit.usd - (usage?.costUsd ?? 0), 0) } : {}),
+		...(limit.minutes !== undefined ? { ms: Math.max(limit.minutes * 60_000 - ms, 0) } : {}),
+		cap: limit,
+	};
+}
+
+export interface SpendTracker {
+	/** Count an agent run's usage towards the run and the current wave. */
+	add(usage: TokenUsage | undefined): void;
+	/** A new wave starts: its usage and clock start at zero. */
+	startWave(): void;
+	/** Run usage so far */
+	readonly spent: TokenUsage | undefined;
+	/** The run cap reached, described, or null. */
+	runExhausted(): string | null;
+	/** The run or wave cap reached, described, or null — new tasks must not start. */
+	exhausted(): string | null;
+}
+
+export function createSpendTracker(caps: BudgetCaps, now: () => number = Date.now): SpendTracker {
+	const runStart = now();
+	let waveStart = runStart;
+	let run: TokenUsage | undefined;
+	let wave: TokenUsage | undefined;
+
+	const runExhausted = () => {
+		const reached = limitReached(caps.run, run, now() - runStart);
+		return reached ? `run budget reached (${reached})` : null;
+	};
+
+	return {
+		add(usage) {
+			run = addUsage(run, usage);
+			wave = addUsage(wave, usage);
+		},
+		startWave() {
+			wave = undefined;
+			waveStart = now();
+		},
+		get spent() {
+			return run;
+		},
+		runExhausted,
+		exhausted() {
+			const reached = limitReached(caps.wave, wave, now() - waveStart);
+			return runExhausted() ?? (reached ? `wave budget reached (${reached})` : null);
+		},
+	};
+}
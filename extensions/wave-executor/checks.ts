@@ -0,0 +1,235 @@
+/**
+ * Acceptance checks — shell commands from `- **Check**:` task metadata, and
+ * the plan-wide gates from the structured keys of `## Environment`
+ * (`install`, `typecheck`, `lint`, `test`).
+ *
+ * The orchestrator runs them itself in the task's worktree after the agent
+ * exits cleanly (gates after worker tasks only, and again after the feature
+ * merge). Any non-zero exit (or timeout) fails the task, independent of what
+ * the agent or a verifier reported, and the command output is handed to the
+ * retry attempt as context.
+ */
+
+import { spawn } from "node:child_process";
+import type { CheckResult, EnvironmentGates, GateKind, GateSummary } from "./types.js";
+
+/** Per-command timeout: 5 minutes */
+export const DEFAULT_CHECK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Keep the tail of long outputs — test runners print the summary last. */
+const MAX_CHECK_OUTPUT = 8000;
+
+// ── Run ────────────────────────────────────────────────────────────
+
+/**
+ * Run one shell command in `cwd`. Never rejects: spawn errors and timeouts
+ * are reported as a failed CheckResult. Runs with CI=1 so test runners don't
+ * start in watch mode.
+ */
+export function runShellCheck(
+	command: string,
+	cwd: string,
+	signal?: AbortSignal,
+	timeoutMs = DEFAULT_CHECK_TIMEOUT_MS,
+): Promise<CheckResult> {
+	return new Promise((resolve) => {
+		const start = Date.now();
+		let output = "";
+		let timedOut = false;
+		let settled = false;
+
+		const child = spawn(command, {
+			cwd,
+			shell: true,
+			detached: true, // own process group, so a timeout also stops e.g. npm's children
+			stdio: ["ignore", "pipe", "pipe"],
+			env: { ...process.env, CI: "1" },
+		});
+
+		const killGroup = () => {
+			try { process.kill(-child.pid!, "SIGKILL"); } catch { /* already exited */ }
+		};
+		const timer = setTimeout(() => {
+			timedOut = true;
+			killGroup();
+		}, timeoutMs);
+		const onAbort = () => killGroup();
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		const append = (chunk: Buffer) => {
+			output += chunk.toString();
+			if (output.length > MAX_CHECK_OUTPUT * 2) output = output.slice(-MAX_CHECK_OUTPUT);
+		};
+		child.stdout!.on("data", append);
+		child.stderr!.on("data", append);
+
+		const finish = (exitCode: number, extra = "") => {
+			if (settled) return;
+			settled = true;
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+			resolve({
+				command,
+				exitCode,
+				output: (output + extra).slice(-MAX_CHECK_OUTPUT),
+				durationMs: Date.now() - start,
+				...(timedOut ? { timedOut } : {}),
+			});
+		};
+
+		child.on("error", (err) => finish(1, `\n${err.message}`));
+		child.on("close", (code) => {
+			if (timedOut) finish(124, `\n⏰ Timed out after ${Math.round(timeoutMs / 1000)}s`);
+			else finish(code ?? 1);
+		});
+	});
+}
+
+/** Run a task's checks in order. All of them run, so the retry sees every failure. */
+export async function runTaskChecks(checks: string[], cwd: string, signal?: AbortSignal): Promise<CheckResult[]> {
+	const results: CheckResult[] = [];
+	for (const command of checks) {
+		if (signal?.aborted) break;
+		results.push(await runShellCheck(command, cwd, signal));
+	}
+	return results;
+}
+
+// ── Environment Gates ──────────────────────────────────────────────
+
+/** Run order: install first, tests last. */
+export const GATE_KINDS: GateKind[] = ["install", "typecheck", "lint", "test"];
+
+/**
+ * Read structured gate commands from the Environment section. Recognizes
+ * list items keyed by a gate name, bold or not, with the command optionally
+ * in backticks:
+ *
+ *   - **Test**: `npm test -- {tests}`
+ *   - typecheck: npx tsc --noEmit
+ *
+ * Other lines stay free-text hints for the agents.
+ */
+export function parseEnvironmentGates(environment: string): EnvironmentGates {
+	const gates: EnvironmentGates = {};
+	for (const line of environment.split("\n")) {
+		const m = line.match(/^\s*[-*]\s+(?:\*\*)?(install|type-?check|lint|test)(?::\*\*|\*\*:|:)\s*(.+)$/i);
+		if (!m) continue;
+		const kind = m[1].toLowerCase().replace("-", "") as GateKind;
+		const command = m[2].trim().replace(/^`+|`+$/g, "").trim();
+		if (command) gates[kind] = command;
+	}
+	return gates;
+}
+
+export function hasGates(gates: EnvironmentGates | undefined): boolean {
+	return GATE_KINDS.some((k) => gates?.[k]);
+}
+
+/**
+ * The install and test gates that must pass before a change no task owns
+ * (a merge resolution) is committed, or null without a `Test` command —
+ * nothing would check it.
+ */
+export function acceptanceGates(gates: EnvironmentGates | undefined): EnvironmentGates | null {
+	if (!gates?.test) return null;
+	return gates.install ? { install: gates.install, test: gates.test } : { test: gates.test };
+}
+
+/**
+ * Run the gates in order. `{tests}` in the test command is replaced with the
+ * task's test files (empty — the whole suite — after a merge), so a worker in
+ * a sub-worktree isn't failed by a sibling's not-yet-implemented tests.
+ * A failed install stops the run: the other gates would only fail with it.
+ */
+export async function runGates(
+	gates: EnvironmentGates | undefined,
+	cwd: string,
+	signal?: AbortSignal,
+	testFiles: string[] = [],
+): Promise<CheckResult[]> {
+	const results: CheckResult[] = [];
+	for (const gate of GATE_KINDS) {
+		const template = gates?.[gate];
+		if (!template || signal?.aborted) continue;
+		const command = template.replace(/\{tests\}/g, testFiles.map(shellQuote).join(" ")).trim();
+		const result = await runShellCheck(command, cwd, signal);
+		const summary = summarizeGateOutput(gate, result.output);
+		results.push({ ...result, gate, ...(summary ? { summary } : {}) });
+		if (gate === "install" && result.exitCode !== 0) break;
+	}
+	return results;
+}
+
+export function shellQuote(arg: string): string {
+	return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/** Last number matched by `pattern` (capture group 1) — runners print totals last. */
+function lastCount(output: string, pattern: RegExp): number | undefined {
+	let count: number | undefined;
+	for (const m of output.matchAll(pattern)) count = parseInt(m[1], 10);
+	return count;
+}
+
+/**
+ * Pull pass/fail or error/warning counts out of common runner output:
+ * node:test/TAP (`# pass 3`), jest/vitest/pytest (`2 failed, 5 passed`),
+ * mocha (`5 passing`), tsc (`error TS2345`, `Found 2 errors`), eslint/ruff
+ * (`3 errors, 1 warning`). Returns undefined when nothing is recognized.
+ */
+export function summarizeGateOutput(gate: GateKind, output: string): GateSummary | undefined {
+	const summary: GateSummary = {};
+	if (gate === "test") {
+		const passed = lastCount(output, /^\s*[#ℹ]\s*pass\s+(\d+)/gm) ?? lastCount(output, /(\d+)\s+(?:passed|passing)\b/gi);
+		const failed = lastCount(output, /^\s*[#ℹ]\s*fail\s+(\d+)/gm) ?? lastCount(output, /(\d+)\s+(?:failed|failing)\b/gi);
+		if (passed !== undefined) summary.passed = passed;
+		if (failed !== undefined) summary.failed = failed;
+	} else if (gate === "typecheck" || gate === "lint") {
+		const tsErrors = output.match(/error TS\d+/g)?.length;
+		const errors = lastCount(output, /(\d+)\s+errors?\b/gi) ?? tsErrors;
+		const warnings = lastCount(output, /(\d+)\s+warnings?\b/gi);
+		if (errors !== undefined) summary.errors = errors;
+		if (warnings !== undefined) summary.warnings = warnings;
+	}
+	return Object.keys(summary).length > 0 ? summary : undefined;
+}
+
+export function formatGateSummary(summary: GateSummary | undefined): string {
+	if (!summary) return "";
+	return (["failed", "passed", "errors", "warnings"] as const)
+		.filter((k) => summary[k] !== undefined)
+		.map((k) => `${summary[k]} ${k}`)
+		.join(", ");
+}
+
+// ── Results ────────────────────────────────────────────────────────
+
+export function failedChecks(results: CheckResult[] | undefined): CheckResult[] {
+	return (results ?? []).filter((r) => r.exitCode !== 0);
+}
+
+// ── Format ─────────────────────────────────────────────────────────
+
+/** Failed checks with their output, for the task output and the retry prompt. */
+export function formatCheckFailures(results: CheckResult[]): string {
+	return failedChecks(results)
+		.map((r) => [
+			`✗ ${r.gate ? `${r.gate} gate ` : ""}\`${r.command}\` exited with ${r.exitCode}${r.timedOut ? " (timed out)" : ""}${r.summary ? ` — ${formatGateSummary(r.summary)}` : ""}`,
+			"```",
+			r.output.trim() || "(no output)",
+			"```",
+		].join("\n"))
+		.join("\n\n");
+}
+
+/** One line per check, for task logs. */
+export function formatCheckSummary(results: CheckResult[]): string {
+	return results
+		.map((r) => {
+			const label = r.gate ? `Gate ${r.gate}` : "Check";
+			const summary = r.summary ? `, ${formatGateSummary(r.summary)}` : "";
+			return `${r.exitCode === 0 ? "✓" : "✗"} ${label}: ${r.command} (exit ${r.exitCode}, ${(r.durationMs / 1000).toFixed(1)}s${summary})`;
+		})
+		.join("\n");
+}
@@ -0,0 +1,184 @@
+/**
+ * Cross-section and cross-wave task dependencies.
+ *
+ * `Depends:` may name any task that is guaranteed to have finished first:
+ *   - a task in the same section (scheduled by the section's DAG)
+ *   - a task in an earlier phase of the same wave (foundation → features → integration)
+ *   - a task in an earlier wave
+ *
+ * Sections are still scheduled on their own (runWhenReady, criticalPath),
+ * which only look at the section's own tasks, so cross-section IDs are
+ * ignored there (phase order already satisfies them). What they add is failure
+ * propagation: a task whose upstream failed is skipped instead of running
+ * against missing work, while unrelated tasks in later phases still run.
+ */
+
+import { fileOverlap } from "./plan-conflicts.js";
+import { agentRole } from "./roles.js";
+import type { Plan, PlanDiagnostic, Task, Wave } from "./types.js";
+
+// ── Scheduling ─────────────────────────────────────────────────────
+
+/**
+ * Copies of `tasks` with dependencies outside the list removed, for DAG
+ * analysis of a single section. Map results back to the originals by ID.
+ */
+export function localizeDependencies(tasks: Task[]): Task[] {
+	const ids = new Set(tasks.map((t) => t.id));
+	return tasks.map((t) => ({ ...t, depends: t.depends.filter((d) => ids.has(d)) }));
+}
+
+/**
+ * Failed (or skipped) upstream task IDs that block `task`.
+ *
+ * A task with no `Depends:` at all implicitly waits on every task in
+ * `earlierPhaseIds` — the tasks of earlier phases in the same wave — so plans
+ * that don't declare cross-section dependencies keep the old behaviour of not
+ * building on a failed foundation or a feature that didn't merge.
+ */
+export function failedDependencies(
+	task: Task,
+	failedIds: ReadonlySet<string>,
+	earlierPhaseIds: readonly string[] = [],
+): string[] {
+	const upstream = task.depends.length > 0 ? task.depends : earlierPhaseIds;
+	return upstream.filter((id) => failedIds.has(id));
+}
+
+/**
+ * Failed (or skipped) tasks of earlier waves whose work `task` builds on —
+ * named in its `Depends:`, or writing a file the task writes or tests. Used
+ * by `--keep-going` to decide which later-wave tasks can still run.
+ */
+export function failedInputs(task: Task, failedTasks: readonly Task[]): string[] {
+	const files = [...task.files, ...task.testFiles];
+	return failedTasks
+		.filter((f) => f.id !== task.id)
+		.filter((f) =>
+			task.depends.includes(f.id) ||
+			(!agentRole(f.agent).readOnly && f.files.some((a) => files.some((b) => fileOverlap(a, b) === "definite"))))
+		.map((f) => f.id);
+}
+
+/**
+ * Direct dependents of every task: those naming it in `Depends:`, and —
+ * unless `declaredOnly` — tasks without `Depends:` in later phases of its
+ * wave, which wait on it (see failedDependencies).
+ */
+export function taskDependents(plan: Plan, declaredOnly = false): Map<string, string[]> {
+	const dependents = new Map<string, string[]>();
+	const add = (from: string, to: string) => dependents.set(from, [...(dependents.get(from) ?? []), to]);
+	for (const wave of plan.waves) {
+		const phases = [wave.foundation, wave.features.flatMap((f) => f.tasks), wave.integration];
+		phases.forEach((tasks, p) => {
+			const earlier = phases.slice(0, p).flat();
+			for (const task of tasks) {
+				const upstream = task.depends.length > 0 || declaredOnly ? task.depends : earlier.map((t) => t.id);
+				for (const dep of upstream) add(dep, task.id);
+			}
+		});
+	}
+	return dependents;
+}
+
+/**
+ * Every task that transitively depends on one of `ids` (excluding `ids`
+ * themselves), mapped to the upstream ID it was reached through.
+ * Dependents are as in taskDependents.
+ */
+export function downstreamTaskIds(plan: Plan, ids: Iterable<string>, declaredOnly = false): Map<string, string> {
+	const dependents = taskDependents(plan, declaredOnly);
+	const roots = new Set(ids);
+	const reached = new Map<string, string>();
+	const queue = [...roots];
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		for (const next of dependents.get(id) ?? []) {
+			if (roots.has(next) || reached.has(next)) continue;
+			reached.set(next, id);
+			queue.push(next);
+		}
+	}
+	return reached;
+}
+
+/**
+ * For every task whose role checks the TDD red phase, the implementation
+ * tasks downstream of it. Once one of those has run, the tests are expected
+ * to pass, so a rerun of the task skips the red phase (see runTaskAttempts).
+ */
+export function redPhaseImplementers(plan: Plan): Map<string, string[]> {
+	const tasks = new Map(plan.waves.flatMap((w) => [...w.foundation, ...w.features.flatMap((f) => f.tasks), ...w.integration]).map((t) => [t.id, t]));
+	const implementers = new Map<string, string[]>();
+	for (const task of tasks.values()) {
+		if (!agentRole(task.agent).success.redPhase) continue;
+		const ids = [...downstreamTaskIds(plan, [task.id]).keys()].filter((id) => {
+			const role = agentRole(tasks.get(id)?.agent ?? "worker");
+			return !role.readOnly && role.writes === "implementation";
+		});
+		if (ids.length > 0) implementers.set(task.id, ids);
+	}
+	return implementers;
+}
+
+// ── Validation ─────────────────────────────────────────────────────
+
+/** Where a task runs, for ordering checks. Phase 0 = foundation, 1 = features, 2 = integration. */
+interface TaskPosition {
+	wave: number;
+	phase: 0 | 1 | 2;
+	feature?: string;
+}
+
+function taskPositions(waves: Wave[]): Map<string, TaskPosition> {
+	const positions = new Map<string, TaskPosition>();
+	waves.forEach((wave, wi) => {
+		for (const t of wave.foundation) positions.set(t.id, { wave: wi, phase: 0 });
+		for (const f of wave.features) {
+			for (const t of f.tasks) positions.set(t.id, { wave: wi, phase: 1, feature: f.name });
+		}
+		for (const t of wave.integration) positions.set(t.id, { wave: wi, phase: 2 });
+	});
+	return positions;
+}
+
+/**
+ * Report dependencies the executor can't honour: on a task in a later wave or
+ * later phase, or on a task in another feature of the same wave (features run
+ * in parallel, isolated worktrees). Unknown IDs are reported by validatePlan.
+ */
+export function validateDependencies(plan: Plan, diagnostics: PlanDiagnostic[] = []): PlanDiagnostic[] {
+	const positions = taskPositions(plan.waves);
+	const phaseNames = ["foundation", "feature", "integration"];
+
+	plan.waves.forEach((wave) => {
+		const tasks = [...wave.foundation, ...wave.features.flatMap((f) => f.tasks), ...wave.integration];
+		for (const task of tasks) {
+			const from = positions.get(task.id)!;
+			for (const dep of task.depends) {
+				const to = positions.get(dep);
+				if (!to || dep === task.id) continue;
+
+				let problem: string | null = null;
+				if (to.wave > from.wave) {
+					problem = `is in a later wave (Wave ${to.wave + 1})`;
+				} else if (to.wave === from.wave && to.phase > from.phase) {
+					problem = `is a later ${phaseNames[to.phase]} task`;
+				} else if (to.wave === from.wave && to.phase === 1 && from.phase === 1 && to.feature !== from.feature) {
+					problem = `is in feature "${to.feature}", which runs in parallel with "${from.feature}"`;
+				}
+
+				if (problem) {
+					diagnostics.push({
+						severity: "error",
+						line: task.source?.line ?? 1,
+						column: task.source?.column ?? 1,
+						message: `Task ${task.id} depends on ${dep}, which ${problem}`,
+					});
+				}
+			}
+		}
+	});
+
+	return diagnostics;
+}
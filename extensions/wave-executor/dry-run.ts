@@ -0,0 +1,201 @@
+/**
+ * Dry run for `/waves-execute --dry-run`.
+ *
+ * The real pipeline runs (runWaveExecution → executeWave → executeFeature)
+ * with a SimulatedRunner in place of pi and a Simulation in place of every
+ * side effect: worktrees, merges, commits, checks and gates are recorded
+ * instead of performed. The result is the exact schedule — which agents run
+ * concurrently, in which worktree, with which prompt — on a virtual clock
+ * driven by task durations from earlier execution logs.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { SimulatedRunner } from "../runner/simulated-runner.js";
+import type { RunnerConfig } from "../runner/types.js";
+import { GATE_KINDS } from "./checks.js";
+import type { EnvironmentGates, FeatureWorktree, MergeResult, SubWorktree } from "./types.js";
+
+// ── Duration History ───────────────────────────────────────────────
+
+/** Used when neither the task nor its agent has run before. */
+export const DEFAULT_AGENT_DURATION_MS: Record<string, number> = {
+	"test-writer": 3 * 60_000,
+	worker: 6 * 60_000,
+	"wave-verifier": 2 * 60_000,
+	"wave-doctor": 60_000,
+};
+const FALLBACK_DURATION_MS = 5 * 60_000;
+
+export interface DurationHistory {
+	/** Latest recorded duration per task ID. */
+	byTask: Map<string, number>;
+	/** Mean recorded duration per agent. */
+	byAgent: Map<string, number>;
+}
+
+/** `✅ 🔨 **w1-auth-t1** [worker]: Implement auth (312.4s)` — see logTaskResult. */
+const TASK_LINE = /[✅❌⏰]\s*\S+\s+\*\*([^*]+)\*\* \[([\w-]+)\]: .*\((\d+(?:\.\d+)?)s\)/;
+
+/** Parse task durations from execution logs, oldest first (later runs win). */
+export function parseDurationHistory(logs: string[]): DurationHistory {
+	const byTask = new Map<string, number>();
+	const agentTotals = new Map<string, { sum: number; count: number }>();
+	for (const log of logs) {
+		for (const line of log.split("\n")) {
+			const m = line.match(TASK_LINE);
+			if (!m) continue;
+			const ms = Math.round(parseFloat(m[3]) * 1000);
+			if (ms === 0) continue; // resumed, not run
+			byTask.set(m[1], ms);
+			const total = agentTotals.get(m[2]) ?? { sum: 0, count: 0 };
+			agentTotals.set(m[2], { sum: total.sum + ms, count: total.count + 1 });
+		}
+	}
+	const byAgent = new Map([...agentTotals].map(([agent, t]) => [agent, Math.round(t.sum / t.count)]));
+	return { byTask, byAgent };
+}
+
+/** Duration history from the `execution-vN.md` logs in a project directory. */
+export function loadDurationHistory(projectDir: string): DurationHistory {
+	const logs = fs.existsSync(projectDir)
+		? fs.readdirSync(projectDir)
+			.map((f) => ({ f, m: f.match(/^execution-v(\d+)\.md$/) }))
+			.filter((x) => x.m)
+			.sort((a, b) => parseInt(a.m![1], 10) - parseInt(b.m![1], 10))
+			.map((x) => fs.readFileSync(path.join(projectDir, x.f), "utf-8"))
+		: [];
+	return parseDurationHistory(logs);
+}
+
+export function estimateDuration(history: DurationHistory, taskId: string | undefined, agent: string): number {
+	return (taskId ? history.byTask.get(taskId) : undefined)
+		?? history.byAgent.get(agent)
+		?? DEFAULT_AGENT_DURATION_MS[agent]
+		?? FALLBACK_DURATION_MS;
+}
+
+/** Task prompts name the task as `**<id>: <title>**`. Doctor/fix prompts don't. */
+function promptTaskId(prompt: string): string | undefined {
+	return prompt.match(/^\*\*([^*:\s]+): /m)?.[1];
+}
+
+// ── Simulation ─────────────────────────────────────────────────────
+
+interface AgentRecord {
+	taskId?: string;
+	config: RunnerConfig;
+	start: number;
+	end: number;
+}
+
+/** Recorded side effects of a dry run, replacing git-worktree calls and checks in the executors. */
+export interface Simulation {
+	runner: SimulatedRunner;
+	/** Schedule note at the current virtual time. */
+	note(text: string): void;
+	featureWorktree(repoRoot: string, waveNum: number, featureName: string): FeatureWorktree;
+	subWorktrees(parent: FeatureWorktree, waveNum: number, taskIds: string[]): SubWorktree[];
+	/** Feature branches into the base branch, in mergeFeatureBranches order (passed features only). */
+	mergeFeatures(worktrees: FeatureWorktree[], results: { featureName: string; passed: boolean }[], target: string): MergeResult[];
+	/** Sub-worktree branches back into their feature branch (successful tasks only). */
+	mergeSubWorktrees(parent: FeatureWorktree, subs: SubWorktree[], results: { taskId: string; exitCode: number }[]): void;
+	/** Checks and gates that would run in `cwd`. */
+	commands(cwd: string, checks: string[], gates?: EnvironmentGates, testFiles?: string[]): void;
+	/** Estimated wall time so far. */
+	elapsed(): number;
+	/** Markdown report: the timed schedule, then (unless disabled) every agent's prompt. */
+	report(title: string, includePrompts?: boolean): string;
+}
+
+export function createSimulation(history: DurationHistory): Simulation {
+	const lines: { at: number; text: string }[] = [];
+	const agents: AgentRecord[] = [];
+
+	const runner = new SimulatedRunner(
+		(config) => estimateDuration(history, promptTaskId(config.task), config.agentName),
+		(config, start, end) => {
+			const taskId = promptTaskId(config.task);
+			agents.push({ taskId, config, start, end });
+			lines.push({ at: start, text: `▶ ${taskId ?? config.agentName} [${config.agentName}] in \`${config.cwd}\` — ~${formatClock(end - start)}` });
+		},
+	);
+	const note = (text: string) => lines.push({ at: runner.now, text });
+
+	return {
+		runner,
+		note,
+
+		featureWorktree(repoRoot, waveNum, featureName) {
+			const branch = `wave-${waveNum}/${featureName}`;
+			note(`🌿 Worktree for feature **${featureName}** on new branch \`${branch}\``);
+			return { featureName, branch, dir: `<worktree ${branch}>`, repoRoot };
+		},
+
+		subWorktrees(parent, waveNum, taskIds) {
+			return taskIds.map((taskId) => {
+				const branch = `${parent.branch}/${taskId}`;
+				note(`🌱 Sub-worktree for **${taskId}** on new branch \`${branch}\` (from \`${parent.branch}\`)`);
+				return { taskId, branch, dir: `<worktree ${branch}>`, parentBranch: parent.branch };
+			});
+		},
+
+		mergeFeatures(worktrees, results, target) {
+			return worktrees.map((wt) => {
+				const passed = results.find((r) => r.featureName === wt.featureName)?.passed ?? false;
+				if (passed) note(`🔀 Merge \`${wt.branch}\` → \`${target}\``);
+				return passed
+					? { source: wt.branch, target, success: true, hadChanges: true }
+					: { source: wt.branch, target, success: false, hadChanges: false, error: `Feature ${wt.featureName} failed — not merged` };
+			});
+		},
+
+		mergeSubWorktrees(parent, subs, results) {
+			for (const sub of subs) {
+				if (results.find((r) => r.taskId === sub.taskId)?.exitCode === 0) {
+					note(`🔀 Merge \`${sub.branch}\` → \`${parent.branch}\``);
+				}
+			}
+		},
+
+		commands(cwd, checks, gates, testFiles = []) {
+			for (const check of checks) note(`✔ Check \`${check}\` in \`${cwd}\``);
+			for (const gate of GATE_KINDS) {
+				const command = gates?.[gate]?.replace(/\{tests\}/g, testFiles.join(" ")).trim();
+				if (command) note(`✔ Gate ${gate} \`${command}\` in \`${cwd}\``);
+			}
+		},
+
+		elapsed: () => runner.now,
+
+		report(title, includePrompts = true) {
+			const out = [`# ${title}`, "", `**Estimated wall time:** ${formatClock(runner.now)} (${agents.length} agent runs)`, "", "## Schedule", ""];
+			// Stable sort keeps the order events were recorded in at equal times
+			for (const l of [...lines].sort((a, b) => a.at - b.at)) {
+				out.push(l.text.startsWith("#") ? `\n${l.text}\n` : `- \`+${formatClock(l.at)}\` ${l.text}`);
+			}
+			if (!includePrompts) return out.join("\n").trimEnd();
+			out.push("", "## Prompts", "");
+			for (const a of agents) {
+				const meta = [
+					`agent: ${a.config.agentName}`,
+					`cwd: ${a.config.cwd}`,
+					...(a.config.model ? [`model: ${a.config.model}`] : []),
+					...(a.config.tools?.length ? [`tools: ${a.config.tools.join(", ")}`] : []),
+					...(a.config.timeoutMs ? [`timeout: ${formatClock(a.config.timeoutMs)}`] : []),
+				];
+				out.push(`### ${a.taskId ?? a.config.agentName} (+${formatClock(a.start)})`, "", meta.join(" · "), "", "````", a.config.task, "````", "");
+			}
+			return out.join("\n");
+		},
+	};
+}
+
+/** `mm:ss`, or `h:mm:ss` from one hour. */
+export function formatClock(ms: number): string {
+	const s = Math.round(ms / 1000);
+	const pad = (n: number) => n.toString().padStart(2, "0");
+	const h = Math.floor(s / 3600);
+	const m = Math.floor((s % 3600) / 60);
+	return h > 0 ? `${h}:${pad(m)}:${pad(s % 60)}` : `${pad(m)}:${pad(s % 60)}`;
+}
@@ -9,7 +9,19 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { Container, Text } from "@mariozechner/pi-tui";
-import { createRunner } from "../runner/index.js";
+import type { ReplayRunner } from "../runner/replay-runner.js";
+import { createSpendTracker, formatSpendLimit, loadBudgetCaps, mergeBudgetCaps, type SpendTracker } from "./budget.js";
+import { formatCheckFailures, parseEnvironmentGates } from "./checks.js";
+import { redPhaseImplementers } from "./dependencies.js";
+import { createSimulation, formatClock, loadDurationHistory, type Simulation } from "./dry-run.js";
+import { activeRunner, setRunnerOverride } from "./helpers.js";
+import { checkFileConflicts } from "./plan-conflicts.js";
+import { formatDiagnostics, hasPlanErrors, planErrorReport } from "./plan-parser.js";
+import { sliceInvalidations, type PlanSlice } from "./plan-slice.js";
+import { holdResumePoint, resetTaskStates } from "./invalidation.js";
+import { loadRetryPolicy } from "./retry-policy.js";
+import { agentsWithoutRole, loadRoleRegistry, setRoleRegistry } from "./roles.js";
+import { createRunControl, setActiveRunControl } from "./run-control.js";
 import {
 	advanceToWave,
 	completedTaskIds,
@@ -19,7 +31,8 @@ import {
 	markTaskSkipped,
 	writeState,
 } from "./state.js";
-import type { ExecutionState, MergeResult, Plan, WaveResult } from "./types.js";
+import type { BudgetCaps, ExecutionState, MergeResolution, MergeResult, Plan, PlanDiagnostic, RetryPolicy, Task, WaveResult } from "./types.js";
+import { formatCost, formatUsage, loadPriceTable, setPriceTable, sumUsage, usageBreakdown } from "./usage.js";
 import { executeWave } from "./wave-executor.js";
 import { createTaskTracker, extractBriefError, formatElapsed, taskLine } from "./widget.js";
 
@@ -28,6 +41,8 @@ import { createTaskTracker, extractBriefError, formatElapsed, taskLine } from ".
 export interface RunConfig {
 	plan: Plan;
 	planFile: string;
+	/** From loading the plan (PlanParseResult) — any error and the run doesn't start. */
+	diagnostics?: PlanDiagnostic[];
 	specContent: string;
 	cwd: string;
 	startWave: number;
@@ -39,6 +54,18 @@ export interface RunConfig {
 	protectedPaths: string[];
 	maxConcurrency: number;
 	isResume: boolean;
+	/** `--dry-run`: simulate the run — no agents, git changes, checks or state/log writes. */
+	dryRun?: boolean;
+	/** `--keep-going`: don't stop at a failed wave — run every task that doesn't build on failed work. */
+	keepGoing?: boolean;
+	/** `--resolve-conflicts`: let a merge-resolver agent try conflicting feature merges (kept only if tests pass). */
+	resolveConflicts?: boolean;
+	/** `/waves-run`: run only this task, feature or wave — again, even if already done. */
+	slice?: PlanSlice;
+	/** `/waves-run --invalidate`: completed tasks depending on the slice are reset, so `/waves-continue` redoes them. */
+	invalidateDownstream?: boolean;
+	/** `--budget run.usd=20,task.minutes=30`: caps over those in `budget.json`. */
+	budget?: BudgetCaps;
 	/** The pi extension API (for sendMessage) */
 	pi: ExtensionAPI;
 	/** The command context (for ui.setWidget, ui.setStatus, ui.theme, cwd) */
@@ -48,10 +75,12 @@ export interface RunConfig {
 // ── Runtime label ──────────────────────────────────────────────────
 
 function runtimeLabel(): string {
-	const runner = createRunner();
+	const runner = activeRunner();
 	const name = runner.constructor.name;
 	if (name === "ClaudeCodeRunner") return "claude";
 	if (name === "PiRunner") return "pi";
+	if (name === "SimulatedRunner") return "dry-run";
+	if (name === "ReplayRunner") return (runner as ReplayRunner).recording ? "recording" : "replay";
 	return "unknown";
 }
 
@@ -62,21 +91,53 @@ function withRuntime(theme: any, status: string): string {
 // ── Runner ─────────────────────────────────────────────────────────
 
 export async function runWaveExecution(cfg: RunConfig): Promise<void> {
+	try {
+		if (!cfg.dryRun) return await runWaves(cfg);
+
+		// Dry run: the same loop with a simulated runner and every side effect recorded
+		const simulation = createSimulation(loadDurationHistory(path.dirname(cfg.logPath)));
+		setRunnerOverride(simulation.runner);
+		try {
+			await runWaves(cfg, simulation);
+		} finally {
+			setRunnerOverride(null);
+		}
+	} finally {
+		setActiveRunControl(null);
+	}
+}
+
+async function runWaves(cfg: RunConfig, simulation?: Simulation): Promise<void> {
 	const {
-		plan, planFile, specContent, cwd, startWave, skipSet, execState,
+		plan, planFile, diagnostics = [], specContent, cwd, startWave, skipSet, execState,
 		logPath, logLines, taskLogDir, protectedPaths,
-		maxConcurrency, isResume, pi, ctx,
+		maxConcurrency, isResume, keepGoing = false, resolveConflicts = false, slice, invalidateDownstream = false, budget, pi, ctx,
 	} = cfg;
 
-	const totalTasks = plan.waves.reduce(
+	const totalTasks = slice ? slice.taskIds.length : plan.waves.reduce(
 		(s, w) => s + w.foundation.length + w.features.reduce((fs2, f) => fs2 + f.tasks.length, 0) + w.integration.length,
 		0,
 	);
-
-	const controller = new AbortController();
+	// `/waves-run` covers one wave (or part of it)
+	const firstWave = slice ? slice.waveIndex : startWave;
+	const lastWave = slice ? slice.waveIndex + 1 : plan.waves.length;
+
+	// `/waves-stop`, `/waves-abort`, `/waves-pause`, `/waves-cancel` act on this run,
+	// and a reached run or wave budget cap stops new tasks the same way
+	let spend: SpendTracker | undefined;
+	const control = createRunControl(plan.waves.flatMap((w) => [
+		...w.foundation,
+		...w.features.flatMap((f) => f.tasks),
+		...w.integration,
+	].map((t) => t.id)), () => spend?.exhausted() ?? null);
+	setActiveRunControl(control);
 	const waveResults: WaveResult[] = [];
 	let allPassed = true;
 	let totalCompleted = 0;
+	// Failed and skipped tasks so far — with --keep-going, later waves skip what builds on them
+	const upstreamFailures: Task[] = [];
+	// Merge resolver runs — their usage isn't in any task result
+	const resolutions: MergeResolution[] = [];
 	const resumeTag = isResume ? " (resumed)" : "";
 	const execStartTime = Date.now();
 
@@ -106,22 +167,149 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 	}
 
 	const writeLog = () => {
+		if (simulation) return;
 		fs.mkdirSync(path.dirname(logPath), { recursive: true });
 		fs.writeFileSync(logPath, logLines.join("\n"), "utf-8");
 	};
 
+	// ── Retry Policy ─────────────────────────────────────────────
+	// `retry-policy.json` next to the plans; an invalid file stops the run
+	// rather than silently falling back to the defaults.
+
+	let retryPolicy: RetryPolicy;
+	try {
+		retryPolicy = loadRetryPolicy(path.dirname(logPath));
+	} catch (e: any) {
+		reportSetupError(pi, ctx, "wave-retry-policy", "Invalid retry policy", "Invalid retry-policy.json", e.message);
+		return;
+	}
+
+	// ── Prices ───────────────────────────────────────────────────
+	// `prices.json` next to the plans, over the default table
+
+	try {
+		setPriceTable(loadPriceTable(path.dirname(logPath)));
+	} catch (e: any) {
+		reportSetupError(pi, ctx, "wave-prices", "Invalid price table", "Invalid prices.json", e.message);
+		return;
+	}
+
+	// ── Agent Roles ──────────────────────────────────────────────
+	// `roles.json` next to the plans, over the built-in roles
+
+	try {
+		setRoleRegistry(loadRoleRegistry(path.dirname(logPath)));
+	} catch (e: any) {
+		reportSetupError(pi, ctx, "wave-roles", "Invalid agent roles", "Invalid roles.json", e.message);
+		return;
+	}
+	const roleless = agentsWithoutRole(plan);
+	if (roleless.length > 0) log(`⚠️ No role for agent${roleless.length === 1 ? "" : "s"} ${roleless.join(", ")} — running as worker (define roles in roles.json)`);
+	// Reruns of a test-writer skip the red phase once its implementation is committed
+	const implementers = redPhaseImplementers(plan);
+
+	// ── Budget Caps ──────────────────────────────────────────────
+	// `budget.json` next to the plans, overridden by `--budget`. The task cap
+	// travels with the retry policy; run and wave caps are checked by admit.
+
+	let caps: BudgetCaps;
+	try {
+		caps = mergeBudgetCaps(loadBudgetCaps(path.dirname(logPath)), budget);
+	} catch (e: any) {
+		reportSetupError(pi, ctx, "wave-budget", "Invalid budget caps", "Invalid budget.json", e.message);
+		return;
+	}
+	if (caps.task) retryPolicy = { ...retryPolicy, taskLimit: caps.task };
+	spend = createSpendTracker(caps);
+	const capsInfo = (["run", "wave", "task"] as const)
+		.filter((scope) => caps[scope])
+		.map((scope) => `${scope} ${formatSpendLimit(caps[scope]!)}`);
+	if (capsInfo.length > 0) log(`Budget caps: ${capsInfo.join(", ")}`);
+
+	// Earlier runs' task durations rank waiting tasks by remaining critical path
+	const durationHistory = loadDurationHistory(path.dirname(logPath));
+
+	// ── Plan Diagnostics ─────────────────────────────────────────
+	// A parse error means the plan is only partly what was written (tasks
+	// dropped, metadata ignored, unknown dependencies): don't run the rest.
+
+	const planErrors = planErrorReport(diagnostics, path.relative(cwd, planFile));
+	if (planErrors) {
+		log(`Plan errors:\n${planErrors}`);
+		pi.sendMessage(
+			{
+				customType: "wave-plan-errors",
+				content: `❌ **Plan errors** — execution not started:\n\n\`\`\`\n${planErrors}\n\`\`\`\n\nFix the plan and run again.`,
+				display: true,
+			},
+			{ triggerTurn: false },
+		);
+		writeLog();
+		ctx.ui.setStatus("waves", withRuntime(ctx.ui.theme, ctx.ui.theme.fg("error", "❌ Plan errors — see report")));
+		setTimeout(() => ctx.ui.setStatus("waves", undefined), 15000);
+		return;
+	}
+
+	// ── File Ownership ───────────────────────────────────────────
+	// Before any worktree exists: parallel writers of the same file would
+	// only surface later as a merge conflict.
+
+	const conflicts = checkFileConflicts(plan);
+	if (conflicts.length > 0) {
+		const blocking = hasPlanErrors(conflicts);
+		const report = formatDiagnostics(conflicts, path.relative(cwd, planFile));
+		log(`File ownership ${blocking ? "conflicts" : "warnings"}:\n${report}`);
+		pi.sendMessage(
+			{
+				customType: "wave-file-conflicts",
+				content: blocking
+					? `❌ **File ownership conflicts** — execution not started:\n\n\`\`\`\n${report}\n\`\`\`\n\nGive each file a single owner, or order the writers (\`Depends:\` within a section, or separate phases/waves).`
+					: `⚠️ **File ownership warnings:**\n\n\`\`\`\n${report}\n\`\`\``,
+				display: true,
+			},
+			{ triggerTurn: false },
+		);
+		if (blocking) {
+			writeLog();
+			ctx.ui.setStatus("waves", withRuntime(ctx.ui.theme, ctx.ui.theme.fg("error", "❌ File ownership conflicts — see report")));
+			setTimeout(() => ctx.ui.setStatus("waves", undefined), 15000);
+			return;
+		}
+	}
+
+	// ── Slice ────────────────────────────────────────────────────
+	// `/waves-run`: the slice's tasks run again even if done. Completed tasks
+	// built on them are reset with --invalidate, otherwise only reported.
+
+	const invalidated = slice ? sliceInvalidations(plan, slice, completedTaskIds(execState)) : [];
+	if (slice) {
+		for (const id of slice.taskIds) delete execState.taskStates[id];
+		if (invalidateDownstream) resetTaskStates(execState, plan, invalidated.map((t) => t.id));
+		if (!simulation) writeState(planFile, execState);
+		log(`Running ${slice.kind} ${slice.target} only (${slice.taskIds.length} task(s))`);
+	}
+
 	// ── Wave Loop ────────────────────────────────────────────────
 
-	for (let wi = startWave; wi < plan.waves.length; wi++) {
-		const wave = plan.waves[wi];
-		const waveLabel = `Wave ${wi + 1}/${plan.waves.length}: ${wave.name}`;
+	for (let wi = firstWave; wi < lastWave; wi++) {
+		const wave = slice?.wave ?? plan.waves[wi];
+		const waveLabel = `Wave ${wi + 1}/${plan.waves.length}: ${wave.name}${slice && slice.kind !== "wave" ? ` — ${slice.target}` : ""}`;
 		const waveTasks = [
 			...wave.foundation,
 			...wave.features.flatMap((f) => f.tasks),
 			...wave.integration,
 		];
 
-		advanceToWave(execState, wi);
+		// A slice leaves the position of the main run alone. With --keep-going
+		// the resume point stays at the first wave that left tasks failed or skipped.
+		if (!slice) {
+			advanceToWave(execState, wi);
+			if (upstreamFailures.length > 0) {
+				holdResumePoint(execState, plan, upstreamFailures.map((t) => t.id));
+				if (!simulation) writeState(planFile, execState);
+			}
+		}
+		simulation?.note(`### ${waveLabel} (starts +${formatClock(simulation.elapsed())})`);
 		ctx.ui.setStatus("waves", withRuntime(ctx.ui.theme, ctx.ui.theme.fg("accent", `⚡ ${waveLabel}${resumeTag}`)));
 		log(`## ${waveLabel}`);
 
@@ -131,7 +319,7 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 
 		// Mark already-completed tasks (resume only)
 		for (const t of waveTasks) {
-			if (skipSet.has(t.id)) tracker.statuses.set(t.id, "done");
+			if (skipSet.has(t.id) && !slice?.taskIds.includes(t.id)) tracker.statuses.set(t.id, "done");
 		}
 
 		let currentPhase: string | null = null;
@@ -143,7 +331,7 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 			ctx.ui.setWidget("wave-progress", (_tui: any, theme: any) => {
 				const container = new Container();
 				container.addChild(new Text(
-					theme.fg("accent", `⚡ ${waveLabel}${resumeTag} — ${completed}/${waveTasks.length} done`),
+					theme.fg("accent", `⚡ ${waveLabel}${resumeTag} — ${completed}/${waveTasks.length} done${control.paused ? " ⏸ paused" : control.stopping ? " ⏹ stopping" : ""}`),
 					1, 0,
 				));
 
@@ -204,6 +392,7 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 		// ── Execute ────────────────────────────────────────────
 
 		const currentSkipSet = completedTaskIds(execState);
+		spend.startWave();
 
 		const waveResult = await executeWave({
 			wave,
@@ -212,12 +401,20 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 			dataSchemas: plan.dataSchemas,
 			projectStructure: plan.projectStructure,
 			environment: plan.environment,
+			gates: parseEnvironmentGates(plan.environment),
+			retryPolicy,
 			protectedPaths,
 			cwd,
 			maxConcurrency,
-			signal: controller.signal,
+			durationHistory,
+			signal: control.signal,
+			control,
 			skipTaskIds: currentSkipSet,
-			taskLogDir,
+			redPhaseImplementers: implementers,
+			keepGoing,
+			resolveConflicts,
+			upstreamFailures,
+			taskLogDir: simulation ? undefined : taskLogDir,
 			onProgress: (update) => {
 				currentPhase = update.phase;
 				updateWidget();
@@ -228,6 +425,7 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 				updateWidget();
 			},
 			onTaskEnd: (_phase, task, result) => {
+				spend!.add(result.usage);
 				const status =
 					result.timedOut ? "timeout" :
 					result.exitCode === 0 ? "done" :
@@ -252,10 +450,12 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 				completed++;
 
 				// Persist for resume
-				if (result.exitCode === 0) markTaskDone(execState, task.id);
-				else if (result.exitCode === -1) markTaskSkipped(execState, task.id);
-				else markTaskFailed(execState, task.id);
-				writeState(planFile, execState);
+				if (!simulation) {
+					if (result.exitCode === 0) markTaskDone(execState, task.id);
+					else if (result.exitCode === -1) markTaskSkipped(execState, task.id);
+					else markTaskFailed(execState, task.id);
+					writeState(planFile, execState);
+				}
 				updateWidget();
 			},
 			onFixCycleStart: (_phase, task) => {
@@ -270,14 +470,27 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 			},
 			onMergeResult: (result) => {
 				mergeResults.push(result);
+				if (result.resolution) resolutions.push(result.resolution);
+				spend!.add(result.resolution?.usage);
 				updateWidget();
 			},
 			onLog: (line) => log(line),
+			simulation,
 		});
 
 		clearInterval(refreshTimer);
 		totalCompleted += completed;
 		waveResults.push(waveResult);
+		if (waveResult.usage) log(`Wave usage: ${formatUsage(waveResult.usage)}`);
+
+		// Tasks of a feature that didn't merge finished, but their work never
+		// reached the base branch — run them again on resume
+		if (!simulation) {
+			const unmerged = new Set(waveResult.failedTaskIds ?? []);
+			const lost = waveResult.featureResults.flatMap((f) => f.taskResults).filter((r) => r.exitCode === 0 && unmerged.has(r.id));
+			for (const r of lost) markTaskSkipped(execState, r.id);
+			if (lost.length > 0) writeState(planFile, execState);
+		}
 
 		// ── Report ─────────────────────────────────────────────
 
@@ -285,8 +498,11 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 			allPassed = false;
 			reportWaveFailure(pi, wave.name, waveResult, tracker);
 			writeLog();
-			break; // Stop at first failed wave
-		} else {
+			if (!keepGoing) break; // Stop at first failed wave
+			const failedIds = new Set(waveResult.failedTaskIds ?? []);
+			upstreamFailures.push(...waveTasks.filter((t) => failedIds.has(t.id)));
+			if (failedIds.size > 0) log(`${failedIds.size} task(s) failed or skipped — continuing with work that doesn't depend on them (--keep-going)`);
+		} else if (!simulation) {
 			const allResults = [
 				...waveResult.foundationResults,
 				...waveResult.featureResults.flatMap((f) => f.taskResults),
@@ -299,6 +515,17 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 			);
 		}
 
+		// `/waves-stop`, `/waves-abort` or the run budget cap: later waves don't start
+		const budgetReached = spend.runExhausted();
+		if (control.stopping || control.signal.aborted || budgetReached) {
+			if (wi < lastWave - 1) allPassed = false;
+			log(control.signal.aborted ? "Execution aborted (/waves-abort)"
+				: control.stopping ? "Execution stopped (/waves-stop)"
+				: `Execution stopped: ${budgetReached}`);
+			writeLog();
+			break;
+		}
+
 		writeLog();
 	}
 
@@ -306,26 +533,40 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 
 	ctx.ui.setWidget("wave-progress", undefined);
 
+	if (simulation) {
+		reportDryRun(pi, ctx, plan, cwd, path.join(path.dirname(logPath), "dry-run.md"), simulation);
+		return;
+	}
+
 	logLines.push("");
 	log("---");
 	log(`Finished: ${new Date().toISOString()}`);
 	const totalElapsed = formatElapsed(Date.now() - execStartTime);
-	const stoppedEarly = !allPassed && waveResults.length < plan.waves.length - startWave;
-	log(`Result: ${allPassed ? "SUCCESS" : stoppedEarly ? "STOPPED — wave failed" : "COMPLETED WITH ISSUES"} (${totalElapsed})`);
+	const stoppedEarly = !allPassed && waveResults.length < lastWave - firstWave;
+	const interrupted = control.signal.aborted ? "aborted" : control.stopping ? "stopped" : null;
+	// A run or wave cap reached: tasks were skipped rather than failed
+	const budgetStop = allPassed || interrupted ? null : spend.exhausted();
+	const stopReason = interrupted ? `${interrupted} by request` : budgetStop ?? "wave failed";
+	log(`Result: ${allPassed ? "SUCCESS" : stoppedEarly ? `STOPPED — ${stopReason}` : "COMPLETED WITH ISSUES"} (${totalElapsed})`);
+	const runUsage = sumUsage(waveResults.map((wr) => wr.usage));
+	if (runUsage) log(`Usage: ${formatUsage(runUsage)}`);
 	writeLog();
 
-	if (allPassed) deleteState(planFile);
+	// The rest of the plan still needs the state after a slice
+	if (allPassed && !slice) deleteState(planFile);
 
 	const icon = allPassed ? "✅" : "❌";
-	const verb = isResume
-		? (allPassed ? "Resume Complete" : "Resume Stopped")
-		: (allPassed ? "Execution Complete" : stoppedEarly ? "Execution Stopped" : "Execution Complete (with issues)");
+	const verb = slice
+		? `Run ${allPassed ? "Complete" : "Failed"}: ${slice.kind} ${slice.target}`
+		: isResume
+			? (allPassed ? "Resume Complete" : stoppedEarly ? "Resume Stopped" : "Resume Complete (with issues)")
+			: (allPassed ? "Execution Complete" : interrupted === "aborted" ? "Execution Aborted" : stoppedEarly ? "Execution Stopped" : "Execution Complete (with issues)");
 
 	let finalSummary = `# ${icon} ${verb}\n\n`;
 	finalSummary += `**Goal:** ${plan.goal}\n`;
 	finalSummary += `**Tasks:** ${totalCompleted}/${totalTasks}\n`;
-	if (!isResume) {
-		finalSummary += `**Waves:** ${waveResults.length}/${plan.waves.length}${stoppedEarly ? " (stopped at failure)" : ""}\n`;
+	if (!isResume && !slice) {
+		finalSummary += `**Waves:** ${waveResults.length}/${plan.waves.length}${stoppedEarly ? ` (${interrupted ? `${interrupted} by request` : budgetStop ?? "stopped at failure"})` : ""}\n`;
 	}
 	finalSummary += "\n";
 
@@ -340,11 +581,59 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 		const featureInfo = wr.featureResults.length > 0
 			? ` (${wr.featureResults.filter((f) => f.passed).length}/${wr.featureResults.length} features)`
 			: "";
-		finalSummary += `${wIcon} **${wr.wave}**: ${passed}/${allResults.length} tasks${featureInfo}\n`;
+		const cost = wr.usage ? ` · ${formatCost(wr.usage.costUsd ?? 0)}` : "";
+		finalSummary += `${wIcon} **${wr.wave}**: ${passed}/${allResults.length} tasks${featureInfo}${cost}\n`;
+	}
+
+	// Where the tokens went: by agent, and what retries and fix cycles added
+	if (runUsage) {
+		const { byAgent, retries } = usageBreakdown(waveResults.flatMap((wr) => [
+			...wr.foundationResults,
+			...wr.featureResults.flatMap((f) => f.taskResults),
+			...wr.integrationResults,
+		]), resolutions);
+		finalSummary += `\n**Usage:** ${formatUsage(runUsage)}\n`;
+		finalSummary += byAgent.map(([agent, u]) => `  - ${agent}: ${formatUsage(u)}`).join("\n") + "\n";
+		if (retries) finalSummary += `  - retries and fix cycles: ${formatCost(retries.costUsd ?? 0)}\n`;
+	}
+
+	// --keep-going ran past failures: list all of them in one place
+	if (keepGoing && !allPassed) {
+		const results = waveResults.flatMap((wr) => [
+			...wr.foundationResults,
+			...wr.featureResults.flatMap((f) => f.taskResults),
+			...wr.integrationResults,
+		]);
+		const failed = results.filter((r) => r.exitCode !== 0 && r.exitCode !== -1);
+		const skipped = results.filter((r) => r.exitCode === -1);
+		const unmerged = upstreamFailures.filter((t) => results.some((r) => r.id === t.id && r.exitCode === 0));
+		if (failed.length > 0) {
+			finalSummary += `\n**Failed (${failed.length}):**\n`;
+			finalSummary += failed.map((r) => `  - ${r.id}: ${r.title} — ${extractBriefError(r)}`).join("\n") + "\n";
+		}
+		if (unmerged.length > 0) {
+			finalSummary += `\n**Not merged (${unmerged.length}):** ${unmerged.map((t) => t.id).join(", ")}\n`;
+		}
+		if (skipped.length > 0) {
+			finalSummary += `\n**Skipped — built on failed work (${skipped.length}):** ${skipped.map((r) => r.id).join(", ")}\n`;
+		}
+	}
+
+	if (invalidated.length > 0) {
+		finalSummary += invalidateDownstream
+			? `\n**Invalidated (${invalidated.length})** — \`/waves-continue\` runs them again:\n`
+			: `\n**Built on this slice (${invalidated.length})** — still marked done; \`--invalidate\` resets them:\n`;
+		finalSummary += invalidated.map((t) => `  - ${t.id} — ${t.reason}`).join("\n") + "\n";
+	}
+
+	if (budgetStop) {
+		finalSummary += `\n**Budget:** ${budgetStop} — tasks that hadn't started were skipped and saved for \`/waves-continue\`.\n`;
 	}
 
 	if (!allPassed) {
-		finalSummary += `\nRun \`/waves-continue\` to retry after fixing issues.`;
+		finalSummary += slice
+			? `\nRun \`/waves-run\` again after fixing issues.`
+			: `\nRun \`/waves-continue\` to retry after fixing issues.`;
 	}
 	finalSummary += `\n📄 Execution log: \`${path.relative(cwd, logPath)}\``;
 	finalSummary += `\n📂 Task logs: \`${path.relative(cwd, taskLogDir)}/\``;
@@ -355,14 +644,47 @@ export async function runWaveExecution(cfg: RunConfig): Promise<void> {
 	);
 
 	const statusMsg = allPassed
-		? ctx.ui.theme.fg("success", `✅ ${isResume ? "Resume" : "Done"} — ${totalCompleted} tasks`)
-		: ctx.ui.theme.fg("error", `❌ ${isResume ? "Resume stopped" : "Stopped"} — wave ${startWave + waveResults.length} failed. /waves-continue to retry`);
+		? ctx.ui.theme.fg("success", `✅ ${slice ? `Ran ${slice.target}` : isResume ? "Resume" : "Done"} — ${totalCompleted} tasks`)
+		: slice
+			? ctx.ui.theme.fg("error", `❌ ${slice.target} failed — see summary`)
+		: stoppedEarly
+			? ctx.ui.theme.fg("error", `❌ ${isResume ? "Resume stopped" : "Stopped"} — ${interrupted ? `${interrupted} in wave ${firstWave + waveResults.length}` : `wave ${firstWave + waveResults.length} failed`}. /waves-continue to retry`)
+			: ctx.ui.theme.fg("error", `❌ ${isResume ? "Resume finished" : "Finished"} with failures — see summary. /waves-continue to retry`);
 	ctx.ui.setStatus("waves", withRuntime(ctx.ui.theme, statusMsg));
 	setTimeout(() => ctx.ui.setStatus("waves", undefined), 15000);
 }
 
+// ── Dry Run Report ─────────────────────────────────────────────────
+
+function reportDryRun(pi: ExtensionAPI, ctx: any, plan: Plan, cwd: string, reportPath: string, simulation: Simulation): void {
+	const title = `Dry run: ${plan.goal || "plan"}`;
+	fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+	fs.writeFileSync(reportPath, simulation.report(title), "utf-8");
+
+	pi.sendMessage(
+		{
+			customType: "wave-dry-run",
+			content: `${simulation.report(title, false)}\n\n📄 Full schedule with every agent prompt: \`${path.relative(cwd, reportPath)}\``,
+			display: true,
+		},
+		{ triggerTurn: false },
+	);
+	ctx.ui.setStatus("waves", ctx.ui.theme.fg("success", `🧪 Dry run — ~${formatClock(simulation.elapsed())} estimated`));
+	setTimeout(() => ctx.ui.setStatus("waves", undefined), 15000);
+}
+
 // ── Failure Reporting ──────────────────────────────────────────────
 
+/** An invalid project file: the run doesn't start. */
+function reportSetupError(pi: ExtensionAPI, ctx: any, customType: string, title: string, statusText: string, message: string): void {
+	pi.sendMessage(
+		{ customType, content: `❌ **${title}** — execution not started:\n\n\`\`\`\n${message}\n\`\`\``, display: true },
+		{ triggerTurn: false },
+	);
+	ctx.ui.setStatus("waves", withRuntime(ctx.ui.theme, ctx.ui.theme.fg("error", `❌ ${statusText} — see report`)));
+	setTimeout(() => ctx.ui.setStatus("waves", undefined), 15000);
+}
+
 function reportWaveFailure(
 	pi: ExtensionAPI,
 	waveName: string,
@@ -405,6 +727,15 @@ function reportWaveFailure(
 		);
 	}
 
+	// Environment gates that went red on the merged features
+	const gateFailures = formatCheckFailures(waveResult.mergeGateResults ?? []);
+	if (gateFailures) {
+		pi.sendMessage(
+			{ customType: "wave-merge-gates", content: `❌ **${waveName}** — Environment gates failed after the feature merge:\n\n${gateFailures}`, display: true },
+			{ triggerTurn: false },
+		);
+	}
+
 	// Failed features with per-task breakdown
 	const failedFeatures = waveResult.featureResults.filter((f) => !f.passed);
 	if (failedFeatures.length > 0) {
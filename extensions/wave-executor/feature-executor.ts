@@ -1,12 +1,15 @@
 /**
  * Feature executor — runs a single feature's task DAG with sub-worktree isolation.
  *
- * For parallel tasks at the same DAG level:
- *   - Creates sub-worktrees branching from the feature branch
- *   - Runs tasks in parallel, each in its own sub-worktree
- *   - Merges sub-worktrees back into the feature branch
+ * Each task starts as soon as its dependencies have finished and a slot in
+ * the wave's agent pool is free (see scheduler.ts).
  *
- * For sequential tasks (single task at a DAG level):
+ * For tasks that can run alongside another task of the feature:
+ *   - Creates a sub-worktree branching from the feature branch
+ *   - Runs the task in it
+ *   - Merges it back into the feature branch before dependents start
+ *
+ * For tasks ordered against every other task (a chain):
  *   - Runs directly in the feature worktree (no sub-worktree overhead)
  */
 
@@ -15,24 +18,35 @@ import {
 	createSubWorktrees,
 	mergeSubWorktrees,
 } from "../subagent/git-worktree.js";
-import { buildDAG, mapConcurrent } from "./dag.js";
+import { remainingLimits } from "./budget.js";
+import { failedChecks } from "./checks.js";
+import { failedDependencies, localizeDependencies } from "./dependencies.js";
+import { estimateDuration, parseDurationHistory, type DurationHistory, type Simulation } from "./dry-run.js";
 import {
 	appendTaskLog,
 	checkDeclaredFiles,
-	extractFinalOutput,
 	extractSpecSections,
-	isApiRateLimitError,
 	runSubagent,
 	taskLogFile,
 } from "./helpers.js";
+import { canRetry, DEFAULT_RETRY_POLICY, resolveRetryPolicy, taskRetryOverrides } from "./retry-policy.js";
+import { reviewTask, taskReviewers } from "./review.js";
+import { agentRole, buildRolePrompt, roleFileRules } from "./roles.js";
+import { cancelledResult, type RunControl } from "./run-control.js";
+import { concurrentTasks, createSlotPool, criticalPath, runWhenReady, type SlotPool } from "./scheduler.js";
+import { runTaskAttempts } from "./task-runner.js";
 import type {
+	EnvironmentGates,
 	Feature,
 	FeatureResult,
 	FeatureWorktree,
-	FileAccessRules,
+	RetryPolicy,
+	SubWorktree,
 	Task,
+	TaskAttempt,
 	TaskResult,
 } from "./types.js";
+import { sumUsage } from "./usage.js";
 
 // ── Public Interface ───────────────────────────────────────────────
 
@@ -47,12 +61,28 @@ export interface FeatureExecutorOptions {
 	projectStructure: string;
 	/** Environment hints (versions, test commands, quirks) — injected into every task prompt. */
 	environment: string;
+	/** Structured Environment commands the orchestrator runs after every worker task. */
+	gates?: EnvironmentGates;
+	/** Project retry policy; tasks may override it (`- **Retry Policy**:`, `- **Retries**:`). */
+	retryPolicy?: RetryPolicy;
 	protectedPaths: string[];
 	cwd: string; // fallback cwd if no worktree
 	maxConcurrency: number;
+	/** The wave's shared agent slots; defaults to a pool of maxConcurrency for this feature alone. */
+	slots?: SlotPool;
+	/** Task durations from earlier runs — ranks waiting tasks by remaining critical path. */
+	durationHistory?: DurationHistory;
 	signal?: AbortSignal;
+	/** `/waves-stop`, `/waves-pause`, `/waves-cancel` — asked before each task starts. */
+	control?: RunControl;
 	/** Task IDs to skip (already completed in a previous run). */
 	skipTaskIds?: Set<string>;
+	/** Implementation tasks downstream of each red-phase task (redPhaseImplementers) — reruns skip the red phase once one is committed. */
+	redPhaseImplementers?: ReadonlyMap<string, string[]>;
+	/** Tasks that failed or were skipped earlier in the wave — dependents here are skipped. */
+	failedTaskIds?: ReadonlySet<string>;
+	/** Earlier-phase (foundation) task IDs that tasks without `Depends:` implicitly wait on. */
+	earlierPhaseIds?: string[];
 	/** Directory for per-task log files. */
 	taskLogDir?: string;
 	onTaskStart?: (task: Task) => void;
@@ -60,6 +90,8 @@ export interface FeatureExecutorOptions {
 	onFixCycleStart?: (task: Task) => void;
 	onStallRetry?: (task: Task, reason: string) => void;
 	onLog?: (line: string) => void;
+	/** Dry run: sub-worktrees, merges, commits, checks and gates are recorded here instead of performed. */
+	simulation?: Simulation;
 }
 
 // ── Execute Feature ────────────────────────────────────────────────
@@ -73,38 +105,70 @@ export async function executeFeature(opts: FeatureExecutorOptions): Promise<Feat
 		dataSchemas,
 		projectStructure,
 		environment,
+		gates,
+		retryPolicy = DEFAULT_RETRY_POLICY,
 		protectedPaths,
 		cwd,
 		maxConcurrency,
+		slots,
+		durationHistory = parseDurationHistory([]),
 		signal,
+		control,
 		skipTaskIds = new Set(),
+		redPhaseImplementers,
+		failedTaskIds = new Set(),
+		earlierPhaseIds = [],
 		taskLogDir,
 		onTaskStart,
 		onTaskEnd,
 		onFixCycleStart,
 		onStallRetry,
 		onLog,
+		simulation,
 	} = opts;
 
 	const featureCwd = featureWorktree?.dir ?? cwd;
-	const taskResults: TaskResult[] = [];
-	const failedIds = new Set<string>();
-
-	const levels = buildDAG(feature.tasks);
-
-	for (const level of levels) {
-		if (level.tasks.length === 0) continue;
+	const failedIds = new Set<string>(failedTaskIds);
+	const pool = slots ?? createSlotPool(maxConcurrency);
+
+	// Scheduling only orders tasks within the feature; cross-section deps are
+	// satisfied by phase order and only matter for skipping below.
+	const localTasks = localizeDependencies(feature.tasks);
+	const priority = criticalPath(localTasks, (t) => estimateDuration(durationHistory, t.id, t.agent));
+	// A task that can overlap another one gets its own sub-worktree; tasks
+	// ordered against every other task run directly in the feature worktree.
+	const overlapping = concurrentTasks(localTasks);
+	// Sub-worktree creation and merges change the feature branch, and tasks
+	// without a sub-worktree of their own share its directory — one at a time
+	const featureLock = createSlotPool(1);
+	const withFeatureLock = async <T>(fn: () => T | Promise<T>): Promise<T> => {
+		const release = await featureLock.acquire();
+		try {
+			return await fn();
+		} finally {
+			release();
+		}
+	};
 
-		// Check if all tasks in this level should be skipped (dependency failed)
-		const runnableTasks = level.tasks.filter(
-			(t) => !t.depends.some((d) => failedIds.has(d)),
-		);
-		const skippedTasks = level.tasks.filter(
-			(t) => t.depends.some((d) => failedIds.has(d)),
-		);
+	const taskResults = await runWhenReady(feature.tasks, async (task): Promise<TaskResult> => {
+		// Skip tasks already completed in a previous run
+		if (skipTaskIds.has(task.id)) {
+			const skipped: TaskResult = {
+				id: task.id,
+				title: task.title,
+				agent: task.agent,
+				exitCode: 0,
+				output: "↩ Resumed — already completed in previous run",
+				stderr: "",
+				durationMs: 0,
+			};
+			onTaskStart?.(task);
+			onTaskEnd?.(task, skipped);
+			return skipped;
+		}
 
-		// Mark skipped tasks
-		for (const task of skippedTasks) {
+		// Skip tasks whose dependencies failed (or that build on an earlier wave's failure)
+		if (failedIds.has(task.id) || failedDependencies(task, failedIds, earlierPhaseIds).length > 0) {
 			const skipped: TaskResult = {
 				id: task.id,
 				title: task.title,
@@ -115,76 +179,64 @@ export async function executeFeature(opts: FeatureExecutorOptions): Promise<Feat
 				durationMs: 0,
 			};
 			failedIds.add(task.id);
-			taskResults.push(skipped);
 			onTaskEnd?.(task, skipped);
+			return skipped;
 		}
 
-		if (runnableTasks.length === 0) continue;
-
-		// Decide isolation strategy
-		const useSubWorktrees =
-			runnableTasks.length > 1 && featureWorktree !== null;
+		const release = await pool.acquire(priority.get(task.id));
 
-		let subWorktrees: import("./types.js").SubWorktree[] = [];
-
-		if (useSubWorktrees) {
-			subWorktrees = createSubWorktrees(
-				featureWorktree!,
-				waveNum,
-				runnableTasks.map((t) => t.id),
-			);
-			// If sub-worktree creation failed, fall back to sequential in feature worktree
+		// Stopped, aborted or cancelled — and held here while paused
+		const held = await control?.admit(task.id);
+		if (held) {
+			release();
+			control?.finish(task.id);
+			const skipped: TaskResult = {
+				id: task.id,
+				title: task.title,
+				agent: task.agent,
+				exitCode: -1,
+				output: held,
+				stderr: "",
+				durationMs: 0,
+			};
+			failedIds.add(task.id);
+			onTaskEnd?.(task, skipped);
+			return skipped;
 		}
 
-		const actuallyParallel = subWorktrees.length === runnableTasks.length;
-		const subWorktreeMap = new Map(subWorktrees.map((sw) => [sw.taskId, sw]));
-
-		const levelResults = await mapConcurrent(
-			runnableTasks,
-			actuallyParallel ? maxConcurrency : 1,
-			async (task) => {
-				// Skip tasks already completed in a previous run
-				if (skipTaskIds.has(task.id)) {
-					const skipped: TaskResult = {
-						id: task.id,
-						title: task.title,
-						agent: task.agent,
-						exitCode: 0,
-						output: "↩ Resumed — already completed in previous run",
-						stderr: "",
-						durationMs: 0,
-					};
-					onTaskStart?.(task);
-					onTaskEnd?.(task, skipped);
-					return skipped;
-				}
-
-				onTaskStart?.(task);
-				const start = Date.now();
-
-				// Determine working directory
-				let taskCwd = featureCwd;
-				if (actuallyParallel) {
-					const sw = subWorktreeMap.get(task.id);
-					if (sw) taskCwd = sw.dir;
-				}
-
-				// Collect all files from the feature for verifier context
-				const featureFiles = task.agent === "wave-verifier"
-					? feature.tasks.filter(t => t.agent !== "wave-verifier").flatMap(t => t.files)
-					: undefined;
-
-				const tLogFile = taskLogDir ? taskLogFile(taskLogDir, task.id, task.agent) : undefined;
-				const result = await runSingleTask(task, taskCwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal, onStallRetry, featureFiles, tLogFile);
-				const elapsed = Date.now() - start;
-
+		const taskSignal = control?.taskSignal(task.id) ?? signal;
+		let sub: SubWorktree | undefined;
+		let taskResult: TaskResult;
+		try {
+			onTaskStart?.(task);
+			const start = Date.now();
+
+			// Determine working directory
+			if (featureWorktree && overlapping.get(task.id)!.size > 0) {
+				sub = await withFeatureLock(() => simulation
+					? simulation.subWorktrees(featureWorktree, waveNum, [task.id])[0]
+					: createSubWorktrees(featureWorktree, waveNum, [task.id])[0]);
+			}
+			const taskCwd = sub?.dir ?? featureCwd;
+
+			// Collect all files from the feature for verifier context
+			const role = agentRole(task.agent);
+			const featureFiles = role.readOnly
+				? feature.tasks.filter(t => !agentRole(t.agent).readOnly).flatMap(t => t.files)
+				: undefined;
+
+			const tLogFile = taskLogDir ? taskLogFile(taskLogDir, task.id, role.logSuffix) : undefined;
+			const policy = resolveRetryPolicy(retryPolicy, ...taskRetryOverrides(task));
+			const runTask = async (): Promise<TaskResult> => {
+				const result = await runSingleTask(task, taskCwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, taskSignal, onStallRetry, featureFiles, tLogFile, gates, simulation, policy,
+					undefined, undefined, redPhaseImplementers?.get(task.id));
 				let taskResult: TaskResult = {
 					...result,
-					durationMs: elapsed,
+					durationMs: Date.now() - start,
 				};
 
-				// Post-task file existence check for worker/test-writer tasks
-				if (result.exitCode === 0 && task.agent !== "wave-verifier" && task.files.length > 0) {
+				// Post-task file existence check for roles that create their files
+				if (result.exitCode === 0 && !simulation && role.success.declaredFiles && task.files.length > 0) {
 					const missingFiles = checkDeclaredFiles(task.files, taskCwd);
 					if (missingFiles.length > 0) {
 						taskResult = {
@@ -198,66 +250,90 @@ export async function executeFeature(opts: FeatureExecutorOptions): Promise<Feat
 					}
 				}
 
-				// Fix cycle for verifier failures (max 1 retry)
-				if (task.agent === "wave-verifier" && result.exitCode !== 0) {
-					onFixCycleStart?.(task);
-					const fixResult = await runFixCycle(
-						task,
-						result,
-						feature,
-						taskCwd,
-						specContent,
-						dataSchemas,
-						projectStructure,
-						environment,
-						protectedPaths,
-						signal,
-					);
-					if (fixResult) {
-						taskResult = { ...fixResult, durationMs: Date.now() - start };
+				// Fix cycles for verifier failures, as many as the retry policy allows
+				if (role.success.fixCycles && result.exitCode !== 0) {
+					let verified = result;
+					while (verified.exitCode !== 0 && !taskSignal?.aborted && canRetry(policy, verified.attempts ?? [], "verifier-fail")) {
+						onFixCycleStart?.(task);
+						verified = await runFixCycle(
+							task,
+							verified,
+							feature,
+							taskCwd,
+							specContent,
+							dataSchemas,
+							projectStructure,
+							environment,
+							protectedPaths,
+							taskSignal,
+							policy,
+						);
 					}
+					taskResult = { ...verified, durationMs: Date.now() - start };
 				}
 
-				// Per-task commit — sequential tasks in feature worktree (or base branch)
+				// Review stage — blocking findings get one revision round before the commit
+				const reviewers = taskReviewers(task, feature);
+				if (taskResult.exitCode === 0 && !simulation && reviewers.length > 0 && !taskSignal?.aborted) {
+					onLog?.(`   🔎 Reviewing: ${task.id} [${reviewers.join(", ")}]`);
+					const reviewed = await reviewTask({
+						task, reviewers, result: taskResult, cwd: taskCwd, protectedPaths, signal: taskSignal, logDir: taskLogDir,
+						revise: (context, previousAttempts) => runSingleTask(task, taskCwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, taskSignal, onStallRetry, featureFiles, tLogFile, gates, simulation, policy, previousAttempts, context),
+					});
+					taskResult = { ...reviewed, durationMs: Date.now() - start };
+				}
+
+				if (control?.isCancelled(task.id)) taskResult = cancelledResult(taskResult);
+
+				// Per-task commit — tasks in the feature worktree (or base branch).
 				// Sub-worktree tasks are committed during mergeSubWorktrees instead.
-				if (taskResult.exitCode === 0 && !actuallyParallel) {
+				if (taskResult.exitCode === 0 && !sub && !simulation) {
 					const committed = commitTaskOutput(taskCwd, task.id, task.title, task.agent);
 					if (committed) {
 						onLog?.(`   📌 Committed: ${task.id} [${task.agent}] — ${task.title}`);
 						appendTaskLog(tLogFile, `\n📌 Committed by orchestrator: pi: ${task.id} [${task.agent}] — ${task.title}`);
 					}
 				}
+				return taskResult;
+			};
 
-				if (taskResult.exitCode !== 0) {
-					failedIds.add(task.id);
-				}
+			// An overlapping task without a sub-worktree (no git, or creation failed)
+			// holds the feature directory: nothing else runs or merges there meanwhile
+			taskResult = !sub && overlapping.get(task.id)!.size > 0
+				? await withFeatureLock(runTask)
+				: await runTask();
+		} finally {
+			release();
+			control?.finish(task.id);
+		}
 
-				onTaskEnd?.(task, taskResult);
-				return taskResult;
-			},
-		);
-
-		taskResults.push(...levelResults);
-
-		// Merge sub-worktrees back into feature branch if we used them
-		if (actuallyParallel && subWorktrees.length > 0) {
-			await mergeSubWorktrees(
-				featureWorktree!,
-				subWorktrees,
-				levelResults.map((r) => ({ taskId: r.id, exitCode: r.exitCode, title: r.title, agent: r.agent })),
-			);
+		// Merge the sub-worktree back into the feature branch before dependents start
+		if (sub) {
+			const outcome = [{ taskId: task.id, exitCode: taskResult.exitCode, title: task.title, agent: task.agent }];
+			await withFeatureLock(() => simulation
+				? simulation.mergeSubWorktrees(featureWorktree!, [sub!], outcome)
+				: mergeSubWorktrees(featureWorktree!, [sub!], outcome));
+		}
+
+		if (taskResult.exitCode !== 0) {
+			failedIds.add(task.id);
 		}
-	}
+
+		onTaskEnd?.(task, taskResult);
+		return taskResult;
+	});
 
 	const passed = taskResults.every((r) => r.exitCode === 0 || r.exitCode === -1 && r.output === "Skipped: dependency failed" && false);
 	// Feature passes only if no task actually failed (skipped from failed deps counts as failure)
 	const allPassed = !taskResults.some((r) => r.exitCode !== 0);
+	const usage = sumUsage(taskResults.map((r) => r.usage));
 
 	return {
 		name: feature.name,
 		branch: featureWorktree?.branch ?? "",
 		taskResults,
 		passed: allPassed,
+		...(usage ? { usage } : {}),
 	};
 }
 
@@ -277,6 +353,18 @@ async function runSingleTask(
 	allFeatureFiles?: string[],
 	/** Log file path for this task */
 	logFile?: string,
+	/** Environment gates — run after tasks whose role includes them (workers) */
+	gates?: EnvironmentGates,
+	/** Dry run: checks and gates are recorded, not run */
+	simulation?: Simulation,
+	/** Retry policy for this task (project policy + task overrides) */
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	/** Earlier runs when re-verifying after a fix cycle or revising after a review */
+	previousAttempts?: TaskAttempt[],
+	/** Review revision: blocking findings appended to the prompt */
+	revision?: string,
+	/** Implementation tasks downstream of a red-phase task — see TaskRun.implementers */
+	implementers?: string[],
 ): Promise<Omit<TaskResult, "durationMs">> {
 	const agentName = task.agent || "worker";
 	const specContext = extractSpecSections(specContent, task.specRefs);
@@ -290,182 +378,28 @@ async function runSingleTask(
 		? `\n## Environment\n${environment}\n`
 		: "";
 	const contextBlocks = `${structureBlock}${envBlock}${schemasBlock}`;
-	let agentTask: string;
-
-	if (agentName === "test-writer") {
-		agentTask = `You are writing tests as part of a TDD implementation plan.
-${contextBlocks}
-## Spec Reference
-${specContext}
-
-## Your Task
-**${task.id}: ${task.title}**
-Files to create/modify: ${task.files.join(", ")}
-${task.specRefs.length > 0 ? `Spec refs: ${task.specRefs.join(", ")}` : ""}
-
-${task.description}
-
-IMPORTANT:
-- Only create/modify TEST files listed for this task
-- Tests should FAIL right now (implementation doesn't exist yet)
-- Tests define the expected behavior — they are the contract
-- Follow existing test patterns in the project
-- Do not touch implementation files
-- Use exact field names, column names, and type names from the Data Schemas section above
-- You may be working in a git worktree. Use relative paths.
-- Work continuously — do NOT stop to summarize progress or wait for feedback`;
-	} else if (agentName === "wave-verifier") {
-		const featureFilesBlock = allFeatureFiles && allFeatureFiles.length > 0
-			? `\n## Required Files (MUST ALL EXIST)\nThese files should have been created by prior tasks. Verify EVERY one exists before running tests:\n${allFeatureFiles.map(f => `- \`${f}\``).join("\n")}\n`
-			: "";
-		agentTask = `You are verifying completed work.
-${contextBlocks}
-## Spec Reference
-${specContext}
-
-## Your Task
-**${task.id}: ${task.title}**
-${task.files.length > 0 ? `Files to check: ${task.files.join(", ")}` : ""}
-${task.specRefs.length > 0 ? `Spec refs: ${task.specRefs.join(", ")}` : ""}
-${featureFilesBlock}
-${task.description}
-
-IMPORTANT — verify in this order:
-1. **File existence** — check that ALL required files listed above actually exist on disk. If ANY are missing, immediately report status "fail" with the list of missing files. Do NOT proceed to tests.
-2. **Syntax/compilation** — run the compiler/linter (e.g., \`cargo build\`, \`npx tsc --noEmit\`). If it fails, report "fail".
-3. **Tests** — run the test suite. If tests fail, report "fail".
-4. **Completeness** — verify the implementation matches the task descriptions (correct types, methods, signatures).
-- Do NOT modify any files — only read and run checks
-- If working in a git worktree, run tests relative to the worktree root
-- Work continuously — do NOT stop to summarize progress or wait for feedback`;
-	} else {
-		const testContext =
-			task.testFiles.length > 0
-				? `\nTests to satisfy: ${task.testFiles.join(", ")}\nYour implementation MUST make these tests pass.`
-				: "";
-		agentTask = `You are implementing code as part of a TDD plan. Tests may have already been written — your job is to make them pass.
-${contextBlocks}
-## Spec Reference
-${specContext}
-
-## Your Task
-**${task.id}: ${task.title}**
-Files: ${task.files.join(", ")}
-${task.specRefs.length > 0 ? `Spec refs: ${task.specRefs.join(", ")}` : ""}${testContext}
-
-${task.description}
-
-IMPORTANT:
-- Only modify the IMPLEMENTATION files listed for this task
-- Do NOT modify test files
-- Your code must make the existing tests pass
-- Follow the spec requirements exactly
-- Use exact field names, column names, and type names from the Data Schemas section above — they are authoritative and override any names in the spec
-- Do not touch files outside your task scope
-- You may be working in a git worktree. Use relative paths.
-- Work continuously — do NOT stop to summarize progress or wait for feedback`;
-	}
-
-	// Build file access rules
-	let fileRules: FileAccessRules | undefined;
-
-	if (agentName === "test-writer") {
-		fileRules = {
-			allowWrite: [...task.files],
-			protectedPaths,
-			safeBashOnly: true,
-		};
-	} else if (agentName === "wave-verifier") {
-		fileRules = {
-			readOnly: true,
-			protectedPaths,
-			safeBashOnly: false, // needs to run test commands
-		};
-	} else {
-		const blocked = task.testFiles || [];
-		fileRules = {
-			allowWrite: [
-				...task.files.filter((f) => !blocked.some((b) => f === b)),
-				".env.test",
-			],
-			protectedPaths,
-		};
-	}
-
-	const logCtx = [`Task: ${task.id} — ${task.title}`, `Role: ${agentName}`, `Files: ${task.files.join(", ") || "(none)"}`];
-	let result = await runSubagent(agentName, agentTask, cwd, signal, fileRules, undefined, logFile, logCtx);
-
-	// Stall retry: if agent got stuck in a loop, interrupt and retry with guidance
-	if (result.stall) {
-		onStallRetry?.(task, result.stall.reason);
-		const stallContext = [
-			`\n\n⚠️ IMPORTANT: A previous attempt at this task got stuck.`,
-			`Reason: ${result.stall.reason}`,
-			`Recent activity before interruption:`,
-			...result.stall.recentActivity.map((a) => `  - ${a}`),
-			`\nYou MUST take a different approach. Do not repeat the same actions.`,
-			`The previous agent's partial work may already be on disk — check what exists before starting.`,
-		].join("\n");
-		// Retry appends to the same log file
-		result = await runSubagent(agentName, agentTask + stallContext, cwd, signal, fileRules, undefined, logFile, [`${logCtx[0]} (stall retry)`, ...logCtx.slice(1)]);
-	}
-
-	// API rate-limit retry: if the agent was rate-limited, wait with exponential backoff and retry.
-	// Pi's internal retries use short delays (2s base); this handles sustained rate limiting
-	// with longer waits (60s, 120s, 240s) to let the API quota recover.
-	if (result.exitCode !== 0 && isApiRateLimitError(result.stderr)) {
-		const API_RETRY_DELAYS = [60_000, 120_000, 240_000]; // 1min, 2min, 4min
-		for (let attempt = 0; attempt < API_RETRY_DELAYS.length; attempt++) {
-			if (signal?.aborted) break;
-			const delay = API_RETRY_DELAYS[attempt];
-			console.error(`⏳ Task "${task.title}" hit API rate limit. Waiting ${delay / 1000}s before retry ${attempt + 1}/${API_RETRY_DELAYS.length}...`);
-			await new Promise((r) => setTimeout(r, delay));
-			if (signal?.aborted) break;
-			result = await runSubagent(agentName, agentTask, cwd, signal, fileRules, undefined, logFile, [`${logCtx[0]} (rate-limit retry ${attempt + 1})`, ...logCtx.slice(1)]);
-			if (result.exitCode === 0 || !isApiRateLimitError(result.stderr)) break;
-		}
-	}
-
-	// Doctor retry: if worker hit infrastructure errors, invoke doctor then retry
-	if (result.exitCode !== 0 && result.infraErrors && result.infraErrors.length > 0) {
-		const problemDesc = result.infraErrors.slice(-3).join("\n");
-		const doctorResult = await runSubagent(
-			"wave-doctor",
-			`Fix this infrastructure problem in ${cwd}:\n${problemDesc}`,
-			cwd, signal, undefined, 120_000, // 2 min timeout, no file restrictions
-		);
-		if (doctorResult.exitCode === 0) {
-			const fix = extractFinalOutput(doctorResult.stdout) || "Environment fixed.";
-			const doctorContext = [
-				`\n\n✅ ENVIRONMENT FIXED: A doctor agent resolved infrastructure issues:`,
-				fix,
-				`\nYour previous code is already on disk. Just verify it works — run the tests.`,
-			].join("\n");
-			result = await runSubagent(agentName, agentTask + doctorContext, cwd, signal, fileRules, undefined, logFile, [`${logCtx[0]} (doctor retry)`, ...logCtx.slice(1)]);
-		}
-	}
-
-	const output = extractFinalOutput(result.stdout);
-
-	return {
-		id: task.id,
-		title: task.title,
-		agent: agentName,
-		exitCode: result.exitCode,
-		output: result.timedOut ? `⏰ Task timed out\n${output}` : (output || "(no output)"),
-		stderr: result.stderr,
-		timedOut: result.timedOut,
-	};
+	const role = agentRole(agentName);
+	const agentTask = buildRolePrompt(role, { task, specContext, contextBlocks, requiredFiles: allFeatureFiles });
+	const fileRules = roleFileRules(role, task, protectedPaths);
+
+	return runTaskAttempts({
+		task, agentName, prompt: agentTask + (revision ?? ""), cwd, fileRules, policy, logFile, signal, onStallRetry, simulation,
+		gates: role.success.gates ? gates : undefined,
+		redPhase: role.success.redPhase ? gates?.test : undefined,
+		implementers,
+		previousAttempts, reason: revision ? "review" : previousAttempts ? "re-verify" : "initial",
+	});
 }
 
 // ── Fix Cycle ──────────────────────────────────────────────────────
 
 /**
- * When a verifier fails, attempt one fix cycle:
+ * When a verifier fails, run one fix cycle:
  * 1. Run a fix agent with the verifier output + spec context
  * 2. Re-run the verifier
  *
- * Returns the re-verification result, or null if the fix didn't help.
+ * Returns the re-verification result (exit code 0 if it passed), with the
+ * fix and re-verify runs added to the verifier's attempts.
  */
 async function runFixCycle(
 	verifierTask: Task,
@@ -477,8 +411,9 @@ async function runFixCycle(
 	projectStructure: string,
 	environment: string,
 	protectedPaths: string[],
-	signal?: AbortSignal,
-): Promise<Omit<TaskResult, "durationMs"> | null> {
+	signal: AbortSignal | undefined,
+	policy: RetryPolicy,
+): Promise<Omit<TaskResult, "durationMs">> {
 	// Gather all writable files in this feature for the fix agent
 	const featureFiles = feature.tasks.flatMap((t) => t.files);
 	const schemasBlock = dataSchemas
@@ -498,18 +433,30 @@ ${featureFiles.join(", ")}
 
 Fix the issues and ensure all tests pass. Use exact names from Data Schemas above. You may be working in a git worktree — use relative paths.`;
 
-	await runSubagent("worker", fixTask, cwd, signal, {
+	const attempts = verifierResult.attempts ?? [];
+	const fixStart = Date.now();
+	const fixResult = await runSubagent("worker", fixTask, cwd, signal, {
 		allowWrite: featureFiles,
 		protectedPaths,
-	});
+	}, undefined, undefined, undefined, { limits: remainingLimits(policy.taskLimit, attempts) });
+	const fixAttempt: TaskAttempt = {
+		attempt: attempts.length + 1,
+		agent: "worker",
+		reason: "verifier-fail",
+		exitCode: fixResult.exitCode,
+		durationMs: Date.now() - fixStart,
+		...(fixResult.usage ? { usage: fixResult.usage } : {}),
+	};
 
 	// Re-run verifier (with feature files context)
-	const allFeatureFiles = feature.tasks.filter(t => t.agent !== "wave-verifier").flatMap(t => t.files);
-	const reResult = await runSingleTask(verifierTask, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal, undefined, allFeatureFiles);
+	const allFeatureFiles = feature.tasks.filter(t => !agentRole(t.agent).readOnly).flatMap(t => t.files);
+	const reResult = await runSingleTask(verifierTask, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal, undefined, allFeatureFiles,
+		undefined, undefined, undefined, policy, [...attempts, fixAttempt]);
 
 	// Check if re-verification passed
 	let passed = reResult.exitCode === 0;
-	if (!passed) {
+	// Failed Check commands are authoritative — the verifier's report can't override them
+	if (!passed && failedChecks(reResult.checkResults).length === 0) {
 		try {
 			const jsonMatch = reResult.output.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, reResult.output];
 			const v = JSON.parse(jsonMatch[1]!.trim());
@@ -519,9 +466,5 @@ Fix the issues and ensure all tests pass. Use exact names from Data Schemas abov
 		}
 	}
 
-	if (passed) {
-		return { ...reResult, exitCode: 0 };
-	}
-
-	return null; // Fix didn't help
+	return passed ? { ...reResult, exitCode: 0 } : { ...reResult, exitCode: reResult.exitCode || 1 };
 }
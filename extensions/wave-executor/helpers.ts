@@ -9,7 +9,16 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import { createRunner } from "../runner/index.js";
-import type { FileAccessRules } from "./types.js";
+import { ReplayRunner } from "../runner/replay-runner.js";
+import type { AgentRunner } from "../runner/types.js";
+import { invalidationSet, resetTaskStates, revertTaskCommits, taskCommits } from "./invalidation.js";
+import { diffPlans, formatPlanDiff, invalidatedTasks } from "./plan-diff.js";
+import { type GraphFormat, renderPlanGraph } from "./plan-graph.js";
+import { snapshotPlanIncludes } from "./plan-includes.js";
+import { loadPlanFile, planToJson } from "./plan-interchange.js";
+import { writeState } from "./state.js";
+import type { ExecutionState, FileAccessRules } from "./types.js";
+import { formatUsage, priceUsage } from "./usage.js";
 
 // ── Version ────────────────────────────────────────────────────────
 
@@ -100,13 +109,51 @@ export function extractSpecSections(specContent: string, specRefs: string[]): st
 	return result.length > 200 ? result.slice(0, 12000) : specContent.slice(0, 6000);
 }
 
+// ── Runner Selection ───────────────────────────────────────────────
+
+let runnerOverride: AgentRunner | null = null;
+
+/** Kept across spawns: it numbers the runs it records or replays. */
+let cassetteRunner: ReplayRunner | null = null;
+
+/**
+ * Route every agent spawn through `runner` instead of the configured runtime
+ * (used by dry runs). Pass null to restore createRunner().
+ */
+export function setRunnerOverride(runner: AgentRunner | null): void {
+	runnerOverride = runner;
+}
+
+/**
+ * The runner agents are spawned with: the override if set, else the
+ * configured runtime. `PI_WAVE_RUNTIME=replay` replays the cassette in
+ * PI_WAVE_CASSETTE; `PI_WAVE_RECORD=<dir>` records the configured runtime
+ * into a cassette.
+ */
+export function activeRunner(): AgentRunner {
+	if (runnerOverride) return runnerOverride;
+
+	const replayDir = process.env.PI_WAVE_RUNTIME === "replay" ? process.env.PI_WAVE_CASSETTE : undefined;
+	const recordDir = process.env.PI_WAVE_RECORD;
+	if (process.env.PI_WAVE_RUNTIME === "replay" && !replayDir) {
+		throw new Error("PI_WAVE_RUNTIME=replay needs PI_WAVE_CASSETTE=<cassette directory>");
+	}
+	const cassetteDir = replayDir ?? recordDir;
+	if (!cassetteDir) return createRunner();
+
+	const dir = path.resolve(cassetteDir);
+	if (cassetteRunner?.cassetteDir !== dir || cassetteRunner.recording !== !replayDir) {
+		cassetteRunner = new ReplayRunner(dir, replayDir ? undefined : createRunner());
+	}
+	return cassetteRunner;
+}
+
 /**
  * Extract the final assistant text from agent output.
  * Delegates to the configured runner for format-aware parsing.
  */
 export function extractFinalOutput(jsonLines: string): string {
-	const runner = createRunner();
-	return runner.extractFinalOutput(jsonLines);
+	return activeRunner().extractFinalOutput(jsonLines);
 }
 
 // ── Path Helpers ───────────────────────────────────────────────────
@@ -143,10 +190,12 @@ type FileType = "spec" | "plan" | "execution";
 /**
  * List versioned files of a given type in a directory, sorted by version ascending.
  * Matches: spec-v1.md, plan-v3.md, execution-v2.md
+ * Plans may also be JSON/YAML: plan-v4.json, plan-v5.yaml
  */
 export function versionedFiles(dir: string, type: FileType): { file: string; version: number }[] {
 	if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return [];
-	const regex = new RegExp(`^${type}-v(\\d+)\\.md$`);
+	const extensions = type === "plan" ? "(?:md|json|ya?ml)" : "md";
+	const regex = new RegExp(`^${type}-v(\\d+)\\.${extensions}$`);
 	return fs.readdirSync(dir)
 		.map((f) => {
 			const m = f.match(regex);
@@ -192,10 +241,18 @@ export function specPath(cwd: string, name: string): string {
 	return path.join(dir, `spec-v${v}.md`);
 }
 
-export function planPath(cwd: string, name: string): string {
+/**
+ * Start the next plan version: freezes the include set of the current latest
+ * plan (see plan-includes.ts), then returns the new version's path. Every
+ * writer of a plan version goes through here, so editing shared include files
+ * for the new version never changes what older versions read.
+ */
+export function planPath(cwd: string, name: string, ext: "md" | "json" | "yaml" = "md"): string {
 	const dir = projectDir(cwd, name);
+	const latest = latestFile(dir, "plan");
+	if (latest) snapshotPlanIncludes(latest);
 	const v = nextVersion(dir, "plan");
-	return path.join(dir, `plan-v${v}.md`);
+	return path.join(dir, `plan-v${v}.${ext}`);
 }
 
 export function logFilePath(cwd: string, name: string): string {
@@ -361,12 +418,8 @@ export function appendTaskLog(logFile: string | undefined, text: string): void {
 	try { fs.appendFileSync(logFile, `${text}\n`); } catch { /* best effort */ }
 }
 
-/** Get the log file path for a task, including agent role suffix. */
-export function taskLogFile(logDir: string, taskId: string, agent?: string): string {
-	const suffix = agent === "test-writer" ? "-test"
-		: agent === "wave-verifier" ? "-verify"
-		: agent === "worker" ? "-impl"
-		: "";
+/** Get the log file path for a task, with its role's log suffix (roles.ts). */
+export function taskLogFile(logDir: string, taskId: string, suffix = ""): string {
 	return path.join(logDir, `${taskId}${suffix}.log`);
 }
 
@@ -450,14 +503,140 @@ export function projectSummary(cwd: string, name: string): string {
 }
 
 /**
- * Extract the spec file reference from a plan's Markdown content.
- * Plans contain a `## Reference` section with `- Spec: \`path\``.
+ * Read a project's saved execution state (state.json).
+ * Returns null if there is none or it can't be parsed.
+ */
+export function readProjectState(cwd: string, name: string): ExecutionState | null {
+	try {
+		return JSON.parse(fs.readFileSync(path.join(projectDir(cwd, name), "state.json"), "utf-8"));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Extract the spec file reference from a plan's content.
+ * Markdown plans contain a `## Reference` section with `- Spec: \`path\``;
+ * JSON/YAML plans have a top-level `spec` property.
  */
 export function extractSpecRef(planContent: string): string | null {
-	const match = planContent.match(/[-*]\s*Spec:\s*`([^`]+)`/i);
+	const match = planContent.match(/[-*]\s*Spec:\s*`([^`]+)`/i)
+		?? planContent.match(/^\s*"spec"\s*:\s*"([^"]+)"/m)
+		?? planContent.match(/^spec:\s*["']?([^"'\n]+?)["']?\s*$/m);
 	return match ? match[1] : null;
 }
 
+// ── Plan Export ────────────────────────────────────────────────────
+
+/**
+ * Convert the latest Markdown plan of a project to JSON, written as the next
+ * plan version (plan-vN.json). Returns the source and written paths, or null
+ * if the project has no Markdown plan.
+ */
+export function exportPlanJson(cwd: string, name: string): { from: string; to: string } | null {
+	const from = latestFile(projectDir(cwd, name), "plan");
+	if (!from || !from.endsWith(".md")) return null;
+	const { plan } = loadPlanFile(from);
+	const to = planPath(cwd, name, "json");
+	fs.writeFileSync(to, planToJson(plan, extractSpecRef(fs.readFileSync(from, "utf-8"))), "utf-8");
+	return { from, to };
+}
+
+// ── Plan Diff ──────────────────────────────────────────────────────
+
+/**
+ * Build the `/waves-plan-diff <project> [vA] [vB]` report. Versions are
+ * numbers with or without a `v` prefix; they default to the previous and
+ * latest plan. Throws with a user-facing message if a version is missing.
+ */
+export function planDiffReport(cwd: string, project: string, versionA?: string, versionB?: string): string {
+	const versions = allVersions(projectDir(cwd, project), "plan");
+	if (versions.length < 2 && !(versionA && versionB)) {
+		throw new Error(`Project "${project}" has ${versions.length} plan version(s) — need two to diff.`);
+	}
+
+	const pick = (arg: string | undefined, fallback: number) => {
+		if (!arg) return versions[fallback];
+		const num = parseInt(arg.replace(/^v/i, ""), 10);
+		const found = versions.find((v) => v.version === num);
+		if (!found) throw new Error(`No plan version "${arg}" in project "${project}" (have ${versions.map((v) => `v${v.version}`).join(", ")})`);
+		return found;
+	};
+	const a = pick(versionA, versions.length - 2);
+	const b = pick(versionB, versions.length - 1);
+
+	const before = loadPlanFile(a.path).plan;
+	const after = loadPlanFile(b.path).plan;
+	const diff = diffPlans(before, after);
+
+	const state = readProjectState(cwd, project);
+	const completed = state
+		? Object.entries(state.taskStates).filter(([, s]) => s === "done").map(([id]) => id)
+		: [];
+	const invalidated = invalidatedTasks(diff, after, completed);
+
+	return [`## Plan diff: ${path.basename(a.path)} → ${path.basename(b.path)}`, "", formatPlanDiff(diff, invalidated)].join("\n");
+}
+
+// ── Plan Graph ─────────────────────────────────────────────────────
+
+/**
+ * Build the `/waves-graph <project> [--dot]` report: renders the latest plan
+ * (colored by status if the project has a state.json) and writes it next to
+ * the plan as plan-vN.mmd or plan-vN.dot.
+ */
+export function planGraphReport(cwd: string, project: string, format: GraphFormat = "mermaid"): string {
+	const file = latestFile(projectDir(cwd, project), "plan");
+	if (!file) throw new Error(`Project "${project}" has no plan.`);
+
+	const { plan } = loadPlanFile(file);
+	const state = readProjectState(cwd, project);
+	const graph = renderPlanGraph(plan, format, state?.taskStates);
+	const out = file.replace(/\.[^.]+$/, format === "dot" ? ".dot" : ".mmd");
+	fs.writeFileSync(out, graph, "utf-8");
+
+	const lines = [`## Plan graph: ${path.basename(file)}`, "", `Written to \`${path.relative(cwd, out)}\``];
+	if (format === "dot") lines.push("", `Render with \`dot -Tsvg ${path.relative(cwd, out)} -o plan.svg\``);
+	else lines.push("", "```mermaid", graph.trimEnd(), "```");
+	if (state) lines.push("", "Borders: green done, red failed, grey skipped.");
+	return lines.join("\n");
+}
+
+// ── Invalidation ───────────────────────────────────────────────────
+
+/**
+ * Apply `/waves-invalidate <project> <task-id>... [--revert]`: reset the
+ * tasks and everything downstream in state.json, optionally reverting their
+ * `pi: <task-id>` commits first. Throws with a user-facing message if a task
+ * is unknown or the revert fails (state is then left untouched).
+ */
+export function invalidateReport(cwd: string, project: string, taskIds: string[], revert = false): string {
+	const file = latestFile(projectDir(cwd, project), "plan");
+	if (!file) throw new Error(`Project "${project}" has no plan.`);
+	if (taskIds.length === 0) throw new Error("Name at least one task to invalidate.");
+
+	const { plan } = loadPlanFile(file);
+	const affected = invalidationSet(plan, taskIds);
+	const ids = affected.map((t) => t.id);
+
+	const lines = [`## Invalidated ${taskIds.join(", ")}`, ""];
+	if (revert) {
+		const commits = taskCommits(cwd, ids);
+		revertTaskCommits(cwd, commits);
+		lines.push(commits.length > 0
+			? `Reverted ${commits.length} commit(s):\n${commits.map((c) => `- \`${c.sha.slice(0, 8)}\` ${c.subject}`).join("\n")}`
+			: "No task commits to revert.", "");
+	}
+
+	const state = readProjectState(cwd, project);
+	const reset = state ? resetTaskStates(state, plan, ids) : [];
+	if (state) writeState(file, state);
+
+	lines.push(`${affected.length} task(s) — ${reset.length} had a saved state and will run again on \`/waves-continue\`:`);
+	for (const t of affected) lines.push(`- **${t.id}** — ${t.reason}${reset.includes(t.id) ? "" : " (not run yet)"}`);
+	return lines.join("\n");
+}
+
 // ── File Access Enforcement ────────────────────────────────────────
 
 export function generateEnforcementExtension(rules: FileAccessRules, stallSignalPath?: string): string {
@@ -596,6 +775,9 @@ export {
 } from "../runner/pi-runner.js";
 export type { StallInfo, RunnerResult as SubagentResult } from "../runner/types.js";
 
+/** Per-task runner settings: plan metadata (`- **Model**:`, `- **Tools**:`) and what's left of the task's budget cap. */
+export type SubagentOverrides = Partial<Pick<import("../runner/types.js").RunnerConfig, "model" | "tools" | "limits">>;
+
 /**
  * Spawn an agent subprocess for the given task.
  *
@@ -611,6 +793,7 @@ export function runSubagent(
 	timeoutMs?: number,
 	logFile?: string,
 	logContext?: string[],
+	overrides?: SubagentOverrides,
 ): Promise<import("../runner/types.js").RunnerResult> {
 	// Write log header if logFile is specified
 	if (logFile) {
@@ -627,7 +810,7 @@ export function runSubagent(
 		} catch { /* best effort */ }
 	}
 
-	const runner = createRunner();
+	const runner = activeRunner();
 	const startTime = Date.now();
 	return runner.spawn({
 		agentName,
@@ -637,7 +820,12 @@ export function runSubagent(
 		signal,
 		fileRules,
 		timeoutMs,
+		model: overrides?.model,
+		tools: overrides?.tools,
+		limits: overrides?.limits,
 	}).then((result) => {
+		// Runners that don't price per message report usage without a cost
+		if (result.usage && result.usage.costUsd === undefined) result = { ...result, usage: priceUsage(result.usage) };
 		// Append result summary to log file
 		if (logFile) {
 			try {
@@ -649,6 +837,7 @@ export function runSubagent(
 					`Exit code: ${result.exitCode}`,
 					result.timedOut ? `TIMED OUT` : "",
 					result.stall ? `STALLED: ${result.stall.reason}` : "",
+					result.usage ? `Usage: ${formatUsage(result.usage)}${result.usage.model ? ` (${result.usage.model})` : ""}` : "",
 				].filter(Boolean).join("\n");
 				fs.appendFileSync(logFile, summary + "\n", "utf-8");
 				// Also write stdout for debugging
@@ -0,0 +1,111 @@
+/**
+ * Task invalidation — backs `/waves-invalidate <project> <task-id>... [--revert]`
+ * (see invalidateReport in helpers.ts).
+ *
+ * Invalidating a task resets it and everything downstream of it — declared
+ * `Depends:` across features and later waves, plus tasks without `Depends:`
+ * in later phases of its wave, which wait on earlier phases — so the next
+ * `/waves-continue` redoes that work. With `--revert`, the `pi: <task-id>`
+ * commits the orchestrator made for those tasks are reverted first, so the
+ * rerun starts from the code as it was before them.
+ */
+
+import { execFileSync } from "node:child_process";
+import { downstreamTaskIds } from "./dependencies.js";
+import type { InvalidatedTask } from "./plan-diff.js";
+import type { ExecutionState, Plan } from "./types.js";
+
+// ── Downstream ─────────────────────────────────────────────────────
+
+/**
+ * The tasks to invalidate for `taskIds`: the tasks themselves and everything
+ * that transitively builds on them, each with the reason, in plan order.
+ * Throws if an ID isn't in the plan.
+ */
+export function invalidationSet(plan: Plan, taskIds: string[]): InvalidatedTask[] {
+	const order = plan.waves.flatMap((w) => [...w.foundation, ...w.features.flatMap((f) => f.tasks), ...w.integration].map((t) => t.id));
+	const unknown = taskIds.filter((id) => !order.includes(id));
+	if (unknown.length > 0) throw new Error(`Unknown task ID(s): ${unknown.join(", ")}`);
+
+	const reasons = new Map<string, string>(taskIds.map((id) => [id, "invalidated"]));
+	for (const [id, via] of downstreamTaskIds(plan, taskIds)) reasons.set(id, `depends on ${via}`);
+	return order.filter((id) => reasons.has(id)).map((id) => ({ id, reason: reasons.get(id)! }));
+}
+
+/**
+ * Reset the saved states of `taskIds` and move the resume point back to the
+ * first wave containing one of them. Returns the IDs that had a state.
+ */
+export function resetTaskStates(state: ExecutionState, plan: Plan, taskIds: string[]): string[] {
+	const reset = taskIds.filter((id) => id in state.taskStates);
+	for (const id of reset) delete state.taskStates[id];
+	holdResumePoint(state, plan, taskIds);
+	return reset;
+}
+
+/**
+ * Move the resume point back to the first wave containing one of `taskIds`
+ * if it is past it, so `/waves-continue` starts there. With `--keep-going`
+ * the run moves on past waves that left tasks failed or skipped.
+ */
+export function holdResumePoint(state: ExecutionState, plan: Plan, taskIds: string[]): void {
+	const ids = new Set(taskIds);
+	const first = plan.waves.findIndex((w) =>
+		[...w.foundation, ...w.features.flatMap((f) => f.tasks), ...w.integration].some((t) => ids.has(t.id)));
+	if (first !== -1) state.currentWave = Math.min(state.currentWave, first);
+}
+
+// ── Git ────────────────────────────────────────────────────────────
+
+export interface TaskCommit {
+	sha: string;
+	taskId: string;
+	subject: string;
+}
+
+function git(cwd: string, args: string[]): string {
+	return execFileSync("git", args, { cwd, encoding: "utf-8", timeout: 60_000, stdio: ["ignore", "pipe", "pipe"] });
+}
+
+/**
+ * Commits of the current branch made by commitTaskOutput for `taskIds`
+ * (subject `pi: <task-id> [<agent>] — <title>`), newest first. Commits that
+ * were already reverted are left out.
+ */
+export function taskCommits(repoRoot: string, taskIds: string[]): TaskCommit[] {
+	const ids = new Set(taskIds);
+	const log = git(repoRoot, ["log", "--no-merges", "--format=%H%x00%s%x00%b%x1e"]);
+	const entries = log.split("\x1e").map((e) => e.trim()).filter(Boolean).map((e) => {
+		const [sha, subject, body = ""] = e.split("\0");
+		return { sha, subject, body };
+	});
+
+	const reverted = new Set(entries.flatMap((e) => [...e.body.matchAll(/This reverts commit ([0-9a-f]{40})/g)].map((m) => m[1])));
+	return entries.flatMap(({ sha, subject }) => {
+		const m = subject.match(/^pi: (\S+) \[/);
+		return m && ids.has(m[1]) && !reverted.has(sha) ? [{ sha, taskId: m[1], subject }] : [];
+	});
+}
+
+/**
+ * Revert `commits` (newest first) in one `git revert` sequence. The working
+ * tree must be clean; on a conflict the whole sequence is aborted and an
+ * error is thrown, leaving the branch as it was.
+ */
+export function revertTaskCommits(repoRoot: string, commits: TaskCommit[]): void {
+	if (commits.length === 0) return;
+	if (git(repoRoot, ["status", "--porcelain", "--untracked-files=no"]).trim()) {
+		throw new Error("The working tree has uncommitted changes — commit or stash them before reverting.");
+	}
+	try {
+		git(repoRoot, ["revert", "--no-edit", ...commits.map((c) => c.sha)]);
+	} catch (e: any) {
+		try {
+			git(repoRoot, ["revert", "--abort"]);
+		} catch {
+			// nothing in progress
+		}
+		const detail = String(e.stderr ?? e.message).trim().split("\n")[0];
+		throw new Error(`git revert failed, nothing was reverted: ${detail}`);
+	}
+}
@@ -0,0 +1,189 @@
+/**
+ * Merge conflict resolution — the optional step after a feature merge
+ * conflicts (`--resolve-conflicts`).
+ *
+ * The conflicting merge is redone in a temporary worktree of the base
+ * branch. A wave-merge-resolver agent gets the conflicting hunks, the task
+ * descriptions of the feature being merged and of the features it collides
+ * with, and the Data Schemas, and may edit only the conflicted files. The
+ * orchestrator then checks that no conflict markers are left, runs the
+ * install and test gates, and only if they pass commits the merge and
+ * fast-forwards the base branch. Without a `Test` gate nothing is tried and
+ * the conflict stands. The outcome is recorded as MergeResult.resolution.
+ */
+
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { acceptanceGates, failedChecks, formatCheckFailures, runGates } from "./checks.js";
+import { runSubagent } from "./helpers.js";
+import { fileOverlap } from "./plan-conflicts.js";
+import type { EnvironmentGates, Feature, FeatureWorktree, MergeResolution, MergeResult, TokenUsage, Wave } from "./types.js";
+
+/** Conflict hunks per file are cut off after this many lines. */
+const MAX_HUNK_LINES = 200;
+
+const RESOLVER_TIMEOUT_MS = 10 * 60_000;
+
+export interface ConflictedFile {
+	file: string;
+	/** `git diff` of the file in conflict: both sides with markers */
+	diff: string;
+}
+
+// ── Prompt ─────────────────────────────────────────────────────────
+
+/**
+ * Features of the wave the merged feature collides with: those whose tasks
+ * write a conflicted file, or, if none declares one, every other feature.
+ */
+export function collidingFeatures(wave: Wave, merged: Feature, files: string[]): Feature[] {
+	const others = wave.features.filter((f) => f.name !== merged.name);
+	const writers = others.filter((f) =>
+		f.tasks.some((t) => t.files.some((a) => files.some((b) => fileOverlap(a, b) === "definite"))));
+	return writers.length > 0 ? writers : others;
+}
+
+function describeFeature(feature: Feature): string {
+	return [
+		`### Feature: ${feature.name}`,
+		...feature.tasks.map((t) => `- **${t.id}**: ${t.title}\n  Files: ${t.files.join(", ") || "(none)"}\n  ${t.description.replace(/\n/g, "\n  ")}`),
+	].join("\n");
+}
+
+export function buildResolverPrompt(
+	conflicts: ConflictedFile[],
+	merged: Feature,
+	colliding: Feature[],
+	dataSchemas: string,
+): string {
+	const hunks = conflicts.map(({ file, diff }) => {
+		const lines = diff.split("\n");
+		const shown = lines.length > MAX_HUNK_LINES
+			? [...lines.slice(0, MAX_HUNK_LINES), `... (${lines.length - MAX_HUNK_LINES} more lines — read the file)`]
+			: lines;
+		return `### ${file}\n\`\`\`diff\n${shown.join("\n")}\n\`\`\``;
+	});
+	return [
+		`Resolve the merge conflicts of feature "${merged.name}" with the base branch.`,
+		"",
+		"Both sides were written for the same plan and must both keep working: combine them, don't pick one.",
+		"Edit only the conflicted files, remove every conflict marker, and do not commit — the orchestrator runs the tests and commits.",
+		"",
+		`## Conflicted Files (${conflicts.length})`,
+		...hunks,
+		"",
+		"## Feature Being Merged",
+		describeFeature(merged),
+		"",
+		"## Already on the Base Branch",
+		...(colliding.length > 0 ? colliding.map(describeFeature) : ["(foundation and earlier work only)"]),
+		...(dataSchemas ? ["", "## Data Schemas (authoritative — use these exact names)", dataSchemas] : []),
+	].join("\n");
+}
+
+// ── Resolve ────────────────────────────────────────────────────────
+
+function git(cwd: string, args: string[]): string {
+	return execFileSync("git", args, { cwd, encoding: "utf-8", timeout: 120_000, stdio: ["ignore", "pipe", "pipe"] });
+}
+
+function conflictedFiles(cwd: string): string[] {
+	return git(cwd, ["diff", "--name-only", "--diff-filter=U"]).split("\n").filter(Boolean);
+}
+
+const MARKER = /^(<{7}|>{7})( |$)|^={7}$/m;
+
+export interface ResolveOptions {
+	repoRoot: string;
+	merge: MergeResult;
+	/** The conflicting feature's worktree — removed once its merge is resolved */
+	worktree: FeatureWorktree;
+	wave: Wave;
+	dataSchemas: string;
+	gates?: EnvironmentGates;
+	protectedPaths: string[];
+	signal?: AbortSignal;
+	logFile?: string;
+}
+
+/**
+ * Redo the conflicting merge of `merge.source` into the checked-out base
+ * branch with a resolver agent. Never throws: failures come back as a
+ * "failed" resolution and leave the base branch and feature branch as they were.
+ */
+export async function resolveMergeConflict(opts: ResolveOptions): Promise<MergeResolution> {
+	const { repoRoot, merge, worktree, wave, dataSchemas, gates, protectedPaths, signal, logFile } = opts;
+	const start = Date.now();
+	const feature = wave.features.find((f) => f.name === worktree.featureName);
+	let files: string[] = [];
+	let usage: TokenUsage | undefined;
+	const failed = (reason: string, extra: Partial<MergeResolution> = {}): MergeResolution =>
+		({ status: "failed", files, reason, durationMs: Date.now() - start, ...(usage ? { usage } : {}), ...extra });
+
+	// Without tests a resolution can't be checked — the conflict stands
+	const verify = acceptanceGates(gates);
+	if (!verify) return failed("no Environment Test command to check a resolution with");
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-merge-resolve-"));
+	try {
+		git(repoRoot, ["worktree", "add", "--detach", dir, "HEAD"]);
+		try {
+			git(dir, ["merge", "--no-ff", "--no-edit", merge.source]);
+		} catch {
+			// Expected: the conflicts to resolve
+		}
+		files = conflictedFiles(dir);
+		if (files.length === 0) return failed("the merge did not reproduce a content conflict");
+		if (!feature) return failed(`no feature in the wave for branch ${merge.source}`);
+
+		const conflicts = files.map((file) => ({ file, diff: git(dir, ["diff", "--", file]) }));
+		const prompt = buildResolverPrompt(conflicts, feature, collidingFeatures(wave, feature, files), dataSchemas);
+		const result = await runSubagent(
+			"wave-merge-resolver", prompt, dir, signal,
+			{ allowWrite: files, protectedPaths },
+			RESOLVER_TIMEOUT_MS, logFile, [`Merge: ${merge.source} → ${merge.target}`, `Files: ${files.join(", ")}`],
+		);
+		usage = result.usage;
+		if (result.exitCode !== 0) return failed(result.timedOut ? "the resolver timed out" : `the resolver exited with code ${result.exitCode}`);
+
+		const marked = files.filter((f) => MARKER.test(fs.readFileSync(path.join(dir, f), "utf-8")));
+		if (marked.length > 0) return failed(`conflict markers left in ${marked.join(", ")}`);
+		git(dir, ["add", "--", ...files]);
+		if (conflictedFiles(dir).length > 0) return failed("files are still unmerged");
+
+		// Tests must pass before anything lands on the base branch
+		const gateResults = await runGates(verify, dir, signal);
+		if (failedChecks(gateResults).length > 0) {
+			return failed(`tests failed after resolving:\n${formatCheckFailures(gateResults)}`, { gateResults });
+		}
+		if (signal?.aborted) return failed("execution aborted");
+
+		git(dir, ["commit", "-m", `Merge ${merge.source} (conflicts resolved by wave-merge-resolver)`]);
+		git(repoRoot, ["merge", "--ff-only", git(dir, ["rev-parse", "HEAD"]).trim()]);
+
+		// The feature is merged now — drop its worktree and branch like a clean merge
+		try {
+			git(repoRoot, ["worktree", "remove", "--force", worktree.dir]);
+			git(repoRoot, ["branch", "-D", worktree.branch]);
+		} catch {
+			// Leftovers are removed by the next cleanup
+		}
+		return {
+			status: "resolved",
+			files,
+			durationMs: Date.now() - start,
+			gateResults,
+			...(usage ? { usage } : {}),
+		};
+	} catch (e: any) {
+		return failed(String(e.stderr || e.message).trim().split("\n")[0]);
+	} finally {
+		try {
+			git(repoRoot, ["worktree", "remove", "--force", dir]);
+		} catch {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	}
+}
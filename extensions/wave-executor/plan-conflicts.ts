@@ -0,0 +1,204 @@
+/**
+ * File-ownership conflict checker — static analysis over a parsed Plan.
+ *
+ * Parallel work is isolated in worktrees and merged afterwards, so two
+ * parallel writers of the same file end in a merge conflict (or, without git,
+ * in agents overwriting each other). This finds overlapping `files` between:
+ *   - features of the same wave (they run in parallel)
+ *   - tasks of a section with no dependency path between them (they run in parallel)
+ * and feature tasks writing outside their feature's declared `Files:` list.
+ *
+ * File entries may be globs (`*`, `**`, `?`). A literal path matched by a glob
+ * is a definite overlap (error); two globs that could match the same path are
+ * reported as a warning. Tasks of read-only roles (wave-verifier) never conflict.
+ */
+
+import { agentRole } from "./roles.js";
+import { concurrentTasks } from "./scheduler.js";
+import type { Feature, Plan, PlanDiagnostic, Task } from "./types.js";
+
+// ── Globs ──────────────────────────────────────────────────────────
+
+function normalize(file: string): string {
+	return file.trim().replace(/`/g, "").replace(/^\.\//, "");
+}
+
+function isGlob(file: string): boolean {
+	return /[*?]/.test(file);
+}
+
+function globToRegExp(glob: string): RegExp {
+	let re = "";
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === "*" && glob[i + 1] === "*") {
+			// `**/` matches zero or more directories
+			re += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+			i += glob[i + 2] === "/" ? 2 : 1;
+		} else if (c === "*") {
+			re += "[^/]*";
+		} else if (c === "?") {
+			re += "[^/]";
+		} else {
+			re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${re}$`);
+}
+
+/**
+ * How two file entries overlap: "definite" (same path, or a path the glob
+ * matches), "possible" (two globs whose fixed prefix and suffix are
+ * compatible) or null.
+ */
+export function fileOverlap(a: string, b: string): "definite" | "possible" | null {
+	const x = normalize(a);
+	const y = normalize(b);
+	if (x === y) return "definite";
+	if (!isGlob(x) && !isGlob(y)) return null;
+	if (!isGlob(x)) return globToRegExp(y).test(x) ? "definite" : null;
+	if (!isGlob(y)) return globToRegExp(x).test(y) ? "definite" : null;
+
+	const prefix = (g: string) => g.slice(0, g.search(/[*?]/));
+	const suffix = (g: string) => g.slice(Math.max(g.lastIndexOf("*"), g.lastIndexOf("?")) + 1);
+	const [px, py, sx, sy] = [prefix(x), prefix(y), suffix(x), suffix(y)];
+	const prefixesMeet = px.startsWith(py) || py.startsWith(px);
+	const suffixesMeet = sx.endsWith(sy) || sy.endsWith(sx);
+	return prefixesMeet && suffixesMeet ? "possible" : null;
+}
+
+// ── Analysis ───────────────────────────────────────────────────────
+
+/** Files a task may write. Read-only roles (verifiers) write none. */
+function writeSet(task: Task): string[] {
+	return agentRole(task.agent).readOnly ? [] : task.files;
+}
+
+/**
+ * DAG levels of a section, computed like buildDAG: level 0 has no
+ * dependencies inside the section, level N depends on something at N-1.
+ */
+export function sectionLevels(tasks: Task[]): Task[][] {
+	const byId = new Map(tasks.map((t) => [t.id, t]));
+	const depth = new Map<string, number>();
+	const visit = (task: Task, stack: Set<string>): number => {
+		const known = depth.get(task.id);
+		if (known !== undefined) return known;
+		if (stack.has(task.id)) return 0; // cycle — reported elsewhere
+		stack.add(task.id);
+		const local = task.depends.map((d) => byId.get(d)).filter((t): t is Task => t !== undefined);
+		const d = local.length === 0 ? 0 : 1 + Math.max(...local.map((t) => visit(t, stack)));
+		stack.delete(task.id);
+		depth.set(task.id, d);
+		return d;
+	};
+
+	const levels: Task[][] = [];
+	for (const task of tasks) {
+		const d = visit(task, new Set());
+		(levels[d] ??= []).push(task);
+	}
+	return levels.filter(Boolean);
+}
+
+interface Owner {
+	label: string;
+	files: string[];
+	source?: Task["source"];
+}
+
+/** Report overlapping files between every pair of parallel owners. */
+function checkParallel(owners: Owner[], context: string, diagnostics: PlanDiagnostic[]): void {
+	for (let i = 0; i < owners.length; i++) {
+		for (let j = i + 1; j < owners.length; j++) {
+			const a = owners[i];
+			const b = owners[j];
+			for (const fa of a.files) {
+				for (const fb of b.files) {
+					const overlap = fileOverlap(fa, fb);
+					if (!overlap) continue;
+					const what = fa === fb ? `\`${fa}\`` : `\`${fa}\` and \`${fb}\``;
+					diagnostics.push({
+						severity: overlap === "definite" ? "error" : "warning",
+						...(b.source?.file ? { file: b.source.file } : {}),
+						line: b.source?.line ?? 1,
+						column: b.source?.column ?? 1,
+						message: overlap === "definite"
+							? `${a.label} and ${b.label} both write ${what} but run in parallel (${context})`
+							: `${a.label} and ${b.label} may write the same files (${what}) and run in parallel (${context})`,
+					});
+				}
+			}
+		}
+	}
+}
+
+function featureWriteSet(feature: Feature): string[] {
+	return [...new Set([...feature.files, ...feature.tasks.flatMap(writeSet)])];
+}
+
+/**
+ * Find file-ownership conflicts in a plan. Errors mean parallel work would
+ * write the same file; warnings are possible glob overlaps and feature tasks
+ * writing files missing from the feature's `Files:` list.
+ */
+export function checkFileConflicts(plan: Plan): PlanDiagnostic[] {
+	const diagnostics: PlanDiagnostic[] = [];
+
+	plan.waves.forEach((wave, wi) => {
+		const waveLabel = `Wave ${wi + 1}`;
+
+		// Features of a wave run in parallel (only isolated if there is more than one)
+		if (wave.features.length > 1) {
+			checkParallel(
+				wave.features.map((f) => ({ label: `feature "${f.name}"`, files: featureWriteSet(f), source: f.source })),
+				`${waveLabel} features`,
+				diagnostics,
+			);
+		}
+
+		// Tasks of a section that no dependency path orders run in parallel —
+		// at the same DAG level, or at different levels of independent chains
+		const sections: [string, Task[]][] = [
+			[`${waveLabel} foundation`, wave.foundation],
+			...wave.features.map((f): [string, Task[]] => [`${waveLabel} feature "${f.name}"`, f.tasks]),
+			[`${waveLabel} integration`, wave.integration],
+		];
+		for (const [context, tasks] of sections) {
+			const levels = sectionLevels(tasks);
+			const levelOf = new Map(levels.flatMap((level, li) => level.map((t): [string, number] => [t.id, li])));
+			const overlapping = concurrentTasks(tasks);
+			const ordered = levels.flat();
+			ordered.forEach((a, i) => {
+				for (const b of ordered.slice(i + 1)) {
+					if (!overlapping.get(a.id)!.has(b.id)) continue;
+					const [la, lb] = [levelOf.get(a.id)!, levelOf.get(b.id)!];
+					checkParallel(
+						[a, b].map((t) => ({ label: t.id, files: writeSet(t), source: t.source })),
+						la === lb ? `${context}, level ${la}` : `${context}, levels ${la} and ${lb}`,
+						diagnostics,
+					);
+				}
+			});
+		}
+
+		// Feature tasks must stay inside the feature's declared files
+		for (const feature of wave.features) {
+			if (feature.files.length === 0) continue;
+			for (const task of feature.tasks) {
+				for (const file of writeSet(task)) {
+					if (feature.files.some((owned) => fileOverlap(owned, file) === "definite")) continue;
+					diagnostics.push({
+						severity: "warning",
+						...(task.source?.file ? { file: task.source.file } : {}),
+						line: task.source?.line ?? 1,
+						column: task.source?.column ?? 1,
+						message: `${task.id} writes \`${file}\`, which is not in feature "${feature.name}" Files:`,
+					});
+				}
+			}
+		}
+	});
+
+	return diagnostics;
+}
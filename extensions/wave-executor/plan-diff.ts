@@ -0,0 +1,236 @@
+/**
+ * Semantic diff between two plan versions — backs `/waves-plan-diff`
+ * (see planDiffReport in helpers.ts).
+ *
+ * Compares parsed plans instead of Markdown lines: waves are matched by name
+ * (falling back to position), features by name within their wave and tasks by
+ * ID anywhere in the plan, so a task moved to another feature shows up as one
+ * modified task with a changed location rather than a removal plus an addition.
+ */
+
+import { downstreamTaskIds } from "./dependencies.js";
+import { formatDuration } from "./plan-parser.js";
+import { formatRetryPolicy } from "./retry-policy.js";
+import type { Plan, Task, Wave } from "./types.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type ChangeKind = "added" | "removed" | "modified";
+
+export interface FieldChange {
+	field: string;
+	before: string;
+	after: string;
+}
+
+export interface PlanChange {
+	kind: ChangeKind;
+	/** Wave name, `Wave / feature` or task ID. */
+	label: string;
+	/** Field-by-field changes (modified only). */
+	fields: FieldChange[];
+}
+
+export interface InvalidatedTask {
+	id: string;
+	reason: string;
+}
+
+export interface PlanDiff {
+	waves: PlanChange[];
+	features: PlanChange[];
+	tasks: PlanChange[];
+}
+
+// ── Diff ───────────────────────────────────────────────────────────
+
+export function diffPlans(before: Plan, after: Plan): PlanDiff {
+	const diff: PlanDiff = { waves: [], features: [], tasks: [] };
+
+	// Waves: by name, then unmatched ones pairwise by position
+	const wavePairs: [Wave | undefined, Wave | undefined][] = [];
+	const unmatchedAfter = new Set(after.waves);
+	const unmatchedBefore: Wave[] = [];
+	for (const w of before.waves) {
+		const match = after.waves.find((a) => a.name === w.name && unmatchedAfter.has(a));
+		if (match) {
+			unmatchedAfter.delete(match);
+			wavePairs.push([w, match]);
+		} else {
+			unmatchedBefore.push(w);
+		}
+	}
+	for (const w of unmatchedBefore) {
+		const sameIndex = after.waves[before.waves.indexOf(w)];
+		if (sameIndex && unmatchedAfter.has(sameIndex)) {
+			unmatchedAfter.delete(sameIndex);
+			wavePairs.push([w, sameIndex]);
+		} else {
+			wavePairs.push([w, undefined]);
+		}
+	}
+	for (const w of unmatchedAfter) wavePairs.push([undefined, w]);
+
+	for (const [a, b] of wavePairs) {
+		if (!a) diff.waves.push({ kind: "added", label: b!.name, fields: [] });
+		else if (!b) diff.waves.push({ kind: "removed", label: a.name, fields: [] });
+		else {
+			const fields = compareFields([["name", a.name, b.name], ["description", a.description, b.description]]);
+			if (fields.length > 0) diff.waves.push({ kind: "modified", label: b.name, fields });
+		}
+
+		const featuresA = a?.features ?? [];
+		const featuresB = b?.features ?? [];
+		const waveLabel = (b ?? a)!.name;
+		for (const f of featuresB) {
+			const old = featuresA.find((x) => x.name === f.name);
+			if (!old) {
+				if (a) diff.features.push({ kind: "added", label: `${waveLabel} / ${f.name}`, fields: [] });
+				continue;
+			}
+			const fields = compareFields([
+				["files", list(old.files), list(f.files)],
+				["review", reviewers(old.review), reviewers(f.review)],
+			]);
+			if (fields.length > 0) diff.features.push({ kind: "modified", label: `${waveLabel} / ${f.name}`, fields });
+		}
+		for (const f of featuresA) {
+			if (b && !featuresB.some((x) => x.name === f.name)) {
+				diff.features.push({ kind: "removed", label: `${waveLabel} / ${f.name}`, fields: [] });
+			}
+		}
+	}
+
+	// Tasks: by ID across the whole plan
+	const tasksA = indexTasks(before);
+	const tasksB = indexTasks(after);
+	for (const [id, { task, location }] of tasksB) {
+		const old = tasksA.get(id);
+		if (!old) {
+			diff.tasks.push({ kind: "added", label: id, fields: [] });
+			continue;
+		}
+		const fields = compareFields([
+			["location", old.location, location],
+			...taskFields(old.task, task),
+		]);
+		if (fields.length > 0) diff.tasks.push({ kind: "modified", label: id, fields });
+	}
+	for (const id of tasksA.keys()) {
+		if (!tasksB.has(id)) diff.tasks.push({ kind: "removed", label: id, fields: [] });
+	}
+
+	return diff;
+}
+
+/** Changes that don't affect what a task produces. */
+const COSMETIC_FIELDS = new Set(["title", "location"]);
+
+/**
+ * Completed task IDs whose work no longer matches the plan: removed or
+ * modified tasks (title or location changes alone don't count), and
+ * everything that transitively names one of them in `Depends:` in the new plan.
+ */
+export function invalidatedTasks(diff: PlanDiff, after: Plan, completedIds: Iterable<string>): InvalidatedTask[] {
+	const changed = new Map<string, string>();
+	for (const c of diff.tasks) {
+		if (c.kind === "removed") changed.set(c.label, "removed from the plan");
+		if (c.kind === "modified") {
+			const fields = c.fields.map((f) => f.field).filter((f) => !COSMETIC_FIELDS.has(f));
+			if (fields.length > 0) changed.set(c.label, `modified (${fields.join(", ")})`);
+		}
+	}
+
+	const downstream = downstreamTaskIds(after, changed.keys(), true);
+	const result: InvalidatedTask[] = [];
+	for (const id of completedIds) {
+		const reason = changed.get(id) ?? (downstream.has(id) ? `depends on ${downstream.get(id)}` : null);
+		if (reason) result.push({ id, reason });
+	}
+	return result;
+}
+
+function indexTasks(plan: Plan): Map<string, { task: Task; location: string }> {
+	const index = new Map<string, { task: Task; location: string }>();
+	for (const wave of plan.waves) {
+		const at = (section: string) => `${wave.name} / ${section}`;
+		for (const t of wave.foundation) index.set(t.id, { task: t, location: at("foundation") });
+		for (const f of wave.features) {
+			for (const t of f.tasks) index.set(t.id, { task: t, location: at(`feature ${f.name}`) });
+		}
+		for (const t of wave.integration) index.set(t.id, { task: t, location: at("integration") });
+	}
+	return index;
+}
+
+function taskFields(a: Task, b: Task): [string, string, string][] {
+	const duration = (ms?: number) => (ms === undefined ? "" : formatDuration(ms));
+	return [
+		["title", a.title, b.title],
+		["agent", a.agent, b.agent],
+		["files", list(a.files), list(b.files)],
+		["depends", list(a.depends), list(b.depends)],
+		["tests", list(a.testFiles), list(b.testFiles)],
+		["spec refs", list(a.specRefs), list(b.specRefs)],
+		["timeout", duration(a.timeoutMs), duration(b.timeoutMs)],
+		["model", a.model ?? "", b.model ?? ""],
+		["retries", String(a.retries ?? ""), String(b.retries ?? "")],
+		["retry policy", a.retryPolicy ? formatRetryPolicy(a.retryPolicy) : "", b.retryPolicy ? formatRetryPolicy(b.retryPolicy) : ""],
+		["tools", list(a.tools ?? []), list(b.tools ?? [])],
+		["checks", (a.checks ?? []).join(" ; "), (b.checks ?? []).join(" ; ")],
+		["review", reviewers(a.review), reviewers(b.review)],
+		["description", a.description, b.description],
+	];
+}
+
+function list(items: string[]): string {
+	return items.join(", ");
+}
+
+/** A `Review:` list as written: unset, `none`, or the reviewers. */
+function reviewers(review: string[] | undefined): string {
+	return review === undefined ? "" : list(review) || "none";
+}
+
+function compareFields(fields: [string, string, string][]): FieldChange[] {
+	return fields
+		.filter(([, before, after]) => before !== after)
+		.map(([field, before, after]) => ({ field, before, after }));
+}
+
+// ── Format ─────────────────────────────────────────────────────────
+
+const KIND_MARK: Record<ChangeKind, string> = { added: "+", removed: "-", modified: "~" };
+
+function preview(value: string): string {
+	if (!value) return "(none)";
+	const oneLine = value.replace(/\s*\n\s*/g, " ⏎ ");
+	return oneLine.length > 80 ? `${oneLine.slice(0, 77)}...` : oneLine;
+}
+
+export function formatPlanDiff(diff: PlanDiff, invalidated: InvalidatedTask[] = []): string {
+	const out: string[] = [];
+	const section = (title: string, changes: PlanChange[]) => {
+		if (changes.length === 0) return;
+		out.push(`### ${title}`, "```diff");
+		for (const c of changes) {
+			out.push(`${KIND_MARK[c.kind]} ${c.label}`);
+			for (const f of c.fields) out.push(`    ${f.field}: ${preview(f.before)} → ${preview(f.after)}`);
+		}
+		out.push("```", "");
+	};
+
+	section("Waves", diff.waves);
+	section("Features", diff.features);
+	section("Tasks", diff.tasks);
+
+	if (out.length === 0) out.push("No structural changes.", "");
+
+	if (invalidated.length > 0) {
+		out.push(`### ⚠️ Invalidated completed tasks (${invalidated.length})`);
+		for (const t of invalidated) out.push(`- **${t.id}** — ${t.reason}`);
+		out.push("", "These tasks are marked done in `state.json` but no longer match the plan.");
+	}
+
+	return out.join("\n").trimEnd();
+}
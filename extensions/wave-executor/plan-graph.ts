@@ -0,0 +1,174 @@
+/**
+ * Plan graph export — backs `/waves-graph` (see planGraphReport in helpers.ts).
+ *
+ * Renders a parsed plan as a Mermaid flowchart or a Graphviz DOT digraph:
+ * waves are clusters, foundation/features/integration are subgraphs inside
+ * them, tasks are nodes filled by agent and edges come from `Depends:`. Each
+ * node is labelled with its DAG level (dependency depth in its section), and in
+ * DOT the tasks of a level share a rank. With a `state.json`, the node border
+ * shows the task's status.
+ */
+
+import { sectionLevels } from "./plan-conflicts.js";
+import type { ExecutionState, Plan, Task } from "./types.js";
+
+export type GraphFormat = "mermaid" | "dot";
+
+type TaskStatus = ExecutionState["taskStates"][string];
+
+const AGENT_FILL: Record<string, string> = {
+	"test-writer": "#fef3c7",
+	worker: "#dbeafe",
+	"wave-verifier": "#ede9fe",
+};
+const OTHER_AGENT_FILL = "#f3f4f6";
+
+const STATUS_STROKE: Record<TaskStatus, string> = {
+	done: "#16a34a",
+	failed: "#dc2626",
+	skipped: "#9ca3af",
+};
+
+// ── Layout ─────────────────────────────────────────────────────────
+
+interface GraphSection {
+	id: string;
+	label: string;
+	/** Tasks grouped by DAG level within the section. */
+	levels: Task[][];
+}
+
+interface GraphWave {
+	id: string;
+	label: string;
+	sections: GraphSection[];
+}
+
+function layout(plan: Plan): GraphWave[] {
+	return plan.waves.map((wave, wi) => {
+		const id = `wave${wi + 1}`;
+		const sections: GraphSection[] = [];
+		const add = (key: string, label: string, tasks: Task[]) => {
+			if (tasks.length > 0) sections.push({ id: `${id}_${safeId(key)}`, label, levels: sectionLevels(tasks) });
+		};
+		add("foundation", "Foundation", wave.foundation);
+		for (const f of wave.features) add(`feature_${f.name}`, f.name === "default" ? "Tasks" : `Feature: ${f.name}`, f.tasks);
+		add("integration", "Integration", wave.integration);
+		return { id, label: `Wave ${wi + 1}: ${wave.name}`, sections };
+	});
+}
+
+function safeId(value: string): string {
+	return value.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function allTasks(plan: Plan): Task[] {
+	return plan.waves.flatMap((w) => [...w.foundation, ...w.features.flatMap((f) => f.tasks), ...w.integration]);
+}
+
+/** `Depends:` edges whose upstream task exists in the plan, as [from, to]. */
+function edges(plan: Plan): [string, string][] {
+	const ids = new Set(allTasks(plan).map((t) => t.id));
+	return allTasks(plan).flatMap((t) => t.depends.filter((d) => ids.has(d)).map((d): [string, string] => [d, t.id]));
+}
+
+// ── Mermaid ────────────────────────────────────────────────────────
+
+function mermaidText(value: string): string {
+	return value.replace(/"/g, "#quot;");
+}
+
+function renderMermaid(plan: Plan, taskStates?: Record<string, TaskStatus>): string {
+	const out: string[] = ["flowchart TB"];
+	const byAgent = new Map<string, string[]>();
+	const byStatus = new Map<TaskStatus, string[]>();
+
+	for (const wave of layout(plan)) {
+		out.push(`\tsubgraph ${wave.id}["${mermaidText(wave.label)}"]`, "\t\tdirection TB");
+		for (const section of wave.sections) {
+			out.push(`\t\tsubgraph ${section.id}["${mermaidText(section.label)}"]`);
+			section.levels.forEach((level, li) => {
+				for (const t of level) {
+					const node = safeId(t.id);
+					out.push(`\t\t\t${node}["${mermaidText(`${t.id} · L${li}`)}<br/>${mermaidText(t.title)}"]`);
+					const agent = AGENT_FILL[t.agent] ? t.agent : "other";
+					byAgent.set(agent, [...(byAgent.get(agent) ?? []), node]);
+					const status = taskStates?.[t.id];
+					if (status) byStatus.set(status, [...(byStatus.get(status) ?? []), node]);
+				}
+			});
+			out.push("\t\tend");
+		}
+		out.push("\tend");
+	}
+
+	for (const [from, to] of edges(plan)) out.push(`\t${safeId(from)} --> ${safeId(to)}`);
+
+	for (const [agent, nodes] of byAgent) {
+		const cls = `agent_${safeId(agent)}`;
+		out.push(`\tclassDef ${cls} fill:${AGENT_FILL[agent] ?? OTHER_AGENT_FILL},stroke:#6b7280`);
+		out.push(`\tclass ${nodes.join(",")} ${cls}`);
+	}
+	// After the agent classes, so the status border wins
+	for (const [status, nodes] of byStatus) {
+		out.push(`\tclassDef status_${status} stroke:${STATUS_STROKE[status]},stroke-width:3px`);
+		out.push(`\tclass ${nodes.join(",")} status_${status}`);
+	}
+
+	return out.join("\n") + "\n";
+}
+
+// ── DOT ────────────────────────────────────────────────────────────
+
+function dotString(value: string): string {
+	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function renderDot(plan: Plan, taskStates?: Record<string, TaskStatus>): string {
+	const out: string[] = [
+		"digraph plan {",
+		"\trankdir=TB;",
+		"\tcompound=true;",
+		`\tlabel=${dotString(plan.goal)};`,
+		"\tlabelloc=t;",
+		'\tnode [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10];',
+		"",
+	];
+
+	for (const wave of layout(plan)) {
+		out.push(`\tsubgraph cluster_${wave.id} {`, `\t\tlabel=${dotString(wave.label)};`, "\t\tstyle=rounded;");
+		for (const section of wave.sections) {
+			out.push(`\t\tsubgraph cluster_${section.id} {`, `\t\t\tlabel=${dotString(section.label)};`, "\t\t\tstyle=dashed;");
+			section.levels.forEach((level, li) => {
+				out.push("\t\t\t{ rank=same;");
+				for (const t of level) {
+					const status = taskStates?.[t.id];
+					const attrs = [
+						`label=${dotString(`${t.id} · L${li}\n${t.title}`)}`,
+						`fillcolor=${dotString(AGENT_FILL[t.agent] ?? OTHER_AGENT_FILL)}`,
+						...(status ? [`color=${dotString(STATUS_STROKE[status])}`, "penwidth=3"] : []),
+					];
+					out.push(`\t\t\t\t${dotString(t.id)} [${attrs.join(", ")}];`);
+				}
+				out.push("\t\t\t}");
+			});
+			out.push("\t\t}");
+		}
+		out.push("\t}", "");
+	}
+
+	for (const [from, to] of edges(plan)) out.push(`\t${dotString(from)} -> ${dotString(to)};`);
+	out.push("}");
+
+	return out.join("\n") + "\n";
+}
+
+// ── Render ─────────────────────────────────────────────────────────
+
+/**
+ * Render a plan graph. `taskStates` (from state.json) adds status borders:
+ * green done, red failed, grey skipped.
+ */
+export function renderPlanGraph(plan: Plan, format: GraphFormat, taskStates?: Record<string, TaskStatus>): string {
+	return format === "dot" ? renderDot(plan, taskStates) : renderMermaid(plan, taskStates);
+}
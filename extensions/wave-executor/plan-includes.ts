@@ -0,0 +1,151 @@
+/**
+ * Plan includes — split a Markdown plan across several files.
+ *
+ * A line consisting of `<!-- include: waves/wave-2.md -->` is replaced by the
+ * contents of that file before parsing. Paths are relative to the project dir
+ * (.pi/waves/<project>/, where plan-vN.md lives), also inside included files,
+ * and may not leave it. Includes can nest; cycles and missing files are errors.
+ *
+ * Diagnostics and source positions point at the file and line the text came
+ * from. Because included files are shared by every plan version, the current
+ * plan's include set is snapshotted into `plan-vN.includes/` when the next
+ * version is started (planPath in helpers.ts), and includes resolve
+ * against a plan's snapshot first — so an older plan-vN.md keeps reading what
+ * it was written with.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parsePlanWithDiagnostics } from "./plan-parser.js";
+import type { Plan, PlanDiagnostic, PlanParseResult, SourceLocation } from "./types.js";
+
+const INCLUDE_DIRECTIVE = /^\s*<!--\s*include:\s*(.+?)\s*-->\s*$/i;
+
+/** Origin of one line of the expanded plan. `file` is unset for the plan file itself. */
+interface LineOrigin {
+	file?: string;
+	line: number;
+}
+
+export interface ExpandedPlan {
+	/** The plan with every include directive replaced by the file's contents. */
+	markdown: string;
+	/** Included files (relative to the project dir), in first-seen order. */
+	includes: string[];
+	/** Missing files, include cycles and paths outside the project dir. */
+	diagnostics: PlanDiagnostic[];
+	/** Where each line of `markdown` came from (index = line - 1). */
+	origins: LineOrigin[];
+}
+
+// ── Snapshots ──────────────────────────────────────────────────────
+
+/** Directory holding the frozen include set of a plan version: plan-v3.md → plan-v3.includes/ */
+export function includeSnapshotDir(planFile: string): string {
+	return planFile.replace(/\.md$/, "") + ".includes";
+}
+
+function resolveInclude(planFile: string, include: string): string {
+	const snapshot = path.join(includeSnapshotDir(planFile), include);
+	return fs.existsSync(snapshot) ? snapshot : path.join(path.dirname(planFile), include);
+}
+
+/**
+ * Copy the files a plan includes into its snapshot dir. Does nothing if the
+ * plan has no includes or was already snapshotted. Returns the files copied.
+ */
+export function snapshotPlanIncludes(planFile: string): string[] {
+	const snapshotDir = includeSnapshotDir(planFile);
+	if (!planFile.endsWith(".md") || !fs.existsSync(planFile) || fs.existsSync(snapshotDir)) return [];
+
+	const { includes } = expandIncludes(planFile);
+	const copied: string[] = [];
+	for (const include of includes) {
+		const source = resolveInclude(planFile, include);
+		if (!fs.existsSync(source)) continue;
+		const target = path.join(snapshotDir, include);
+		fs.mkdirSync(path.dirname(target), { recursive: true });
+		fs.copyFileSync(source, target);
+		copied.push(include);
+	}
+	return copied;
+}
+
+// ── Expand ─────────────────────────────────────────────────────────
+
+export function expandIncludes(planFile: string): ExpandedPlan {
+	const out: string[] = [];
+	const origins: LineOrigin[] = [];
+	const includes: string[] = [];
+	const diagnostics: PlanDiagnostic[] = [];
+	const projectRoot = path.resolve(path.dirname(planFile));
+
+	const expand = (text: string, file: string | undefined, stack: string[]) => {
+		text.split("\n").forEach((line, i) => {
+			const m = line.match(INCLUDE_DIRECTIVE);
+			if (!m) {
+				out.push(line);
+				origins.push({ file, line: i + 1 });
+				return;
+			}
+
+			const include = path.normalize(m[1].replace(/^["'`]|["'`]$/g, ""));
+			const at = { file, line: i + 1, column: line.indexOf("<!--") + 1 };
+			const resolved = path.resolve(projectRoot, include);
+			const error = (message: string) => diagnostics.push({ severity: "error", ...at, message });
+
+			if (path.isAbsolute(include) || !resolved.startsWith(projectRoot + path.sep)) {
+				error(`Include "${m[1]}" must be a path inside the project directory`);
+			} else if (stack.includes(include)) {
+				error(`Include cycle: ${[...stack, include].join(" → ")}`);
+			} else {
+				const source = resolveInclude(planFile, include);
+				if (!fs.existsSync(source)) {
+					error(`Included file not found: ${include}`);
+				} else {
+					if (!includes.includes(include)) includes.push(include);
+					expand(fs.readFileSync(source, "utf-8").replace(/\n$/, ""), include, [...stack, include]);
+				}
+			}
+		});
+	};
+
+	expand(fs.readFileSync(planFile, "utf-8"), undefined, []);
+	return { markdown: out.join("\n"), includes, diagnostics, origins };
+}
+
+// ── Parse ──────────────────────────────────────────────────────────
+
+/**
+ * Read a Markdown plan, expand its includes and parse it. Diagnostics and
+ * source positions are mapped back to the file they came from.
+ */
+export function loadMarkdownPlan(planFile: string): PlanParseResult {
+	const expanded = expandIncludes(planFile);
+	const { plan, diagnostics } = parsePlanWithDiagnostics(expanded.markdown);
+	if (expanded.includes.length === 0 && expanded.diagnostics.length === 0) return { plan, diagnostics };
+
+	const origin = (line: number): LineOrigin => expanded.origins[line - 1] ?? { line };
+	const remap = <T extends SourceLocation>(loc: T): T => {
+		const { file, line } = origin(loc.line);
+		return file ? { ...loc, file, line } : { ...loc, line };
+	};
+
+	remapSources(plan, remap);
+	return { plan, diagnostics: [...expanded.diagnostics, ...diagnostics.map(remap)] };
+}
+
+function remapSources(plan: Plan, remap: (loc: SourceLocation) => SourceLocation): void {
+	const fix = (el: { source?: SourceLocation }) => {
+		if (el.source) el.source = remap(el.source);
+	};
+	for (const wave of plan.waves) {
+		fix(wave);
+		wave.foundation.forEach(fix);
+		for (const feature of wave.features) {
+			fix(feature);
+			feature.tasks.forEach(fix);
+		}
+		wave.integration.forEach(fix);
+	}
+}
@@ -0,0 +1,271 @@
+/**
+ * JSON/YAML plan interchange — plan-vN.json and plan-vN.yaml.
+ *
+ * Both formats are read with the `yaml` package (YAML is a superset of JSON),
+ * which keeps node positions, so diagnostics point at the offending line just
+ * like Markdown plans. Documents are validated against plan.schema.json, then
+ * converted to a Plan with the same defaults the Markdown parser applies.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { LineCounter, parseDocument } from "yaml";
+import { loadMarkdownPlan } from "./plan-includes.js";
+import { validatePlan } from "./plan-parser.js";
+import { stripSourceLocations } from "./plan-serializer.js";
+import type { Feature, Plan, PlanDiagnostic, PlanParseResult, RetryPolicyOverrides, SourceLocation, Task, Wave } from "./types.js";
+
+// ── Formats ────────────────────────────────────────────────────────
+
+export type PlanFormat = "markdown" | "json" | "yaml";
+
+export function planFormat(filePath: string): PlanFormat {
+	const ext = path.extname(filePath).toLowerCase();
+	if (ext === ".json") return "json";
+	if (ext === ".yaml" || ext === ".yml") return "yaml";
+	return "markdown";
+}
+
+/** Read and parse a plan file in any supported format. Markdown plans may use includes. */
+export function loadPlanFile(filePath: string): PlanParseResult {
+	return planFormat(filePath) === "markdown"
+		? loadMarkdownPlan(filePath)
+		: parsePlanDocument(fs.readFileSync(filePath, "utf-8"));
+}
+
+// ── JSON Schema ────────────────────────────────────────────────────
+
+/** The subset of JSON Schema (draft-07) used by plan.schema.json. */
+interface JsonSchema {
+	type?: "object" | "array" | "string" | "integer" | "number";
+	required?: string[];
+	properties?: Record<string, JsonSchema>;
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	pattern?: string;
+	minLength?: number;
+	minimum?: number;
+	$ref?: string;
+	definitions?: Record<string, JsonSchema>;
+}
+
+/** Published schema for JSON/YAML plans. Point `$schema` at this file for editor support. */
+export const PLAN_SCHEMA_PATH = path.join(__dirname, "plan.schema.json");
+
+const PLAN_SCHEMA: JsonSchema = JSON.parse(fs.readFileSync(PLAN_SCHEMA_PATH, "utf-8"));
+
+interface SchemaError {
+	path: (string | number)[];
+	message: string;
+}
+
+function validateSchema(value: unknown, schema: JsonSchema, at: (string | number)[], errors: SchemaError[]): void {
+	if (schema.$ref) {
+		const name = schema.$ref.replace("#/definitions/", "");
+		validateSchema(value, PLAN_SCHEMA.definitions![name], at, errors);
+		return;
+	}
+
+	const where = at.length > 0 ? at.join(".") : "plan";
+
+	if (schema.type === "string") {
+		if (typeof value !== "string") {
+			errors.push({ path: at, message: `${where}: expected a string` });
+			return;
+		}
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push({ path: at, message: `${where}: must not be empty` });
+		}
+		if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+			errors.push({ path: at, message: `${where}: "${value}" does not match ${schema.pattern}` });
+		}
+		return;
+	}
+
+	if (schema.type === "integer" || schema.type === "number") {
+		if (schema.type === "integer" ? !Number.isInteger(value) : typeof value !== "number") {
+			errors.push({ path: at, message: `${where}: expected ${schema.type === "integer" ? "an integer" : "a number"}` });
+			return;
+		}
+		if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+			errors.push({ path: at, message: `${where}: must be at least ${schema.minimum}` });
+		}
+		return;
+	}
+
+	if (schema.type === "array") {
+		if (!Array.isArray(value)) {
+			errors.push({ path: at, message: `${where}: expected an array` });
+			return;
+		}
+		value.forEach((item, i) => validateSchema(item, schema.items!, [...at, i], errors));
+		return;
+	}
+
+	if (schema.type === "object") {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			errors.push({ path: at, message: `${where}: expected an object` });
+			return;
+		}
+		const obj = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (!(key in obj)) errors.push({ path: at, message: `${where}: missing required property "${key}"` });
+		}
+		for (const [key, v] of Object.entries(obj)) {
+			const propSchema = schema.properties?.[key];
+			if (propSchema) {
+				validateSchema(v, propSchema, [...at, key], errors);
+			} else if (schema.additionalProperties === false) {
+				errors.push({ path: [...at, key], message: `${where}: unknown property "${key}"` });
+			}
+		}
+	}
+}
+
+// ── Document Shape ─────────────────────────────────────────────────
+// What plan.schema.json accepts; optional fields get the parser's defaults.
+
+interface JsonTask {
+	id: string;
+	title: string;
+	agent?: string;
+	files?: string[];
+	depends?: string[];
+	specRefs?: string[];
+	testFiles?: string[];
+	timeoutMs?: number;
+	model?: string;
+	retries?: number;
+	retryPolicy?: RetryPolicyOverrides;
+	tools?: string[];
+	checks?: string[];
+	review?: string[];
+	description?: string;
+}
+
+interface JsonFeature {
+	name: string;
+	files?: string[];
+	review?: string[];
+	tasks: JsonTask[];
+}
+
+interface JsonWave {
+	name: string;
+	description?: string;
+	foundation?: JsonTask[];
+	features?: JsonFeature[];
+	integration?: JsonTask[];
+}
+
+interface JsonPlan {
+	goal: string;
+	spec?: string;
+	dataSchemas?: string;
+	projectStructure?: string;
+	environment?: string;
+	waves: JsonWave[];
+}
+
+// ── Parse ──────────────────────────────────────────────────────────
+
+/**
+ * Parse a JSON or YAML plan document. Syntax and schema errors are returned
+ * as diagnostics (with an empty plan); a schema-valid document also gets the
+ * same plan-level checks as Markdown plans (duplicate IDs, unknown deps).
+ */
+export function parsePlanDocument(text: string): PlanParseResult {
+	const lineCounter = new LineCounter();
+	const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+	const diagnostics: PlanDiagnostic[] = [];
+	const empty: Plan = { goal: "", dataSchemas: "", projectStructure: "", environment: "", waves: [] };
+
+	for (const err of doc.errors) {
+		const pos = err.linePos?.[0];
+		diagnostics.push({ severity: "error", line: pos?.line ?? 1, column: pos?.col ?? 1, message: err.message });
+	}
+	if (diagnostics.length > 0) return { plan: empty, diagnostics };
+
+	/** Position of the node at `at`, falling back to the closest ancestor that exists. */
+	const locate = (at: (string | number)[]): SourceLocation => {
+		for (let n = at.length; n >= 0; n--) {
+			const node = doc.getIn(at.slice(0, n), true) as { range?: [number, number, number] } | undefined;
+			if (node?.range) {
+				const { line, col } = lineCounter.linePos(node.range[0]);
+				return { line, column: col };
+			}
+		}
+		return { line: 1, column: 1 };
+	};
+
+	const data = doc.toJS();
+	const schemaErrors: SchemaError[] = [];
+	validateSchema(data, PLAN_SCHEMA, [], schemaErrors);
+	if (schemaErrors.length > 0) {
+		for (const e of schemaErrors) diagnostics.push({ severity: "error", ...locate(e.path), message: e.message });
+		return { plan: empty, diagnostics };
+	}
+
+	const plan = planFromData(data as JsonPlan, locate);
+	validatePlan(plan, diagnostics);
+	return { plan, diagnostics };
+}
+
+/** Build a Plan from schema-valid data, filling the parser's defaults. */
+function planFromData(data: JsonPlan, locate: (at: (string | number)[]) => SourceLocation): Plan {
+	const toTask = (t: JsonTask, at: (string | number)[]): Task => ({
+		id: t.id,
+		title: t.title,
+		agent: t.agent ?? "worker",
+		files: t.files ?? [],
+		depends: t.depends ?? [],
+		specRefs: t.specRefs ?? [],
+		testFiles: t.testFiles ?? [],
+		description: t.description ?? "",
+		...(t.timeoutMs !== undefined ? { timeoutMs: t.timeoutMs } : {}),
+		...(t.model !== undefined ? { model: t.model } : {}),
+		...(t.retries !== undefined ? { retries: t.retries } : {}),
+		...(t.retryPolicy !== undefined ? { retryPolicy: t.retryPolicy } : {}),
+		...(t.tools !== undefined ? { tools: t.tools } : {}),
+		...(t.checks !== undefined ? { checks: t.checks } : {}),
+		...(t.review !== undefined ? { review: t.review } : {}),
+		source: locate(at),
+	});
+
+	const toFeature = (f: JsonFeature, at: (string | number)[]): Feature => ({
+		name: f.name,
+		source: locate(at),
+		files: f.files ?? [],
+		...(f.review !== undefined ? { review: f.review } : {}),
+		tasks: f.tasks.map((t, i) => toTask(t, [...at, "tasks", i])),
+	});
+
+	const toWave = (w: JsonWave, at: (string | number)[]): Wave => ({
+		name: w.name,
+		description: w.description ?? "",
+		foundation: (w.foundation ?? []).map((t, i) => toTask(t, [...at, "foundation", i])),
+		features: (w.features ?? []).map((f, i) => toFeature(f, [...at, "features", i])),
+		integration: (w.integration ?? []).map((t, i) => toTask(t, [...at, "integration", i])),
+		source: locate(at),
+	});
+
+	return {
+		goal: data.goal,
+		dataSchemas: data.dataSchemas ?? "",
+		projectStructure: data.projectStructure ?? "",
+		environment: data.environment ?? "",
+		waves: data.waves.map((w, i) => toWave(w, ["waves", i])),
+	};
+}
+
+// ── Export ─────────────────────────────────────────────────────────
+
+/**
+ * Convert a plan to the JSON interchange format.
+ * `spec` is the plan's spec reference (from its `## Reference` section), if any.
+ */
+export function planToJson(plan: Plan, spec?: string | null): string {
+	const { goal, projectStructure, environment, dataSchemas, waves } = stripSourceLocations(plan);
+	const doc = { goal, ...(spec ? { spec } : {}), projectStructure, environment, dataSchemas, waves };
+	return `${JSON.stringify(doc, null, 2)}\n`;
+}
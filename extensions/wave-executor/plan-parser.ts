@@ -12,32 +12,339 @@
  *   ## Wave N: <name>
  *   ### Task <id>: <title>
  *   → wraps all tasks in a single "default" feature
+ *
+ * parsePlanWithDiagnostics() also reports lines the parsers would otherwise
+ * drop silently, with 1-based line/column positions.
  */
 
-import type { Feature, Plan, Task, Wave } from "./types.js";
+import { validateDependencies } from "./dependencies.js";
+import { parseRetryPolicy } from "./retry-policy.js";
+import type { Feature, Plan, PlanDiagnostic, PlanParseResult, Task, Wave } from "./types.js";
 
-// ── New format parser ──────────────────────────────────────────────
+// ── Entry points ───────────────────────────────────────────────────
+
+/**
+ * Parse a plan and collect diagnostics instead of silently dropping lines.
+ *
+ * Reports tasks outside any wave/section, unknown or misspelled task metadata,
+ * malformed wave headers, duplicate task IDs and dependencies on unknown tasks.
+ * Every Wave, Feature and Task in the result carries its source position.
+ */
+export function parsePlanWithDiagnostics(markdown: string): PlanParseResult {
+	const diagnostics: PlanDiagnostic[] = [];
+	const plan = hasSectionHeaders(markdown)
+		? parseFeatureFormat(markdown, diagnostics)
+		: parseLegacyFormat(markdown, diagnostics);
+	validatePlan(plan, diagnostics);
+	diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+	return { plan, diagnostics };
+}
 
 export function parsePlanV2(markdown: string): Plan {
-	const lines = markdown.split("\n");
-	const plan: Plan = { goal: "", dataSchemas: "", projectStructure: "", environment: "", waves: [] };
+	return parsePlanWithDiagnostics(markdown).plan;
+}
 
-	// Extract plan-level sections
-	plan.dataSchemas = extractDataSchemas(markdown);
-	plan.projectStructure = extractPlanSection(markdown, "Project Structure");
-	plan.environment = extractPlanSection(markdown, "Environment");
+export function parsePlanLegacy(markdown: string): Plan {
+	return parseLegacyFormat(markdown, []);
+}
 
-	// Detect format: if any line starts with "### Feature:" or "### Foundation" or "### Integration", it's the new format
-	const hasFeatureHeaders = lines.some(
+/** True if any diagnostic is an error (the plan must not be executed). */
+export function hasPlanErrors(diagnostics: PlanDiagnostic[]): boolean {
+	return diagnostics.some((d) => d.severity === "error");
+}
+
+/**
+ * Format diagnostics as `file:line:col: severity: message` lines
+ * (the same shape compilers use, so editors can jump to them).
+ * `file` names the plan itself; diagnostics from included files use their own path.
+ */
+export function formatDiagnostics(diagnostics: PlanDiagnostic[], file = "plan"): string {
+	return diagnostics
+		.map((d) => `${d.file ?? file}:${d.line}:${d.column}: ${d.severity}: ${d.message}`)
+		.join("\n");
+}
+
+/**
+ * The errors among `diagnostics`, formatted as by formatDiagnostics — what a
+ * run reports when it refuses the plan — or null if there are none.
+ * Warnings don't stop a run.
+ */
+export function planErrorReport(diagnostics: PlanDiagnostic[], file = "plan"): string | null {
+	const errors = diagnostics.filter((d) => d.severity === "error");
+	return errors.length > 0 ? formatDiagnostics(errors, file) : null;
+}
+
+// Detect format: if any line starts with "### Feature:" or "### Foundation" or "### Integration", it's the new format
+function hasSectionHeaders(markdown: string): boolean {
+	return markdown.split("\n").some(
 		(l) =>
 			/^### Feature:/i.test(l.trim()) ||
 			/^### Foundation/i.test(l.trim()) ||
 			/^### Integration/i.test(l.trim()),
 	);
+}
+
+// ── Task metadata ──────────────────────────────────────────────────
+
+type TaskField = "agent" | "files" | "depends" | "tests" | "specRefs" | "timeout" | "model" | "retries" | "retryPolicy" | "tools" | "check" | "review" | "description";
+
+/** Accepted spellings of task metadata keys (lowercased). */
+const TASK_FIELDS: Record<string, TaskField> = {
+	"agent": "agent",
+	"file": "files",
+	"files": "files",
+	"depend": "depends",
+	"depends": "depends",
+	"test": "tests",
+	"tests": "tests",
+	"spec ref": "specRefs",
+	"spec refs": "specRefs",
+	"timeout": "timeout",
+	"model": "model",
+	"retry": "retries",
+	"retries": "retries",
+	"retry policy": "retryPolicy",
+	"tool": "tools",
+	"tools": "tools",
+	"check": "check",
+	"checks": "check",
+	"review": "review",
+	"reviews": "review",
+	"reviewer": "review",
+	"reviewers": "review",
+	"description": "description",
+};
+
+interface FieldLine {
+	key: string;
+	field: TaskField | null;
+	value: string;
+	column: number;
+}
+
+/** Match a `- **Key**: value` metadata line. `field` is null for unknown keys. */
+function matchFieldLine(line: string): FieldLine | null {
+	const m = line.match(/^(\s*)-\s*\*\*([^*]+)\*\*:\s*(.*)/);
+	if (!m) return null;
+	const key = m[2].trim();
+	return { key, field: TASK_FIELDS[key.toLowerCase()] ?? null, value: m[3].trim(), column: m[1].length + 1 };
+}
 
-	if (!hasFeatureHeaders) {
-		return parsePlanLegacy(markdown);
+function splitList(value: string, stripBackticks: boolean): string[] {
+	return value
+		.split(",")
+		.map((v) => (stripBackticks ? v.trim().replace(/`/g, "") : v.trim()))
+		.filter(Boolean);
+}
+
+/**
+ * Apply a known (non-description) metadata field to a task.
+ * Returns an error message if the value can't be parsed.
+ */
+function applyTaskField(task: Task, field: Exclude<TaskField, "description">, value: string): string | null {
+	switch (field) {
+		case "agent":
+			if (value) task.agent = value.replace(/`/g, "");
+			break;
+		case "files":
+			task.files = splitList(value, true);
+			break;
+		case "depends":
+			task.depends = value === "(none)" || value.toLowerCase() === "none" || value === "-"
+				? []
+				: splitList(value, false);
+			break;
+		case "tests":
+			task.testFiles = splitList(value, true);
+			break;
+		case "specRefs":
+			task.specRefs = splitList(value, false);
+			break;
+		case "timeout": {
+			const ms = parseDuration(value.replace(/`/g, ""));
+			if (ms === null) return `Invalid timeout "${value}" in ${task.id} — use a duration like 90s, 25m or 1h30m`;
+			task.timeoutMs = ms;
+			break;
+		}
+		case "model":
+			if (value) task.model = value.replace(/`/g, "");
+			break;
+		case "retries":
+			if (!/^\d+$/.test(value)) return `Invalid retries "${value}" in ${task.id} — expected a whole number`;
+			task.retries = parseInt(value, 10);
+			break;
+		case "retryPolicy": {
+			const policy = parseRetryPolicy(value.replace(/`/g, ""));
+			if (typeof policy === "string") return `Invalid retry policy in ${task.id}: ${policy}`;
+			task.retryPolicy = policy;
+			break;
+		}
+		case "tools":
+			task.tools = splitList(value, true);
+			break;
+		case "check": {
+			// One command per line, repeatable; commas are part of the command
+			const command = value.replace(/^`([^`]*)`$/, "$1").trim();
+			if (!command) return `Empty check command in ${task.id}`;
+			task.checks = [...(task.checks ?? []), command];
+			break;
+		}
+		case "review":
+			task.review = parseReviewers(value);
+			break;
 	}
+	return null;
+}
+
+/** Reviewer agents of a `Review:` line; `none` means no review. */
+function parseReviewers(value: string): string[] {
+	return value === "(none)" || value.toLowerCase() === "none" || value === "-" ? [] : splitList(value, true);
+}
+
+// ── Durations ──────────────────────────────────────────────────────
+
+const DURATION_UNITS_MS: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+
+/**
+ * Parse a duration like "90s", "25m", "1h30m" or "1500ms" into milliseconds.
+ * A bare number is read as minutes. Returns null for anything else (including zero).
+ */
+export function parseDuration(value: string): number | null {
+	const text = value.trim().toLowerCase().replace(/\s+/g, "");
+	if (/^\d+$/.test(text)) return parseInt(text, 10) * DURATION_UNITS_MS.m || null;
+	if (!/^(\d+(ms|h|m|s))+$/.test(text)) return null;
+	let total = 0;
+	for (const [, amount, unit] of text.matchAll(/(\d+)(ms|h|m|s)/g)) {
+		total += parseInt(amount, 10) * DURATION_UNITS_MS[unit];
+	}
+	return total || null;
+}
+
+/** Format milliseconds as the shortest duration parseDuration() reads back exactly. */
+export function formatDuration(ms: number): string {
+	let rest = ms;
+	let out = "";
+	for (const unit of ["h", "m", "s"]) {
+		const size = DURATION_UNITS_MS[unit];
+		if (rest >= size) {
+			out += `${Math.floor(rest / size)}${unit}`;
+			rest %= size;
+		}
+	}
+	if (rest > 0) out += `${rest}ms`;
+	return out || "0s";
+}
+
+/**
+ * Report an unknown metadata key. Near-misses of a real key (e.g. "Agents",
+ * "Dependencies") are errors — the author clearly meant metadata and the
+ * value would otherwise be lost. Anything else is a warning.
+ */
+function reportUnknownField(fl: FieldLine, lineNo: number, task: Task, diagnostics: PlanDiagnostic[]): void {
+	const suggestion = closestFieldName(fl.key);
+	diagnostics.push({
+		severity: suggestion ? "error" : "warning",
+		line: lineNo,
+		column: fl.column,
+		message: suggestion
+			? `Unknown task field "${fl.key}" in ${task.id} — did you mean "${suggestion}"?`
+			: `Unknown task field "${fl.key}" in ${task.id} — line ignored`,
+	});
+}
+
+/**
+ * Suggest the field a key was probably meant to be: a shared stem with an
+ * accepted spelling ("Agents", "Dependencies") or, unless `stemOnly`, a small
+ * edit distance ("Agnet"). Description bullets only use the stem rule so prose
+ * like "- **Fields**: ..." isn't mistaken for a typo of "Files".
+ */
+function closestFieldName(key: string, stemOnly = false): string | null {
+	const k = key.toLowerCase();
+	const maxDistance = k.length >= 5 ? 2 : 1;
+	for (const [alias, field] of Object.entries(TASK_FIELDS)) {
+		const stemMatch = alias.length >= 4 && k.length >= 4 && (k.startsWith(alias) || alias.startsWith(k));
+		if (stemMatch || (!stemOnly && editDistance(k, alias) <= maxDistance)) return FIELD_LABELS[field];
+	}
+	return null;
+}
+
+const FIELD_LABELS: Record<TaskField, string> = {
+	agent: "Agent",
+	files: "Files",
+	depends: "Depends",
+	tests: "Tests",
+	specRefs: "Spec refs",
+	timeout: "Timeout",
+	model: "Model",
+	retries: "Retries",
+	retryPolicy: "Retry Policy",
+	tools: "Tools",
+	check: "Check",
+	review: "Review",
+	description: "Description",
+};
+
+function editDistance(a: string, b: string): number {
+	const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		let diag = prev[0];
+		prev[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const tmp = prev[j];
+			prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+			diag = tmp;
+		}
+	}
+	return prev[b.length];
+}
+
+function newTask(id: string, title: string, line: number): Task {
+	return {
+		id,
+		title,
+		agent: "worker",
+		files: [],
+		depends: [],
+		specRefs: [],
+		testFiles: [],
+		description: "",
+		source: { line, column: 1 },
+	};
+}
+
+function newWave(name: string, line: number): Wave {
+	return {
+		name,
+		description: "",
+		foundation: [],
+		features: [],
+		integration: [],
+		source: { line, column: 1 },
+	};
+}
+
+/** `## Wave ...` lines that don't match `## Wave N: Name` are silently skipped otherwise. */
+function checkMalformedWaveHeader(line: string, lineNo: number, diagnostics: PlanDiagnostic[]): void {
+	if (/^## Wave\b/i.test(line) && !/^## Wave \d+:\s*(.+)/.test(line)) {
+		diagnostics.push({
+			severity: "error",
+			line: lineNo,
+			column: 1,
+			message: `Malformed wave header "${line.trim()}" — expected "## Wave N: <name>"`,
+		});
+	}
+}
+
+// ── New format parser ──────────────────────────────────────────────
+
+function parseFeatureFormat(markdown: string, diagnostics: PlanDiagnostic[]): Plan {
+	const lines = markdown.split("\n");
+	const plan: Plan = { goal: "", dataSchemas: "", projectStructure: "", environment: "", waves: [] };
+
+	// Extract plan-level sections
+	plan.dataSchemas = extractDataSchemas(markdown);
+	plan.projectStructure = extractPlanSection(markdown, "Project Structure");
+	plan.environment = extractPlanSection(markdown, "Environment");
 
 	let currentWave: Wave | null = null;
 	// Which section we're in: "foundation" | "feature" | "integration" | null
@@ -84,6 +391,7 @@ export function parsePlanV2(markdown: string): Plan {
 
 	for (let i = 0; i < lines.length; i++) {
 		const line = lines[i];
+		const lineNo = i + 1;
 
 		// Goal header
 		if (/^## Goal/i.test(line.trim())) {
@@ -103,16 +411,11 @@ export function parsePlanV2(markdown: string): Plan {
 		const waveMatch = line.match(/^## Wave \d+:\s*(.+)/);
 		if (waveMatch) {
 			flushWave();
-			currentWave = {
-				name: waveMatch[1].trim(),
-				description: "",
-				foundation: [],
-				features: [],
-				integration: [],
-			};
+			currentWave = newWave(waveMatch[1].trim(), lineNo);
 			currentSection = null;
 			continue;
 		}
+		checkMalformedWaveHeader(line, lineNo, diagnostics);
 
 		// Wave description: first non-empty line after wave header, before any ### section
 		if (
@@ -134,6 +437,9 @@ export function parsePlanV2(markdown: string): Plan {
 			flushFeature();
 			flushTask();
 			currentSection = "foundation";
+			if (!currentWave) {
+				diagnostics.push({ severity: "error", line: lineNo, column: 1, message: "Foundation section appears before any \"## Wave N:\" header — it will be ignored" });
+			}
 			continue;
 		}
 
@@ -145,9 +451,13 @@ export function parsePlanV2(markdown: string): Plan {
 			currentSection = "feature";
 			currentFeature = {
 				name: featureMatch[1].trim(),
+				source: { line: lineNo, column: 1 },
 				files: [],
 				tasks: [],
 			};
+			if (!currentWave) {
+				diagnostics.push({ severity: "error", line: lineNo, column: 1, message: `Feature "${currentFeature.name}" appears before any "## Wave N:" header — it will be ignored` });
+			}
 			continue;
 		}
 
@@ -156,17 +466,22 @@ export function parsePlanV2(markdown: string): Plan {
 			flushFeature();
 			flushTask();
 			currentSection = "integration";
+			if (!currentWave) {
+				diagnostics.push({ severity: "error", line: lineNo, column: 1, message: "Integration section appears before any \"## Wave N:\" header — it will be ignored" });
+			}
 			continue;
 		}
 
-		// Feature-level Files line (right after ### Feature: header)
+		// Feature-level Files and Review lines (right after ### Feature: header)
 		if (currentSection === "feature" && currentFeature && !currentTask) {
 			const featureFilesMatch = line.match(/^Files?:\s*(.+)/i);
 			if (featureFilesMatch) {
-				currentFeature.files = featureFilesMatch[1]
-					.split(",")
-					.map((f) => f.trim().replace(/`/g, ""))
-					.filter(Boolean);
+				currentFeature.files = splitList(featureFilesMatch[1], true);
+				continue;
+			}
+			const featureReviewMatch = line.match(/^Review(?:ers?)?:\s*(.+)/i);
+			if (featureReviewMatch) {
+				currentFeature.review = parseReviewers(featureReviewMatch[1].trim());
 				continue;
 			}
 		}
@@ -175,103 +490,41 @@ export function parsePlanV2(markdown: string): Plan {
 		const taskMatch = line.match(/^#{3,4} Task ([\w-]+):\s*(.+)/);
 		if (taskMatch) {
 			flushTask();
-			currentTask = {
-				id: taskMatch[1],
-				title: taskMatch[2].trim(),
-				agent: "worker",
-				files: [],
-				depends: [],
-				specRefs: [],
-				testFiles: [],
-				description: "",
-			};
-			inDescription = false;
-			descriptionLines = [];
+			currentTask = newTask(taskMatch[1], taskMatch[2].trim(), lineNo);
+			if (!currentWave) {
+				diagnostics.push({ severity: "error", line: lineNo, column: 1, message: `Task ${currentTask.id} appears before any "## Wave N:" header — it will be ignored` });
+			} else if (currentSection === null) {
+				diagnostics.push({ severity: "error", line: lineNo, column: 1, message: `Task ${currentTask.id} is not inside a Foundation, Feature or Integration section — it will be ignored` });
+			}
 			continue;
 		}
 
 		// Task metadata lines
 		if (currentTask) {
-			// Agent
-			const agentMatch = line.match(/^\s*-\s*\*\*Agent\*\*:\s*(.+)/);
-			if (agentMatch) {
-				currentTask.agent = agentMatch[1].trim().replace(/`/g, "");
-				inDescription = false;
-				continue;
-			}
-
-			// Files
-			const filesMatch = line.match(/^\s*-\s*\*\*Files?\*\*:\s*(.+)/);
-			if (filesMatch) {
-				currentTask.files = filesMatch[1]
-					.split(",")
-					.map((f) => f.trim().replace(/`/g, ""))
-					.filter(Boolean);
-				inDescription = false;
-				continue;
-			}
+			const fl = matchFieldLine(line);
 
-			// Depends
-			const dependsMatch = line.match(/^\s*-\s*\*\*Depends?\*\*:\s*(.+)/);
-			if (dependsMatch) {
-				const raw = dependsMatch[1].trim();
-				if (raw === "(none)" || raw.toLowerCase() === "none" || raw === "-") {
-					currentTask.depends = [];
-				} else {
-					currentTask.depends = raw
-						.split(",")
-						.map((d) => d.trim())
-						.filter(Boolean);
+			// Description continuation: stop at a section header or a known metadata line
+			if (inDescription) {
+				if (!line.match(/^#{2,4}\s/) && !(fl?.field && fl.field !== "description")) {
+					if (fl && !fl.field && closestFieldName(fl.key, true)) reportUnknownField(fl, lineNo, currentTask, diagnostics);
+					descriptionLines.push(line);
+					continue;
 				}
 				inDescription = false;
-				continue;
-			}
-
-			// Tests
-			const testsMatch = line.match(/^\s*-\s*\*\*Tests?\*\*:\s*(.+)/);
-			if (testsMatch) {
-				currentTask.testFiles = testsMatch[1]
-					.split(",")
-					.map((f) => f.trim().replace(/`/g, ""))
-					.filter(Boolean);
-				inDescription = false;
-				continue;
 			}
 
-			// Spec refs
-			const refsMatch = line.match(/^\s*-\s*\*\*Spec refs?\*\*:\s*(.+)/);
-			if (refsMatch) {
-				currentTask.specRefs = refsMatch[1]
-					.split(",")
-					.map((r) => r.trim())
-					.filter(Boolean);
-				inDescription = false;
-				continue;
-			}
+			if (!fl) continue;
 
-			// Description start
-			const descMatch = line.match(/^\s*-\s*\*\*Description\*\*:\s*(.*)/);
-			if (descMatch) {
+			if (fl.field === "description") {
 				inDescription = true;
-				if (descMatch[1].trim()) {
-					descriptionLines.push(descMatch[1].trim());
-				}
-				continue;
-			}
-
-			// Description continuation: indented or non-metadata lines after description starts
-			if (inDescription) {
-				// Stop description at next task header or section header
-				if (line.match(/^#{2,4}\s/) || line.match(/^\s*-\s*\*\*(Agent|Files?|Depends?|Tests?|Spec refs?)\*\*/)) {
-					// Don't consume this line — re-process it
-					// We need to flush the task and re-parse this line
-					// Simplest approach: just stop accumulating
-					inDescription = false;
-					// Re-parse this line in the next iteration by decrementing i
-					i--;
-					continue;
+				if (fl.value) {
+					descriptionLines.push(fl.value);
 				}
-				descriptionLines.push(line);
+			} else if (fl.field) {
+				const error = applyTaskField(currentTask, fl.field, fl.value);
+				if (error) diagnostics.push({ severity: "error", line: lineNo, column: fl.column, message: error });
+			} else {
+				reportUnknownField(fl, lineNo, currentTask, diagnostics);
 			}
 		}
 	}
@@ -289,7 +542,7 @@ export function parsePlanV2(markdown: string): Plan {
 
 // ── Legacy format parser (backward compatibility) ──────────────────
 
-export function parsePlanLegacy(markdown: string): Plan {
+function parseLegacyFormat(markdown: string, diagnostics: PlanDiagnostic[]): Plan {
 	const lines = markdown.split("\n");
 	const plan: Plan = { goal: "", dataSchemas: "", projectStructure: "", environment: "", waves: [] };
 
@@ -307,7 +560,7 @@ export function parsePlanLegacy(markdown: string): Plan {
 			currentTask.description = descriptionLines.join("\n").trim();
 			// In legacy format, all tasks go into a single "default" feature
 			if (currentWave.features.length === 0) {
-				currentWave.features.push({ name: "default", files: [], tasks: [] });
+				currentWave.features.push({ name: "default", source: currentWave.source, files: [], tasks: [] });
 			}
 			currentWave.features[0].tasks.push(currentTask);
 		}
@@ -326,6 +579,7 @@ export function parsePlanLegacy(markdown: string): Plan {
 
 	for (let i = 0; i < lines.length; i++) {
 		const line = lines[i];
+		const lineNo = i + 1;
 
 		// Goal header
 		if (/^## Goal/i.test(line.trim())) {
@@ -345,15 +599,10 @@ export function parsePlanLegacy(markdown: string): Plan {
 		const waveMatch = line.match(/^## Wave \d+:\s*(.+)/);
 		if (waveMatch) {
 			flushWave();
-			currentWave = {
-				name: waveMatch[1].trim(),
-				description: "",
-				foundation: [],
-				features: [],
-				integration: [],
-			};
+			currentWave = newWave(waveMatch[1].trim(), lineNo);
 			continue;
 		}
+		checkMalformedWaveHeader(line, lineNo, diagnostics);
 
 		// Wave description
 		if (
@@ -374,90 +623,37 @@ export function parsePlanLegacy(markdown: string): Plan {
 		const taskMatch = line.match(/^### Task ([\w-]+):\s*(.+)/);
 		if (taskMatch) {
 			flushTask();
-			currentTask = {
-				id: taskMatch[1],
-				title: taskMatch[2].trim(),
-				agent: "worker",
-				files: [],
-				depends: [],
-				specRefs: [],
-				testFiles: [],
-				description: "",
-			};
-			inDescription = false;
-			descriptionLines = [];
+			currentTask = newTask(taskMatch[1], taskMatch[2].trim(), lineNo);
+			if (!currentWave) {
+				diagnostics.push({ severity: "error", line: lineNo, column: 1, message: `Task ${currentTask.id} appears before any "## Wave N:" header — it will be ignored` });
+			}
 			continue;
 		}
 
 		if (currentTask) {
-			const agentMatch = line.match(/^\s*-\s*\*\*Agent\*\*:\s*(.+)/);
-			if (agentMatch) {
-				currentTask.agent = agentMatch[1].trim().replace(/`/g, "");
-				inDescription = false;
-				continue;
-			}
-
-			const filesMatch = line.match(/^\s*-\s*\*\*Files?\*\*:\s*(.+)/);
-			if (filesMatch) {
-				currentTask.files = filesMatch[1]
-					.split(",")
-					.map((f) => f.trim().replace(/`/g, ""))
-					.filter(Boolean);
-				inDescription = false;
-				continue;
-			}
+			const fl = matchFieldLine(line);
 
-			const dependsMatch = line.match(/^\s*-\s*\*\*Depends?\*\*:\s*(.+)/);
-			if (dependsMatch) {
-				const raw = dependsMatch[1].trim();
-				if (raw === "(none)" || raw.toLowerCase() === "none" || raw === "-") {
-					currentTask.depends = [];
-				} else {
-					currentTask.depends = raw
-						.split(",")
-						.map((d) => d.trim())
-						.filter(Boolean);
+			if (inDescription) {
+				if (!line.match(/^#{2,3}\s/) && !(fl?.field && fl.field !== "description")) {
+					if (fl && !fl.field && closestFieldName(fl.key, true)) reportUnknownField(fl, lineNo, currentTask, diagnostics);
+					descriptionLines.push(line);
+					continue;
 				}
 				inDescription = false;
-				continue;
-			}
-
-			const testsMatch = line.match(/^\s*-\s*\*\*Tests?\*\*:\s*(.+)/);
-			if (testsMatch) {
-				currentTask.testFiles = testsMatch[1]
-					.split(",")
-					.map((f) => f.trim().replace(/`/g, ""))
-					.filter(Boolean);
-				inDescription = false;
-				continue;
 			}
 
-			const refsMatch = line.match(/^\s*-\s*\*\*Spec refs?\*\*:\s*(.+)/);
-			if (refsMatch) {
-				currentTask.specRefs = refsMatch[1]
-					.split(",")
-					.map((r) => r.trim())
-					.filter(Boolean);
-				inDescription = false;
-				continue;
-			}
+			if (!fl) continue;
 
-			const descMatch = line.match(/^\s*-\s*\*\*Description\*\*:\s*(.*)/);
-			if (descMatch) {
+			if (fl.field === "description") {
 				inDescription = true;
-				if (descMatch[1].trim()) {
-					descriptionLines.push(descMatch[1].trim());
-				}
-				continue;
-			}
-
-			if (inDescription) {
-				if (line.match(/^#{2,3}\s/) || line.match(/^\s*-\s*\*\*(Agent|Files?|Depends?|Tests?|Spec refs?)\*\*/)) {
-					inDescription = false;
-					i--;
-					continue;
+				if (fl.value) {
+					descriptionLines.push(fl.value);
 				}
-				descriptionLines.push(line);
+			} else if (fl.field) {
+				const error = applyTaskField(currentTask, fl.field, fl.value);
+				if (error) diagnostics.push({ severity: "error", line: lineNo, column: fl.column, message: error });
+			} else {
+				reportUnknownField(fl, lineNo, currentTask, diagnostics);
 			}
 		}
 	}
@@ -472,6 +668,67 @@ export function parsePlanLegacy(markdown: string): Plan {
 	return plan;
 }
 
+// ── Plan-level validation ──────────────────────────────────────────
+
+/**
+ * Checks that need the whole plan: duplicate IDs, unknown or unschedulable
+ * dependencies, empty sections.
+ * Appends to and returns `diagnostics`. Also used for plans loaded from JSON/YAML.
+ */
+export function validatePlan(plan: Plan, diagnostics: PlanDiagnostic[] = []): PlanDiagnostic[] {
+	const at = (el: { source?: { line: number; column: number } }) => ({
+		line: el.source?.line ?? 1,
+		column: el.source?.column ?? 1,
+	});
+
+	const allTasks = plan.waves.flatMap((w) => [
+		...w.foundation,
+		...w.features.flatMap((f) => f.tasks),
+		...w.integration,
+	]);
+
+	const firstById = new Map<string, Task>();
+	for (const task of allTasks) {
+		const first = firstById.get(task.id);
+		if (first) {
+			diagnostics.push({
+				severity: "error",
+				...at(task),
+				message: `Duplicate task ID "${task.id}" (first defined on line ${at(first).line})`,
+			});
+		} else {
+			firstById.set(task.id, task);
+		}
+	}
+
+	for (const task of allTasks) {
+		for (const dep of task.depends) {
+			if (dep === task.id) {
+				diagnostics.push({ severity: "error", ...at(task), message: `Task ${task.id} depends on itself` });
+			} else if (!firstById.has(dep)) {
+				diagnostics.push({ severity: "error", ...at(task), message: `Task ${task.id} depends on unknown task "${dep}"` });
+			}
+		}
+	}
+
+	validateDependencies(plan, diagnostics);
+
+	for (const wave of plan.waves) {
+		for (const feature of wave.features) {
+			if (feature.tasks.length === 0) {
+				diagnostics.push({ severity: "warning", ...at(feature), message: `Feature "${feature.name}" has no tasks` });
+			}
+		}
+		const taskCount = wave.foundation.length + wave.integration.length
+			+ wave.features.reduce((n, f) => n + f.tasks.length, 0);
+		if (taskCount === 0) {
+			diagnostics.push({ severity: "warning", ...at(wave), message: `Wave "${wave.name}" has no tasks` });
+		}
+	}
+
+	return diagnostics;
+}
+
 // ── Data Schemas Extraction ────────────────────────────────────────
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * Plan serializer — writes a Plan back to the canonical feature-based Markdown.
+ *
+ * The output is what parsePlanV2 reads, so `parsePlanV2(serializePlan(p))`
+ * deep-equals `p` (ignoring `source` positions, which describe the text the
+ * plan was parsed from). Tools can edit a parsed plan — reorder tasks, move a
+ * feature to another wave, renumber IDs — and write it as the next plan-vN.md.
+ *
+ * Known limits (the Markdown format can't express these):
+ * - Descriptions must not contain lines that look like task metadata
+ *   (`- **Agent**: ...`) or section headers (`## ...`, `### Feature: ...`)
+ * - File names and dependency IDs must not contain commas
+ */
+
+import { formatDuration } from "./plan-parser.js";
+import { formatRetryPolicy } from "./retry-policy.js";
+import type { Feature, Plan, Task, Wave } from "./types.js";
+
+// ── Serialize ──────────────────────────────────────────────────────
+
+export function serializePlan(plan: Plan): string {
+	const out: string[] = [];
+
+	// "# Implementation Plan" is only safe with a goal: without ## Goal the parser
+	// falls back to reading the line after the title as the goal.
+	if (plan.goal) {
+		out.push("# Implementation Plan", "", "## Goal", plan.goal, "");
+	}
+
+	const sections: [string, string][] = [
+		["Project Structure", plan.projectStructure],
+		["Environment", plan.environment],
+		["Data Schemas", plan.dataSchemas],
+	];
+	for (const [heading, content] of sections) {
+		if (content.trim()) out.push(withHeading(heading, content), "");
+	}
+
+	out.push("---", "");
+
+	plan.waves.forEach((wave, wi) => out.push(...serializeWave(wave, wi + 1)));
+
+	return `${out.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * Drop parser-assigned `source` positions so plans can be compared structurally.
+ * Returns a deep copy; the input is not modified.
+ */
+export function stripSourceLocations(plan: Plan): Plan {
+	const stripTask = ({ source: _source, ...task }: Task): Task => ({
+		...task,
+		files: [...task.files],
+		depends: [...task.depends],
+		specRefs: [...task.specRefs],
+		testFiles: [...task.testFiles],
+		...(task.tools ? { tools: [...task.tools] } : {}),
+		...(task.checks ? { checks: [...task.checks] } : {}),
+		...(task.review ? { review: [...task.review] } : {}),
+		...(task.retryPolicy ? { retryPolicy: structuredClone(task.retryPolicy) } : {}),
+	});
+	const stripFeature = ({ source: _source, ...feature }: Feature): Feature => ({
+		...feature,
+		files: [...feature.files],
+		...(feature.review ? { review: [...feature.review] } : {}),
+		tasks: feature.tasks.map(stripTask),
+	});
+	const stripWave = ({ source: _source, ...wave }: Wave): Wave => ({
+		...wave,
+		foundation: wave.foundation.map(stripTask),
+		features: wave.features.map(stripFeature),
+		integration: wave.integration.map(stripTask),
+	});
+	return { ...plan, waves: plan.waves.map(stripWave) };
+}
+
+// ── Sections ───────────────────────────────────────────────────────
+
+/** Plan-level sections are stored with their `## Heading` line — add it if missing. */
+function withHeading(heading: string, content: string): string {
+	const trimmed = content.trim();
+	return new RegExp(`^## ${heading}`, "i").test(trimmed) ? trimmed : `## ${heading}\n${trimmed}`;
+}
+
+function serializeWave(wave: Wave, num: number): string[] {
+	const out: string[] = [`## Wave ${num}: ${wave.name}`];
+	if (wave.description) out.push(wave.description);
+	out.push("");
+
+	const isEmpty = wave.foundation.length === 0 && wave.features.length === 0 && wave.integration.length === 0;
+
+	// An empty wave still needs one section header, or a plan with no other
+	// sections would be read back with the legacy parser (which drops empty waves).
+	if (wave.foundation.length > 0 || isEmpty) {
+		out.push("### Foundation", "");
+		for (const task of wave.foundation) out.push(...serializeTask(task));
+	}
+
+	for (const feature of wave.features) {
+		out.push(`### Feature: ${feature.name}`);
+		if (feature.files.length > 0) out.push(`Files: ${feature.files.join(", ")}`);
+		if (feature.review) out.push(`Review: ${feature.review.join(", ") || "none"}`);
+		out.push("");
+		for (const task of feature.tasks) out.push(...serializeTask(task));
+	}
+
+	if (wave.integration.length > 0) {
+		out.push("### Integration", "");
+		for (const task of wave.integration) out.push(...serializeTask(task));
+	}
+
+	return out;
+}
+
+function serializeTask(task: Task): string[] {
+	const code = (items: string[]) => items.map((f) => `\`${f}\``).join(", ");
+	const out: string[] = [`#### Task ${task.id}: ${task.title}`];
+
+	out.push(`- **Agent**: ${task.agent}`);
+	if (task.files.length > 0) out.push(`- **Files**: ${code(task.files)}`);
+	if (task.depends.length > 0) out.push(`- **Depends**: ${task.depends.join(", ")}`);
+	if (task.testFiles.length > 0) out.push(`- **Tests**: ${code(task.testFiles)}`);
+	if (task.specRefs.length > 0) out.push(`- **Spec refs**: ${task.specRefs.join(", ")}`);
+	if (task.timeoutMs !== undefined) out.push(`- **Timeout**: ${formatDuration(task.timeoutMs)}`);
+	if (task.model) out.push(`- **Model**: ${task.model}`);
+	if (task.retries !== undefined) out.push(`- **Retries**: ${task.retries}`);
+	if (task.retryPolicy) out.push(`- **Retry Policy**: ${formatRetryPolicy(task.retryPolicy)}`);
+	if (task.tools) out.push(`- **Tools**: ${task.tools.join(", ")}`);
+	for (const check of task.checks ?? []) out.push(`- **Check**: \`${check}\``);
+	if (task.review) out.push(`- **Review**: ${task.review.join(", ") || "none"}`);
+	if (task.description) out.push(`- **Description**: ${task.description}`);
+
+	out.push("");
+	return out;
+}
@@ -0,0 +1,102 @@
+/**
+ * Plan slices — backs `/waves-run <project> <task-id|feature|wave>`.
+ *
+ * A slice is one wave reduced to the selected work: a single task (kept in
+ * its own section, so a feature task still runs in a feature worktree and
+ * foundation/integration tasks on the base branch), one feature, or a whole
+ * wave. The runner executes it like any other wave, through executeFeature
+ * and runTaskOnBase, so prompts, checks, gates, logs and state are the same.
+ */
+
+import { downstreamTaskIds } from "./dependencies.js";
+import type { InvalidatedTask } from "./plan-diff.js";
+import type { Plan, Task, Wave } from "./types.js";
+
+export interface PlanSlice {
+	/** What was asked for, as typed */
+	target: string;
+	kind: "task" | "feature" | "wave";
+	/** 0-indexed wave the slice belongs to */
+	waveIndex: number;
+	/** The wave reduced to the selected tasks */
+	wave: Wave;
+	taskIds: string[];
+}
+
+function waveTaskIds(wave: Wave): string[] {
+	return [...wave.foundation, ...wave.features.flatMap((f) => f.tasks), ...wave.integration].map((t) => t.id);
+}
+
+/**
+ * Find a slice by task ID, feature name (`<wave>/<feature>` when the name is
+ * used in more than one wave) or wave (number or name). Returns a user-facing
+ * error message if nothing, or more than one thing, matches.
+ */
+export function resolvePlanSlice(plan: Plan, target: string): PlanSlice | string {
+	const wanted = target.trim();
+	const lower = wanted.toLowerCase();
+	const emptyWave = (wave: Wave): Wave => ({ ...wave, foundation: [], features: [], integration: [] });
+
+	// Task ID
+	for (const [wi, wave] of plan.waves.entries()) {
+		const only = (tasks: Task[]) => tasks.filter((t) => t.id === wanted);
+		if (!waveTaskIds(wave).includes(wanted)) continue;
+		const sliced: Wave = {
+			...wave,
+			foundation: only(wave.foundation),
+			features: wave.features
+				.filter((f) => f.tasks.some((t) => t.id === wanted))
+				.map((f) => ({ ...f, tasks: only(f.tasks) })),
+			integration: only(wave.integration),
+		};
+		return { target: wanted, kind: "task", waveIndex: wi, wave: sliced, taskIds: [wanted] };
+	}
+
+	// Feature, optionally qualified by its wave
+	const [waveRef, featureRef] = lower.includes("/") ? lower.split("/", 2) : [null, lower];
+	const features = plan.waves.flatMap((wave, wi) => wave.features
+		.filter((f) => f.name.toLowerCase() === featureRef && (waveRef === null || matchesWave(wave, wi, waveRef)))
+		.map((feature) => ({ wave, wi, feature })));
+	if (features.length > 1) {
+		return `Feature "${wanted}" is in waves ${features.map((f) => f.wi + 1).join(", ")} — use <wave>/${wanted}, e.g. ${features[0].wi + 1}/${wanted}`;
+	}
+	if (features.length === 1) {
+		const { wave, wi, feature } = features[0];
+		return {
+			target: wanted,
+			kind: "feature",
+			waveIndex: wi,
+			wave: { ...emptyWave(wave), features: [feature] },
+			taskIds: feature.tasks.map((t) => t.id),
+		};
+	}
+
+	// Wave
+	const wi = plan.waves.findIndex((wave, i) => matchesWave(wave, i, lower));
+	if (wi !== -1) {
+		const wave = plan.waves[wi];
+		return { target: wanted, kind: "wave", waveIndex: wi, wave, taskIds: waveTaskIds(wave) };
+	}
+
+	return `No task, feature or wave "${wanted}" in the plan`;
+}
+
+/** `2`, `wave 2`, `wave-2` or the wave's name (case-insensitive). */
+function matchesWave(wave: Wave, index: number, ref: string): boolean {
+	const num = ref.replace(/^wave[\s-]*/, "");
+	return (/^\d+$/.test(num) && parseInt(num, 10) === index + 1) || wave.name.toLowerCase() === ref;
+}
+
+/**
+ * Completed tasks outside the slice that transitively depend on it — their
+ * work was built on what the slice is about to redo.
+ */
+export function sliceInvalidations(plan: Plan, slice: PlanSlice, completedIds: Iterable<string>): InvalidatedTask[] {
+	const downstream = downstreamTaskIds(plan, slice.taskIds);
+	const result: InvalidatedTask[] = [];
+	for (const id of completedIds) {
+		const via = downstream.get(id);
+		if (via && !slice.taskIds.includes(id)) result.push({ id, reason: `depends on ${via}` });
+	}
+	return result;
+}
@@ -0,0 +1,33 @@
+/**
+ * Project JSON files — the optional config next to the plans
+ * (retry-policy.json, prices.json, roles.json, budget.json). All are read
+ * the same way: no file means the defaults, and an invalid one stops the
+ * run with every problem listed rather than being half applied.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/** `file:` followed by one problem per line. */
+export function projectFileError(file: string, problems: string[]): Error {
+	return new Error(`${file}:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+}
+
+/**
+ * `file` in the project directory, parsed and checked by `validate`, which
+ * returns the problems it finds; undefined if there is no such file. Throws
+ * if the file isn't JSON or has any problem.
+ */
+export function loadProjectJson<T>(projectDir: string, file: string, validate: (data: unknown) => string[]): T | undefined {
+	const filePath = path.join(projectDir, file);
+	if (!fs.existsSync(filePath)) return undefined;
+	let data: unknown;
+	try {
+		data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+	} catch (e: any) {
+		throw new Error(`${file}: ${e.message}`);
+	}
+	const problems = validate(data);
+	if (problems.length > 0) throw projectFileError(file, problems);
+	return data as T;
+}
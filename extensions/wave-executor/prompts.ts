@@ -211,6 +211,11 @@ Provide explicit environment details so agents don't waste tokens discovering th
 - Package manager and install command
 - Known quirks or version-specific issues (e.g., "httpx 0.28+ requires ASGITransport")
 - Virtual environment activation (if applicable)
+- Optional gates the orchestrator runs after every worker task and after the merge (only verified commands):
+  - **Install**: \`<install command>\`
+  - **Typecheck**: \`<typecheck command>\`
+  - **Lint**: \`<lint command>\`
+  - **Test**: \`<test command; {tests} = the task's test files>\`
 
 ---
 
@@ -226,6 +231,8 @@ Shared contracts committed before features branch.
 - **Depends**: (task IDs, or omit if none)
 - **Tests**: \`path/to/test\` (for worker tasks)
 - **Spec refs**: FR-1, FR-2
+- **Timeout**: 25m (optional — only for unusually large tasks; default 10m)
+- **Check**: \`npm test -- auth\` (optional, repeatable — shell command that must exit 0 once the task is done)
 - **Description**: Detailed description with code hints (exact signatures, field names).
 
 ### Feature: <name>
@@ -234,7 +241,7 @@ Files: list of files this feature owns
 #### Task w1-<feature>-t1: <title>
 - **Agent**: ...
 - **Files**: ...
-- **Depends**: w1-<feature>-tN (within same feature only)
+- **Depends**: w1-<feature>-tN (same feature, foundation or earlier waves)
 - **Description**: ...
 
 ### Integration
@@ -247,7 +254,7 @@ Files: list of files this feature owns
 
 **Rules:**
 - Features within a wave MUST NOT depend on each other or write to the same files
-- Task dependencies are within the same feature/section only
+- Task dependencies may point to the same section, an earlier phase of the wave, or an earlier wave — never to another feature in the same wave or to a later task
 - Every task description must repeat canonical field names and signatures (parallel agents can't see each other)
 - Foundation defines exact interfaces — agents just create the files
 - Integration wires features together and runs full verification
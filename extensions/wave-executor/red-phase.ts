@@ -0,0 +1,135 @@
+/**
+ * TDD red phase — do a test-writer's new tests fail, and for the right reason?
+ *
+ * After a test-writer task exits cleanly and its checks pass, the
+ * orchestrator runs the Environment test command on just the task's test
+ * files. Before anything implements them, the tests must fail on assertions
+ * or on the missing implementation (module not found, export missing):
+ *
+ *   - passing: they already pass — vacuous, or testing nothing new
+ *   - crash:   they fail without running — syntax error, crash on import
+ *
+ * Either fails the task, with one retry that gets the test output. A failure
+ * that matches neither pattern is recorded as `unclear` and doesn't fail the
+ * task. Needs a `Test` gate whose command takes `{tests}`; without one the
+ * check is skipped. Roles opt in with `success.redPhase` (test-writer does).
+ *
+ * On a rerun — `/waves-run` of the task, `/waves-continue` after
+ * `/waves-invalidate` without `--revert`, a fix cycle — the implementation
+ * may already be there and the tests rightly pass. Once an implementation
+ * task downstream of the test-writer has a commit on the branch, the check
+ * is skipped and recorded as `skipped`.
+ */
+
+import { runShellCheck, shellQuote, summarizeGateOutput } from "./checks.js";
+import { taskCommits } from "./invalidation.js";
+import type { CheckResult, TddViolation } from "./types.js";
+
+/** The implementation isn't there yet: the right reason to fail. */
+const MISSING_IMPLEMENTATION = [
+	/Cannot find module/i,
+	/ERR_MODULE_NOT_FOUND/,
+	/Cannot find package/i,
+	/Failed to (?:resolve|load) (?:import|url)/i,
+	/does not provide an export named/,
+	/is not exported by/,
+	/has no exported member/,
+	/error TS2(?:305|307|724)\b/,
+	/ModuleNotFoundError|No module named/,
+	/ImportError: cannot import name/,
+	/unresolved import|error\[E043[23]\]/,
+];
+
+/** The test file itself is broken: it can't be parsed or loaded. */
+const BROKEN_TEST_FILE = [
+	/\bSyntaxError\b/,
+	/\bIndentationError\b|\bTabError\b/,
+	/error TS1\d{3}\b/,
+	/Transform failed|Unterminated string|Unexpected token|Parse error/i,
+];
+
+/** A test ran and failed. */
+const ASSERTION_FAILURE = [
+	/AssertionError|AssertError/,
+	/\bassert(?:ion)?\s+failed\b/i,
+	/\bexpect(?:ed)?\(/i,
+	/\bExpected\b[\s\S]{0,200}\b(?:Received|Actual|to\s)/,
+	/panicked at|assertion `left == right` failed/,
+	/^\s*not ok \d+/m,
+];
+
+/** Runtime errors that, outside any failing test, mean the file crashed while loading. */
+const RUNTIME_ERROR = /\b(?:ReferenceError|TypeError|RangeError|NameError|AttributeError|Error):/;
+
+/**
+ * The test command for `testFiles`: the `Test` gate with `{tests}` filled in.
+ * Null without a gate or files, or if the gate can't be narrowed to files.
+ */
+export function redPhaseCommand(testCommand: string | undefined, testFiles: string[]): string | null {
+	if (!testCommand?.includes("{tests}") || testFiles.length === 0) return null;
+	return testCommand.replace(/\{tests\}/g, testFiles.map(shellQuote).join(" ")).trim();
+}
+
+/** First output line matching one of `patterns`. */
+function matchingLine(output: string, patterns: RegExp[]): string | null {
+	if (!patterns.some((p) => p.test(output))) return null;
+	const lines = output.split("\n");
+	const line = lines.find((l) => patterns.some((p) => p.test(l)));
+	return (line ?? lines.find((l) => l.trim()) ?? "").trim().slice(0, 200);
+}
+
+/** Why a red-phase run isn't a proper red, or null if the tests fail as they should. */
+export function classifyRedRun(result: CheckResult): Omit<TddViolation, "command" | "output"> | null {
+	const { output } = result;
+	const counts = summarizeGateOutput("test", output);
+	if (result.timedOut) return { kind: "unclear", reason: "the test command timed out" };
+	if (result.exitCode === 0) {
+		return { kind: "passing", reason: counts?.passed !== undefined ? `${counts.passed} passed, none failed` : "the test command exited with 0" };
+	}
+
+	// Missing implementation first: Node reports a missing ESM export as a SyntaxError
+	if (matchingLine(output, MISSING_IMPLEMENTATION)) return null;
+	const broken = matchingLine(output, BROKEN_TEST_FILE);
+	if (broken) return { kind: "crash", reason: broken };
+	if (matchingLine(output, ASSERTION_FAILURE) || (counts?.failed ?? 0) > 0) return null;
+	const crashed = matchingLine(output, [RUNTIME_ERROR]);
+	if (crashed) return { kind: "crash", reason: `crashed before any test ran: ${crashed}` };
+	return { kind: "unclear", reason: `exited with ${result.exitCode} without a recognizable test failure` };
+}
+
+/** Violations that fail the task; `unclear` and `skipped` are only recorded. */
+export function failsTask(violation: TddViolation | undefined): boolean {
+	return violation !== undefined && violation.kind !== "unclear" && violation.kind !== "skipped";
+}
+
+/** Which of `implementers` have a commit on the branch checked out in `cwd`; none outside a git repo. */
+export function committedImplementers(cwd: string, implementers: string[]): string[] {
+	if (implementers.length === 0) return [];
+	try {
+		return [...new Set(taskCommits(cwd, implementers).map((c) => c.taskId))];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Run the task's test files with `command` (see redPhaseCommand) in `cwd`.
+ * Undefined if they fail as they should.
+ */
+export async function verifyRedPhase(command: string, cwd: string, signal?: AbortSignal): Promise<TddViolation | undefined> {
+	const result = await runShellCheck(command, cwd, signal);
+	const violation = classifyRedRun(result);
+	return violation ? { ...violation, command, output: result.output } : undefined;
+}
+
+/** For the task output, the retry prompt and the execution log. */
+export function formatTddViolation(violation: TddViolation): string {
+	const what = violation.kind === "passing"
+		? "The new tests already pass — they must fail until the implementation exists"
+		: violation.kind === "crash"
+			? "The new tests crash instead of failing — fix the test file so it loads and fails on assertions or the missing implementation"
+			: violation.kind === "skipped"
+				? "Red phase skipped on a rerun"
+				: "The new tests fail for an unrecognized reason";
+	return `${what} (\`${violation.command}\`: ${violation.reason})`;
+}
@@ -0,0 +1,195 @@
+/**
+ * Retry policies — how often and how soon a failed agent run is retried.
+ *
+ * Every run is classified (rate-limit, stall, timeout, infra, failed; fix
+ * cycles are verifier-fail) and retried while both the class limit and the
+ * task's total budget allow it. The project policy comes from
+ * `retry-policy.json` next to the plans; a task's `- **Retry Policy**:` line
+ * (and the older `- **Retries**: N`) overrides it for that task.
+ *
+ * Everything here is pure: the shared task path (task-runner.ts) decides
+ * with these helpers and records each run as a TaskAttempt.
+ */
+
+import { taskLimitReached } from "./budget.js";
+import { loadProjectJson } from "./project-json.js";
+import type { BackoffCurve, FailureClass, RetryPolicy, RetryPolicyOverrides, Task, TaskAttempt } from "./types.js";
+
+export const FAILURE_CLASSES: FailureClass[] = ["rate-limit", "stall", "timeout", "infra", "verifier-fail", "failed"];
+
+export const RETRY_POLICY_FILE = "retry-policy.json";
+
+/**
+ * Pi's internal retries use short delays (2s base); sustained rate limiting
+ * gets longer waits (~60s, 120s, 240s) to let the API quota recover.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: { "rate-limit": 3, stall: 1, timeout: 0, infra: 1, "verifier-fail": 1, failed: 0 },
+	backoff: {
+		"rate-limit": { initialMs: 60_000, factor: 2, maxMs: 240_000, jitter: 0.1 },
+	},
+	budget: 6,
+};
+
+const DEFAULT_CURVE: BackoffCurve = { initialMs: 0, factor: 1, maxMs: 0, jitter: 0 };
+
+// ── Resolve ────────────────────────────────────────────────────────
+
+/** Apply overrides in order over a base policy. */
+export function resolveRetryPolicy(base: RetryPolicy, ...overrides: (RetryPolicyOverrides | undefined)[]): RetryPolicy {
+	const policy: RetryPolicy = {
+		retries: { ...base.retries },
+		backoff: { ...base.backoff },
+		budget: base.budget,
+		...(base.taskLimit ? { taskLimit: base.taskLimit } : {}),
+	};
+	for (const o of overrides) {
+		if (!o) continue;
+		Object.assign(policy.retries, o.retries);
+		for (const [cls, curve] of Object.entries(o.backoff ?? {}) as [FailureClass, Partial<BackoffCurve>][]) {
+			policy.backoff[cls] = { ...DEFAULT_CURVE, ...policy.backoff[cls], ...curve };
+		}
+		if (o.budget !== undefined) policy.budget = o.budget;
+	}
+	return policy;
+}
+
+/**
+ * A task's own overrides. `- **Retries**: N` is shorthand for N retries of
+ * failed and timed-out runs; an explicit `- **Retry Policy**:` wins over it.
+ */
+export function taskRetryOverrides(task: Task): RetryPolicyOverrides[] {
+	const legacy: RetryPolicyOverrides | undefined = task.retries !== undefined
+		? { retries: { failed: task.retries, timeout: task.retries } }
+		: undefined;
+	return [legacy, task.retryPolicy].filter((o): o is RetryPolicyOverrides => o !== undefined);
+}
+
+// ── Decide ─────────────────────────────────────────────────────────
+
+/** The parts of a runner result that decide the failure class. */
+export interface RunOutcome {
+	exitCode: number;
+	timedOut?: boolean;
+	stall?: unknown;
+	infraErrors?: string[];
+}
+
+/**
+ * Why a run failed, or null if it passed. A stall is reported first (the
+ * runner interrupted the agent), then rate limits, timeouts and
+ * infrastructure errors; everything else, including failed checks, is "failed".
+ */
+export function classifyFailure(
+	result: RunOutcome,
+	opts: { rateLimited?: boolean; checksFailed?: boolean } = {},
+): FailureClass | null {
+	if (result.stall) return "stall";
+	if (result.exitCode === 0) return opts.checksFailed ? "failed" : null;
+	if (opts.rateLimited) return "rate-limit";
+	if (result.timedOut) return "timeout";
+	if (result.infraErrors && result.infraErrors.length > 0) return "infra";
+	return "failed";
+}
+
+/** Retries spent so far: every run after the first, except re-verification after a fix and review revisions. */
+export function retriesUsed(attempts: TaskAttempt[]): number {
+	return attempts.filter((a) => a.reason !== "initial" && a.reason !== "re-verify" && a.reason !== "review").length;
+}
+
+/**
+ * Whether another retry for `failure` is allowed: the class limit (at least
+ * `minimum`) and the total budget both have room, and the task's spend cap
+ * isn't reached.
+ */
+export function canRetry(policy: RetryPolicy, attempts: TaskAttempt[], failure: FailureClass, minimum = 0): boolean {
+	const used = attempts.filter((a) => a.reason === failure).length;
+	return used < Math.max(policy.retries[failure], minimum)
+		&& retriesUsed(attempts) < policy.budget
+		&& taskLimitReached(policy.taskLimit, attempts) === null;
+}
+
+/** Wait before the nth retry (1-based) on a curve: initial × factor^(n-1), capped, ± jitter. */
+export function backoffDelay(curve: BackoffCurve | undefined, n: number, random = Math.random): number {
+	if (!curve || curve.initialMs <= 0) return 0;
+	const base = Math.min(curve.initialMs * curve.factor ** (n - 1), curve.maxMs || Infinity);
+	const spread = base * curve.jitter * (random() * 2 - 1);
+	return Math.max(0, Math.round(base + spread));
+}
+
+/** Wait before the next retry of `failure`, given the attempts so far. */
+export function retryDelay(policy: RetryPolicy, attempts: TaskAttempt[], failure: FailureClass, random = Math.random): number {
+	const n = attempts.filter((a) => a.reason === failure).length + 1;
+	return backoffDelay(policy.backoff[failure], n, random);
+}
+
+// ── Markdown ───────────────────────────────────────────────────────
+
+/**
+ * Parse `stall=2, timeout=1, rate-limit=5, budget=4`. Returns an error
+ * message for unknown classes or values that aren't whole numbers.
+ */
+export function parseRetryPolicy(value: string): RetryPolicyOverrides | string {
+	const overrides: RetryPolicyOverrides = {};
+	for (const part of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+		const m = part.match(/^([\w-]+)\s*[=:]\s*(\S+)$/);
+		if (!m) return `"${part}" — expected <class>=<retries>`;
+		const [, key, num] = m;
+		if (!/^\d+$/.test(num)) return `"${part}" — expected a whole number`;
+		if (key === "budget") {
+			overrides.budget = parseInt(num, 10);
+		} else if ((FAILURE_CLASSES as string[]).includes(key)) {
+			overrides.retries = { ...overrides.retries, [key]: parseInt(num, 10) };
+		} else {
+			return `unknown failure class "${key}" — expected ${FAILURE_CLASSES.join(", ")} or budget`;
+		}
+	}
+	return overrides;
+}
+
+/** Inverse of parseRetryPolicy. Backoff curves have no Markdown form and are dropped. */
+export function formatRetryPolicy(overrides: RetryPolicyOverrides): string {
+	const parts = FAILURE_CLASSES
+		.filter((cls) => overrides.retries?.[cls] !== undefined)
+		.map((cls) => `${cls}=${overrides.retries![cls]}`);
+	if (overrides.budget !== undefined) parts.push(`budget=${overrides.budget}`);
+	return parts.join(", ");
+}
+
+// ── Project File ───────────────────────────────────────────────────
+
+/** Unknown keys, failure classes and bad counts or curves in `retry-policy.json`. */
+export function validateRetryOverrides(data: unknown): string[] {
+	if (typeof data !== "object" || data === null || Array.isArray(data)) return ["expected an object"];
+	const errors: string[] = [];
+	const isCount = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+	const { retries, backoff, budget, ...rest } = data as Record<string, any>;
+	for (const key of Object.keys(rest)) {
+		if (key !== "$schema") errors.push(`unknown key "${key}"`);
+	}
+	for (const [cls, n] of Object.entries(retries ?? {})) {
+		if (!(FAILURE_CLASSES as string[]).includes(cls)) errors.push(`retries: unknown failure class "${cls}"`);
+		else if (!isCount(n)) errors.push(`retries.${cls}: expected a whole number`);
+	}
+	for (const [cls, curve] of Object.entries(backoff ?? {})) {
+		if (!(FAILURE_CLASSES as string[]).includes(cls)) {
+			errors.push(`backoff: unknown failure class "${cls}"`);
+			continue;
+		}
+		for (const [key, v] of Object.entries(curve as Record<string, unknown>)) {
+			if (!(key in DEFAULT_CURVE)) errors.push(`backoff.${cls}: unknown key "${key}"`);
+			else if (typeof v !== "number" || v < 0) errors.push(`backoff.${cls}.${key}: expected a non-negative number`);
+		}
+	}
+	if (budget !== undefined && !isCount(budget)) errors.push("budget: expected a whole number");
+	return errors;
+}
+
+/**
+ * The project policy: defaults plus `retry-policy.json` in the project
+ * directory, if present.
+ */
+export function loadRetryPolicy(projectDir: string): RetryPolicy {
+	const overrides = loadProjectJson<RetryPolicyOverrides>(projectDir, RETRY_POLICY_FILE, validateRetryOverrides);
+	return overrides ? resolveRetryPolicy(DEFAULT_RETRY_POLICY, overrides) : DEFAULT_RETRY_POLICY;
+}
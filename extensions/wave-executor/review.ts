@@ -0,0 +1,224 @@
+/**
+ * Review stage — an optional gate between a worker task and its commit.
+ *
+ * Reviewers come from the task's `- **Review**:` line or, for feature tasks,
+ * the feature's `Review:` line (`none` turns it off for one task). Once a
+ * worker task has passed its checks and gates, each reviewer agent reads the
+ * task's uncommitted diff read-only and reports findings as JSON. Critical
+ * findings block: they go back to the worker for one revision round (checks
+ * and gates run again), then the reviewers look again. Still blocked after
+ * that, the task fails and nothing is committed. A reviewer that fails or
+ * reports nothing parseable doesn't block; the review is recorded as "error".
+ */
+
+import { execFileSync } from "node:child_process";
+import { extractFinalOutput, runSubagent, taskLogFile } from "./helpers.js";
+import { agentRole } from "./roles.js";
+import type { Feature, ReviewFinding, ReviewSeverity, Task, TaskAttempt, TaskResult, TaskReview, TokenUsage } from "./types.js";
+import { addUsage } from "./usage.js";
+
+/** The diff in a reviewer's prompt is cut off after this many characters. */
+const MAX_DIFF_CHARS = 60_000;
+
+const REVIEW_TIMEOUT_MS = 10 * 60_000;
+
+export const SEVERITIES: ReviewSeverity[] = ["critical", "warning", "suggestion"];
+
+/**
+ * Reviewer agents for a task: its own `Review:` list, else its feature's.
+ * Only tasks whose role writes implementation files (workers) are reviewed.
+ */
+export function taskReviewers(task: Task, feature?: Feature): string[] {
+	const role = agentRole(task.agent);
+	if (role.readOnly || role.writes !== "implementation") return [];
+	return task.review ?? feature?.review ?? [];
+}
+
+// ── Prompt ─────────────────────────────────────────────────────────
+
+/** Uncommitted changes in `cwd`, new files included. */
+export function taskDiff(cwd: string): string {
+	const git = (args: string[]) => {
+		try {
+			return execFileSync("git", args, { cwd, encoding: "utf-8", timeout: 60_000, stdio: ["ignore", "pipe", "pipe"], maxBuffer: 64 * 1024 * 1024 });
+		} catch (e: any) {
+			// `git diff --no-index` exits 1 when the files differ
+			return typeof e.stdout === "string" ? e.stdout : "";
+		}
+	};
+	const untracked = git(["ls-files", "--others", "--exclude-standard"]).split("\n").filter(Boolean);
+	return [
+		git(["diff", "HEAD"]),
+		...untracked.map((f) => git(["diff", "--no-index", "--", "/dev/null", f])),
+	].join("").trim();
+}
+
+export function buildReviewPrompt(task: Task, diff: string): string {
+	const shown = diff.length > MAX_DIFF_CHARS
+		? `${diff.slice(0, MAX_DIFF_CHARS)}\n... (diff truncated — read the changed files)`
+		: diff;
+	return [
+		`Review the changes made for task **${task.id}: ${task.title}** before they are committed.`,
+		"",
+		"## Task",
+		`Files: ${task.files.join(", ") || "(none)"}`,
+		task.description,
+		"",
+		"## Diff",
+		"```diff",
+		shown || "(no changes)",
+		"```",
+		"",
+		"## Report",
+		"Do not modify any files. End your answer with every finding in one JSON block:",
+		"```json",
+		`{"findings": [{"severity": "critical", "file": "src/auth.ts", "line": 42, "message": "Password compared with =="}]}`,
+		"```",
+		`Severity is one of ${SEVERITIES.map((s) => `"${s}"`).join(", ")}. Use "critical" only for problems that must be fixed before this is committed: bugs, security holes, behavior that contradicts the task. The worker gets one round to fix critical findings. An empty list approves the change.`,
+	].join("\n");
+}
+
+// ── Findings ───────────────────────────────────────────────────────
+
+function isSeverity(value: unknown): value is ReviewSeverity {
+	return (SEVERITIES as unknown[]).includes(value);
+}
+
+/** Findings from a reviewer's final answer, or null if it has no valid findings block. */
+export function parseReviewFindings(output: string, reviewer: string): ReviewFinding[] | null {
+	const blocks = [...output.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)].map((m) => m[1]);
+	for (const text of [...blocks.reverse(), output]) {
+		let data: unknown;
+		try {
+			data = JSON.parse(text.trim());
+		} catch {
+			continue;
+		}
+		if (typeof data !== "object" || data === null) continue;
+		const findings = (data as Record<string, unknown>).findings;
+		if (!Array.isArray(findings)) continue;
+		return findings.flatMap((entry: unknown): ReviewFinding[] => {
+			if (typeof entry !== "object" || entry === null) return [];
+			const f = entry as Record<string, unknown>;
+			if (typeof f.message !== "string") return [];
+			return [{
+				severity: isSeverity(f.severity) ? f.severity : "warning",
+				reviewer,
+				message: f.message,
+				...(typeof f.file === "string" && f.file ? { file: f.file } : {}),
+				...(typeof f.line === "number" && Number.isInteger(f.line) ? { line: f.line } : {}),
+			}];
+		});
+	}
+	return null;
+}
+
+export function blockingFindings(findings: ReviewFinding[]): ReviewFinding[] {
+	return findings.filter((f) => f.severity === "critical");
+}
+
+/** `- [critical] src/auth.ts:42 — Password compared with == (reviewer)` per finding. */
+export function formatFindings(findings: ReviewFinding[]): string {
+	return findings.map((f) => {
+		const where = f.file ? ` ${f.file}${f.line !== undefined ? `:${f.line}` : ""}` : "";
+		return `- [${f.severity}]${where} — ${f.message} (${f.reviewer})`;
+	}).join("\n");
+}
+
+/** Appended to the worker's prompt for the revision round. */
+export function buildRevisionContext(findings: ReviewFinding[]): string {
+	return [
+		"",
+		"",
+		"⚠️ REVIEW: Your changes for this task are done but were not committed — a code review found these blocking problems:",
+		formatFindings(findings),
+		"",
+		"Fix them in the task's files. Your previous work is on disk; keep what works and keep the tests passing.",
+	].join("\n");
+}
+
+// ── Review ─────────────────────────────────────────────────────────
+
+export interface ReviewOptions {
+	task: Task;
+	reviewers: string[];
+	/** The passed worker result under review */
+	result: Omit<TaskResult, "durationMs">;
+	cwd: string;
+	protectedPaths: string[];
+	signal?: AbortSignal;
+	logDir?: string;
+	/** Run the worker again with `context` appended to its prompt, continuing `previousAttempts`. */
+	revise: (context: string, previousAttempts: TaskAttempt[]) => Promise<Omit<TaskResult, "durationMs">>;
+}
+
+/**
+ * Review a passed worker task, with one revision round for blocking
+ * findings. Returns the task result to commit (or fail) with `review` set.
+ */
+export async function reviewTask(opts: ReviewOptions): Promise<Omit<TaskResult, "durationMs">> {
+	const { task, reviewers, result, cwd, protectedPaths, signal, logDir, revise } = opts;
+	const start = Date.now();
+	let usage: TokenUsage | undefined;
+
+	const round = async (n: number) => {
+		const prompt = buildReviewPrompt(task, taskDiff(cwd));
+		const findings: ReviewFinding[] = [];
+		const errors: string[] = [];
+		for (const reviewer of reviewers) {
+			const logFile = logDir ? taskLogFile(logDir, `${task.id}-${reviewer}${n > 1 ? `-${n}` : ""}`) : undefined;
+			const run = await runSubagent(
+				reviewer, prompt, cwd, signal,
+				{ readOnly: true, protectedPaths, safeBashOnly: true },
+				REVIEW_TIMEOUT_MS, logFile, [`Review: ${task.id} — ${task.title}`, `Round: ${n}`],
+			);
+			usage = addUsage(usage, run.usage);
+			const parsed = run.exitCode === 0 ? parseReviewFindings(extractFinalOutput(run.stdout), reviewer) : null;
+			if (parsed) findings.push(...parsed);
+			else errors.push(run.exitCode !== 0 ? `${reviewer} exited with code ${run.exitCode}` : `${reviewer} reported no findings block`);
+		}
+		return { findings, errors };
+	};
+
+	const done = (
+		base: Omit<TaskResult, "durationMs">,
+		review: Omit<TaskReview, "reviewers" | "durationMs" | "usage">,
+	): Omit<TaskResult, "durationMs"> => {
+		const full: TaskReview = { ...review, reviewers, durationMs: Date.now() - start, ...(usage ? { usage } : {}) };
+		const total = addUsage(base.usage, usage);
+		const blocked = full.status === "blocked";
+		return {
+			...base,
+			...(blocked ? {
+				exitCode: base.exitCode || 1,
+				output: `${base.output}\n\n⚠️ REVIEW BLOCKED${full.reason ? ` (${full.reason})` : ""}:\n${formatFindings(blockingFindings(full.findings))}`,
+			} : {}),
+			...(total ? { usage: total } : {}),
+			review: full,
+		};
+	};
+
+	const first = await round(1);
+	const blocking = blockingFindings(first.findings);
+	if (blocking.length === 0 || signal?.aborted) {
+		return done(result, {
+			status: blocking.length > 0 ? "blocked" : first.errors.length > 0 ? "error" : "approved",
+			findings: first.findings,
+			...(first.errors.length > 0 ? { reason: first.errors.join("; ") } : {}),
+		});
+	}
+
+	// One revision round: the worker fixes the blocking findings, then the reviewers look again
+	const revised = await revise(buildRevisionContext(blocking), result.attempts ?? []);
+	if (revised.exitCode !== 0) {
+		return done(revised, { status: "blocked", findings: first.findings, revised: blocking, reason: "the revision failed" });
+	}
+	const second = await round(2);
+	const still = blockingFindings(second.findings);
+	return done(revised, {
+		status: still.length > 0 ? "blocked" : second.errors.length > 0 ? "error" : "approved",
+		findings: second.findings,
+		revised: blocking,
+		...(second.errors.length > 0 ? { reason: second.errors.join("; ") } : {}),
+	});
+}
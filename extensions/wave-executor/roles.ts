@@ -0,0 +1,281 @@
+/**
+ * Agent roles — how the executor runs each kind of agent.
+ *
+ * A task's `Agent:` names an agent file; the agent's role decides the task
+ * prompt, which files the agent may write, whether its shell is restricted,
+ * what counts as success and the suffix of its task log. worker, test-writer
+ * and wave-verifier are built in. Projects add roles, or change the built-in
+ * ones, with `roles.json` next to the plans:
+ *
+ *   {
+ *     "refactor": { "extends": "worker", "prompt": "prompts/refactor.md" },
+ *     "security-reviewer": { "extends": "wave-verifier", "logSuffix": "-security" }
+ *   }
+ *
+ * A role starts from the role it extends (the built-in role of the same
+ * name, else worker) and overrides any of its fields; `prompt` is a template
+ * file relative to the project directory, and the log suffix of a new role
+ * defaults to `-<name>`. An agent without a role runs as a worker.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { loadProjectJson, projectFileError } from "./project-json.js";
+import type { AgentRole, FileAccessRules, Plan, RoleRegistry, RoleSuccess, Task } from "./types.js";
+
+export const ROLES_FILE = "roles.json";
+
+// ── Built-in Roles ─────────────────────────────────────────────────
+
+const WORKER_PROMPT = `You are implementing code as part of a TDD plan. Tests may have already been written — your job is to make them pass.
+{{context}}
+## Spec Reference
+{{spec}}
+
+## Your Task
+**{{id}}: {{title}}**
+Files: {{files}}
+{{specRefs}}{{tests}}
+
+{{description}}
+
+IMPORTANT:
+- Only modify the IMPLEMENTATION files listed for this task
+- Do NOT modify test files
+- Your code must make the existing tests pass
+- Follow the spec requirements exactly
+- Use exact field names, column names, and type names from the Data Schemas section above — they are authoritative and override any names in the spec
+- Do not touch files outside your task scope
+- You may be working in a git worktree. Use relative paths.
+- Work continuously — do NOT stop to summarize progress or wait for feedback`;
+
+const TEST_WRITER_PROMPT = `You are writing tests as part of a TDD implementation plan.
+{{context}}
+## Spec Reference
+{{spec}}
+
+## Your Task
+**{{id}}: {{title}}**
+Files to create/modify: {{files}}
+{{specRefs}}
+
+{{description}}
+
+IMPORTANT:
+- Only create/modify TEST files listed for this task
+- Tests should FAIL right now (implementation doesn't exist yet) — the orchestrator runs them after you finish and checks they fail on assertions or the missing implementation, not on syntax errors
+- Tests define the expected behavior — they are the contract
+- Follow existing test patterns in the project
+- Do not touch implementation files
+- Use exact field names, column names, and type names from the Data Schemas section above
+- You may be working in a git worktree. Use relative paths.
+- Work continuously — do NOT stop to summarize progress or wait for feedback`;
+
+const VERIFIER_PROMPT = `You are verifying completed work.
+{{context}}
+## Spec Reference
+{{spec}}
+
+## Your Task
+**{{id}}: {{title}}**
+Files to check: {{files}}
+{{specRefs}}
+{{requiredFiles}}
+{{description}}
+
+IMPORTANT — verify in this order:
+1. **File existence** — check that ALL required files listed above actually exist on disk. If ANY are missing, immediately report status "fail" with the list of missing files. Do NOT proceed to tests.
+2. **Syntax/compilation** — run the compiler/linter (e.g., \`cargo build\`, \`npx tsc --noEmit\`). If it fails, report "fail".
+3. **Tests** — run the test suite. If tests fail, report "fail".
+4. **Completeness** — verify the implementation matches the task descriptions (correct types, methods, signatures).
+- Do NOT modify any files — only read and run checks
+- If working in a git worktree, run tests relative to the worktree root
+- Work continuously — do NOT stop to summarize progress or wait for feedback`;
+
+export const BUILTIN_ROLES: RoleRegistry = {
+	"worker": {
+		prompt: WORKER_PROMPT,
+		writes: "implementation",
+		readOnly: false,
+		safeBashOnly: false,
+		success: { gates: true, declaredFiles: true, fixCycles: false, redPhase: false },
+		logSuffix: "-impl",
+	},
+	"test-writer": {
+		prompt: TEST_WRITER_PROMPT,
+		writes: "files",
+		readOnly: false,
+		safeBashOnly: true,
+		success: { gates: false, declaredFiles: true, fixCycles: false, redPhase: true },
+		logSuffix: "-test",
+	},
+	"wave-verifier": {
+		prompt: VERIFIER_PROMPT,
+		writes: "files",
+		readOnly: true,
+		safeBashOnly: false, // needs to run test commands
+		success: { gates: false, declaredFiles: false, fixCycles: true, redPhase: false },
+		logSuffix: "-verify",
+	},
+};
+
+let activeRoles: RoleRegistry = BUILTIN_ROLES;
+
+/** Set the registry tasks are run with. */
+export function setRoleRegistry(registry: RoleRegistry): void {
+	activeRoles = registry;
+}
+
+export function roleRegistry(): RoleRegistry {
+	return activeRoles;
+}
+
+/** The role of an agent; agents without one run as workers. */
+export function agentRole(agent: string | undefined, registry: RoleRegistry = activeRoles): AgentRole {
+	return registry[agent || "worker"] ?? registry.worker ?? BUILTIN_ROLES.worker;
+}
+
+/** Agents named in `plan` that have no role, in plan order. */
+export function agentsWithoutRole(plan: Plan, registry: RoleRegistry = activeRoles): string[] {
+	const agents = plan.waves.flatMap((w) => [...w.foundation, ...w.features.flatMap((f) => f.tasks), ...w.integration])
+		.map((t) => t.agent || "worker");
+	return [...new Set(agents)].filter((a) => !registry[a]);
+}
+
+// ── Prompt and Sandbox ─────────────────────────────────────────────
+
+export interface RolePromptContext {
+	task: Task;
+	/** Spec sections of the task's spec refs */
+	specContext: string;
+	/** Project Structure, Environment and Data Schemas blocks */
+	contextBlocks: string;
+	/** Files earlier tasks of the feature or wave must have created (for verifiers) */
+	requiredFiles?: string[];
+}
+
+const PLACEHOLDERS: Record<string, (ctx: RolePromptContext) => string> = {
+	context: (ctx) => ctx.contextBlocks,
+	spec: (ctx) => ctx.specContext,
+	id: (ctx) => ctx.task.id,
+	title: (ctx) => ctx.task.title,
+	description: (ctx) => ctx.task.description,
+	files: (ctx) => ctx.task.files.join(", ") || "(none)",
+	specRefs: (ctx) => (ctx.task.specRefs.length > 0 ? `Spec refs: ${ctx.task.specRefs.join(", ")}` : ""),
+	tests: (ctx) => (ctx.task.testFiles.length > 0
+		? `\nTests to satisfy: ${ctx.task.testFiles.join(", ")}\nYour implementation MUST make these tests pass.`
+		: ""),
+	requiredFiles: (ctx) => (ctx.requiredFiles && ctx.requiredFiles.length > 0
+		? `\n## Required Files (MUST ALL EXIST)\nThese files should have been created by prior tasks. Verify EVERY one exists before running tests:\n${ctx.requiredFiles.map((f) => `- \`${f}\``).join("\n")}\n`
+		: ""),
+};
+
+/** The role's prompt template filled in for a task. */
+export function buildRolePrompt(role: AgentRole, ctx: RolePromptContext): string {
+	return role.prompt.replace(/\{\{(\w+)\}\}/g, (m, name: string) => PLACEHOLDERS[name]?.(ctx) ?? m);
+}
+
+/** Files a task of this role may write: none if read-only. */
+export function roleWriteSet(role: AgentRole, task: Task): string[] {
+	if (role.readOnly) return [];
+	return role.writes === "implementation"
+		? [...task.files.filter((f) => !task.testFiles.includes(f)), ".env.test"]
+		: [...task.files];
+}
+
+export function roleFileRules(role: AgentRole, task: Task, protectedPaths: string[]): FileAccessRules {
+	return role.readOnly
+		? { readOnly: true, protectedPaths, safeBashOnly: role.safeBashOnly }
+		: { allowWrite: roleWriteSet(role, task), protectedPaths, safeBashOnly: role.safeBashOnly };
+}
+
+// ── Project File ───────────────────────────────────────────────────
+
+const ROLE_KEYS = ["extends", "prompt", "writes", "readOnly", "safeBashOnly", "success", "logSuffix"];
+const SUCCESS_KEYS: (keyof RoleSuccess)[] = ["gates", "declaredFiles", "fixCycles", "redPhase"];
+
+/** Bad keys, `extends` targets and values in a parsed `roles.json`; prompt files are checked on load. */
+export function validateRoles(data: unknown): string[] {
+	if (typeof data !== "object" || data === null || Array.isArray(data)) return ["expected an object"];
+	const errors: string[] = [];
+	const defined = new Set(Object.keys(BUILTIN_ROLES));
+	for (const [name, role] of Object.entries(data as Record<string, unknown>)) {
+		if (name === "$schema") continue;
+		if (typeof role !== "object" || role === null || Array.isArray(role)) {
+			errors.push(`${name}: expected an object`);
+			continue;
+		}
+		const r = role as Record<string, unknown>;
+		for (const key of Object.keys(r)) {
+			if (!ROLE_KEYS.includes(key)) errors.push(`${name}: unknown key "${key}"`);
+		}
+		if (r.extends !== undefined && !(typeof r.extends === "string" && defined.has(r.extends))) {
+			errors.push(`${name}.extends: expected a built-in role or one defined above (${[...defined].join(", ")})`);
+		}
+		if (r.prompt !== undefined && (typeof r.prompt !== "string" || !r.prompt)) errors.push(`${name}.prompt: expected a template file path`);
+		if (r.writes !== undefined && r.writes !== "files" && r.writes !== "implementation") {
+			errors.push(`${name}.writes: expected "files" or "implementation"`);
+		}
+		for (const key of ["readOnly", "safeBashOnly"]) {
+			if (r[key] !== undefined && typeof r[key] !== "boolean") errors.push(`${name}.${key}: expected true or false`);
+		}
+		if (r.logSuffix !== undefined && (typeof r.logSuffix !== "string" || /[\\/]/.test(r.logSuffix))) {
+			errors.push(`${name}.logSuffix: expected a string without slashes`);
+		}
+		if (r.success !== undefined) {
+			if (typeof r.success !== "object" || r.success === null || Array.isArray(r.success)) {
+				errors.push(`${name}.success: expected an object`);
+			} else {
+				for (const [key, v] of Object.entries(r.success)) {
+					if (!(SUCCESS_KEYS as string[]).includes(key)) errors.push(`${name}.success: unknown key "${key}"`);
+					else if (typeof v !== "boolean") errors.push(`${name}.success.${key}: expected true or false`);
+				}
+			}
+		}
+		defined.add(name);
+	}
+	return errors;
+}
+
+/** Placeholders in a prompt template that aren't filled in. */
+function unknownPlaceholders(template: string): string[] {
+	return [...template.matchAll(/\{\{(\w+)\}\}/g)].map((m) => m[1]).filter((name) => !PLACEHOLDERS[name]);
+}
+
+/**
+ * The project's roles: the built-in ones plus `roles.json` in the project
+ * directory, if present. A prompt template it names must exist and use only
+ * known placeholders.
+ */
+export function loadRoleRegistry(projectDir: string): RoleRegistry {
+	const data = loadProjectJson<Record<string, any>>(projectDir, ROLES_FILE, validateRoles);
+	if (!data) return BUILTIN_ROLES;
+	const errors: string[] = [];
+	const registry: RoleRegistry = { ...BUILTIN_ROLES };
+	for (const [name, r] of Object.entries(data)) {
+		if (name === "$schema") continue;
+		const builtin = BUILTIN_ROLES[name];
+		const base = registry[r.extends ?? (builtin ? name : "worker")];
+		let prompt = base.prompt;
+		if (r.prompt !== undefined) {
+			const promptFile = path.resolve(projectDir, r.prompt);
+			try {
+				prompt = fs.readFileSync(promptFile, "utf-8");
+			} catch {
+				errors.push(`${name}.prompt: can't read ${r.prompt}`);
+			}
+			const unknown = unknownPlaceholders(prompt);
+			if (unknown.length > 0) errors.push(`${name}.prompt: unknown placeholder${unknown.length === 1 ? "" : "s"} ${unknown.map((p) => `{{${p}}}`).join(", ")}`);
+		}
+		registry[name] = {
+			prompt,
+			writes: r.writes ?? base.writes,
+			readOnly: r.readOnly ?? base.readOnly,
+			safeBashOnly: r.safeBashOnly ?? base.safeBashOnly,
+			success: { ...base.success, ...r.success },
+			logSuffix: r.logSuffix ?? builtin?.logSuffix ?? `-${name}`,
+		};
+	}
+	if (errors.length > 0) throw projectFileError(ROLES_FILE, errors);
+	return registry;
+}
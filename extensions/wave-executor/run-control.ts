@@ -0,0 +1,173 @@
+/**
+ * Run control — backs `/waves-stop`, `/waves-abort`, `/waves-pause`,
+ * `/waves-resume` and `/waves-cancel <task-id>`.
+ *
+ * One RunControl per execution, registered while the run is active. The
+ * executors ask it before starting each task (`admit`) and run each agent
+ * under its task signal:
+ *   - stop: running tasks finish; tasks not yet started are skipped
+ *   - abort: every agent is killed now, worktrees are cleaned up
+ *   - pause: tasks waiting for a slot hold until resume (or stop/abort)
+ *   - cancel: one task is killed (or never started) and counts as skipped,
+ *     so its dependents are skipped too
+ *
+ * A budget cap reached (see budget.ts) acts like stop for tasks not yet started.
+ *
+ * Task states are written as tasks end, so every action leaves a state.json
+ * that `/waves-continue` picks up; skipped and cancelled tasks run again.
+ */
+
+export type RunControlAction = "stop" | "abort" | "pause" | "resume" | "cancel";
+
+export interface RunControl {
+	/** Aborted by `abort()` — every agent of the run listens to it. */
+	readonly signal: AbortSignal;
+	/** A graceful stop was requested. */
+	readonly stopping: boolean;
+	readonly paused: boolean;
+	stop(): void;
+	abort(): void;
+	pause(): void;
+	resume(): void;
+	/** Cancel a task: kill its agent if running, skip it if not started. False if unknown or already ended. */
+	cancel(taskId: string): boolean;
+	isCancelled(taskId: string): boolean;
+	/** Signal for one task's agents: aborted by `abort()` or by cancelling the task. */
+	taskSignal(taskId: string): AbortSignal;
+	/**
+	 * Called before a task starts. Waits while paused; resolves with the skip
+	 * reason (task output) if the task must not start, or null to go ahead.
+	 */
+	admit(taskId: string): Promise<string | null>;
+	/** Mark a task as ended — it can no longer be cancelled. */
+	finish(taskId: string): void;
+}
+
+/**
+ * Control for a run of `taskIds` (the tasks that may be cancelled).
+ * `exhausted` reports a reached budget cap; tasks are skipped while it does.
+ */
+export function createRunControl(taskIds: Iterable<string>, exhausted?: () => string | null): RunControl {
+	const known = new Set(taskIds);
+	const controller = new AbortController();
+	const taskControllers = new Map<string, AbortController>();
+	const cancelled = new Set<string>();
+	const finished = new Set<string>();
+	let stopping = false;
+	let paused = false;
+	let waiters: (() => void)[] = [];
+
+	const wake = () => {
+		const pending = waiters;
+		waiters = [];
+		for (const w of pending) w();
+	};
+	controller.signal.addEventListener("abort", wake);
+
+	const taskController = (taskId: string) => {
+		let c = taskControllers.get(taskId);
+		if (!c) {
+			c = new AbortController();
+			if (controller.signal.aborted) c.abort();
+			else controller.signal.addEventListener("abort", () => c!.abort(), { once: true });
+			taskControllers.set(taskId, c);
+		}
+		return c;
+	};
+
+	return {
+		signal: controller.signal,
+		get stopping() { return stopping; },
+		get paused() { return paused; },
+		stop() {
+			stopping = true;
+			wake();
+		},
+		abort() {
+			controller.abort();
+		},
+		pause() {
+			paused = true;
+		},
+		resume() {
+			paused = false;
+			wake();
+		},
+		cancel(taskId) {
+			if (!known.has(taskId) || finished.has(taskId)) return false;
+			cancelled.add(taskId);
+			taskController(taskId).abort();
+			wake();
+			return true;
+		},
+		isCancelled(taskId) {
+			return cancelled.has(taskId);
+		},
+		taskSignal(taskId) {
+			return taskController(taskId).signal;
+		},
+		async admit(taskId) {
+			while (paused && !stopping && !controller.signal.aborted && !cancelled.has(taskId)) {
+				await new Promise<void>((resolve) => waiters.push(resolve));
+			}
+			if (cancelled.has(taskId)) return CANCELLED_OUTPUT;
+			if (controller.signal.aborted) return "Skipped: execution aborted";
+			if (stopping) return "Skipped: execution stopped";
+			const reached = exhausted?.();
+			return reached ? `Skipped: ${reached}` : null;
+		},
+		finish(taskId) {
+			finished.add(taskId);
+		},
+	};
+}
+
+// ── Active Run ─────────────────────────────────────────────────────
+
+let active: RunControl | null = null;
+
+/** Register the control of the running execution (null when it ends). */
+export function setActiveRunControl(control: RunControl | null): void {
+	active = control;
+}
+
+export function activeRunControl(): RunControl | null {
+	return active;
+}
+
+/** Apply a run-control command to the active execution and describe the outcome. */
+export function runControlCommand(action: RunControlAction, taskId?: string): string {
+	const control = active;
+	if (!control) return "No wave execution is running.";
+
+	switch (action) {
+		case "stop":
+			control.stop();
+			return "⏹ Stopping — running tasks will finish, nothing new starts. `/waves-continue` resumes from the saved state.";
+		case "abort":
+			control.abort();
+			return "🛑 Aborting — agents are being killed and worktrees cleaned up. `/waves-continue` resumes from the saved state.";
+		case "pause":
+			if (control.paused) return "Execution is already paused. `/waves-resume` to continue.";
+			control.pause();
+			return "⏸ Paused — running tasks finish, no new task starts until `/waves-resume`.";
+		case "resume":
+			if (!control.paused) return "Execution is not paused.";
+			control.resume();
+			return "▶ Resumed.";
+		case "cancel":
+			if (!taskId) return "Usage: `/waves-cancel <task-id>`";
+			return control.cancel(taskId)
+				? `✂ Cancelled ${taskId} — it and its dependents are skipped. \`/waves-continue\` runs them again later.`
+				: `${taskId} is not a pending or running task of this execution.`;
+	}
+}
+
+// ── Results ────────────────────────────────────────────────────────
+
+export const CANCELLED_OUTPUT = "Skipped: cancelled (/waves-cancel)";
+
+/** The result of a task cancelled while it ran: it counts as skipped, and nothing is committed. */
+export function cancelledResult<T extends { exitCode: number; output: string }>(result: T): T {
+	return { ...result, exitCode: -1, output: `${CANCELLED_OUTPUT}\n${result.output}` };
+}
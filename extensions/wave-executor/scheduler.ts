@@ -0,0 +1,170 @@
+/**
+ * Wave scheduler — one pool of agent slots for the whole wave.
+ *
+ * Every task, in every phase and feature, takes a slot from the same pool
+ * before its agent starts, so `maxConcurrency` bounds the number of agents
+ * however many features run side by side. Waiting tasks are started in order
+ * of their remaining critical path (estimated duration of the longest chain
+ * of dependents), so the longest feature DAG never waits behind short ones.
+ *
+ * Tasks start as soon as their own dependencies have finished (runWhenReady)
+ * rather than level by level.
+ */
+
+import type { Task } from "./types.js";
+
+// ── Slot Pool ──────────────────────────────────────────────────────
+
+export interface SlotPool {
+	readonly size: number;
+	/** Slots in use. */
+	readonly running: number;
+	/** Callers waiting for a slot. */
+	readonly waiting: number;
+	/**
+	 * Wait for a free slot. Higher priority goes first; equal priorities in
+	 * arrival order. Resolves with the function that releases the slot.
+	 */
+	acquire(priority?: number): Promise<() => void>;
+}
+
+export function createSlotPool(size: number): SlotPool {
+	const limit = Math.max(1, size);
+	let running = 0;
+	const queue: { priority: number; grant: () => void }[] = [];
+
+	const release = () => {
+		running--;
+		const next = queue.shift();
+		if (next) {
+			running++;
+			next.grant();
+		}
+	};
+	const releaser = () => {
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			release();
+		};
+	};
+
+	return {
+		size: limit,
+		get running() { return running; },
+		get waiting() { return queue.length; },
+		acquire(priority = 0) {
+			if (running < limit && queue.length === 0) {
+				running++;
+				return Promise.resolve(releaser());
+			}
+			return new Promise((resolve) => {
+				const entry = { priority, grant: () => resolve(releaser()) };
+				// Behind every waiter of equal or higher priority
+				const at = queue.findIndex((q) => q.priority < priority);
+				queue.splice(at === -1 ? queue.length : at, 0, entry);
+			});
+		},
+	};
+}
+
+// ── DAG Analysis ───────────────────────────────────────────────────
+
+/** Dependencies of each task that are inside `tasks`. */
+function localDeps(tasks: Task[]): Map<string, string[]> {
+	const ids = new Set(tasks.map((t) => t.id));
+	return new Map(tasks.map((t) => [t.id, t.depends.filter((d) => ids.has(d) && d !== t.id)]));
+}
+
+/**
+ * Remaining critical path of each task: its estimated duration plus the
+ * longest chain of dependents within `tasks`.
+ */
+export function criticalPath(tasks: Task[], estimate: (task: Task) => number): Map<string, number> {
+	const deps = localDeps(tasks);
+	const dependents = new Map<string, Task[]>(tasks.map((t) => [t.id, []]));
+	for (const task of tasks) {
+		for (const d of deps.get(task.id)!) dependents.get(d)!.push(task);
+	}
+
+	const path = new Map<string, number>();
+	const visit = (task: Task, stack: Set<string>): number => {
+		const known = path.get(task.id);
+		if (known !== undefined) return known;
+		if (stack.has(task.id)) return 0; // cycle — reported by plan validation
+		stack.add(task.id);
+		const downstream = dependents.get(task.id)!.map((t) => visit(t, stack));
+		stack.delete(task.id);
+		const total = estimate(task) + Math.max(0, ...downstream);
+		path.set(task.id, total);
+		return total;
+	};
+	for (const task of tasks) visit(task, new Set());
+	return path;
+}
+
+/** Every task's transitive dependencies within `tasks`. */
+function ancestors(tasks: Task[]): Map<string, Set<string>> {
+	const deps = localDeps(tasks);
+	const result = new Map<string, Set<string>>();
+	const visit = (id: string, stack: Set<string>): Set<string> => {
+		const known = result.get(id);
+		if (known) return known;
+		const set = new Set<string>();
+		if (stack.has(id)) return set; // cycle
+		stack.add(id);
+		for (const d of deps.get(id) ?? []) {
+			set.add(d);
+			for (const a of visit(d, stack)) set.add(a);
+		}
+		stack.delete(id);
+		result.set(id, set);
+		return set;
+	};
+	for (const task of tasks) visit(task.id, new Set());
+	return result;
+}
+
+/**
+ * For each task, the tasks in `tasks` that no dependency path orders against
+ * it — they may run at the same time.
+ */
+export function concurrentTasks(tasks: Task[]): Map<string, Set<string>> {
+	const up = ancestors(tasks);
+	return new Map(tasks.map((t) => [
+		t.id,
+		new Set(tasks
+			.filter((o) => o.id !== t.id && !up.get(t.id)!.has(o.id) && !up.get(o.id)!.has(t.id))
+			.map((o) => o.id)),
+	]));
+}
+
+// ── Execution ──────────────────────────────────────────────────────
+
+/**
+ * Run every task as soon as all of its dependencies inside `tasks` have
+ * settled (passed, failed or skipped — `run` decides what a failed
+ * dependency means). Concurrency is up to `run`, typically through a
+ * SlotPool. Results are in the order of `tasks`.
+ */
+export function runWhenReady<R>(tasks: Task[], run: (task: Task) => Promise<R>): Promise<R[]> {
+	const deps = localDeps(tasks);
+	const started = new Map<string, Promise<R>>();
+	const start = (task: Task, stack: Set<string>): Promise<R> => {
+		const existing = started.get(task.id);
+		if (existing) return existing;
+		if (stack.has(task.id)) throw new Error(`Dependency cycle through ${task.id}`);
+		stack.add(task.id);
+		const upstream = deps.get(task.id)!.map((d) => start(tasks.find((t) => t.id === d)!, stack));
+		stack.delete(task.id);
+		const promise = Promise.allSettled(upstream).then(() => run(task));
+		started.set(task.id, promise);
+		return promise;
+	};
+	try {
+		return Promise.all(tasks.map((t) => start(t, new Set())));
+	} catch (e) {
+		return Promise.reject(e);
+	}
+}
@@ -0,0 +1,248 @@
+/**
+ * Shared task-execution path for both executors.
+ *
+ * The executors build the prompt and file rules for a task from its role
+ * (roles.ts); this runs it under the retry policy: each run is classified,
+ * the matching recovery (stall guidance, rate-limit backoff, doctor,
+ * check-failure context) is applied and the task is retried while the policy
+ * allows. Acceptance checks and, for roles that include them, the Environment
+ * gates and the TDD red-phase check (red-phase.ts) run after every clean exit.
+ * Every run is recorded in TaskResult.attempts.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { remainingLimits } from "./budget.js";
+import { failedChecks, formatCheckFailures, formatCheckSummary, runGates, runTaskChecks } from "./checks.js";
+import type { Simulation } from "./dry-run.js";
+import { appendTaskLog, extractFinalOutput, isApiRateLimitError, runSubagent } from "./helpers.js";
+import { committedImplementers, failsTask, formatTddViolation, redPhaseCommand, verifyRedPhase } from "./red-phase.js";
+import { canRetry, classifyFailure, retryDelay } from "./retry-policy.js";
+import type {
+	CheckResult,
+	EnvironmentGates,
+	FailureClass,
+	FileAccessRules,
+	RetryPolicy,
+	Task,
+	TaskAttempt,
+	TaskResult,
+	TddViolation,
+	TokenUsage,
+} from "./types.js";
+import { addUsage, sumUsage } from "./usage.js";
+
+export interface TaskRun {
+	task: Task;
+	agentName: string;
+	prompt: string;
+	cwd: string;
+	fileRules?: FileAccessRules;
+	policy: RetryPolicy;
+	/** Environment gates — only for roles whose success includes them (workers) */
+	gates?: EnvironmentGates;
+	/** The Environment test command — only for roles that check the red phase (test-writers) */
+	redPhase?: string;
+	/** Implementation tasks downstream of this one (redPhaseImplementers); once one is committed, the red phase is skipped. */
+	implementers?: string[];
+	logFile?: string;
+	signal?: AbortSignal;
+	onStallRetry?: (task: Task, reason: string) => void;
+	/** Dry run: checks and gates are recorded, not run */
+	simulation?: Simulation;
+	/** Earlier runs of this task (fix cycles) — numbering and the budget continue from them. */
+	previousAttempts?: TaskAttempt[];
+	/** Reason recorded for the first run here. */
+	reason?: "initial" | "re-verify" | "review";
+}
+
+export async function runTaskAttempts(run: TaskRun): Promise<Omit<TaskResult, "durationMs">> {
+	const { task, agentName, prompt, cwd, fileRules, policy, gates, logFile, signal, onStallRetry, simulation } = run;
+	const logCtx = [`Task: ${task.id} — ${task.title}`, `Role: ${agentName}`, `Files: ${task.files.join(", ") || "(none)"}`];
+	// Plan metadata overrides (`- **Timeout**:`, `- **Model**:`, `- **Tools**:`) apply to every attempt
+	const overrides = { model: task.model, tools: task.tools };
+
+	// Acceptance checks (`- **Check**:`) and the Environment gates, if given:
+	// run by the orchestrator once the agent exits cleanly
+	const runChecks = async (exitCode: number): Promise<CheckResult[]> => {
+		if (exitCode !== 0) return [];
+		if (simulation) {
+			simulation.commands(cwd, task.checks ?? [], gates, task.testFiles);
+			return [];
+		}
+		const results = [
+			...(task.checks?.length ? await runTaskChecks(task.checks, cwd, signal) : []),
+			...await runGates(gates, cwd, signal, task.testFiles),
+		];
+		if (results.length > 0) appendTaskLog(logFile, `\n${formatCheckSummary(results)}`);
+		return results;
+	};
+
+	// Red phase: once the checks pass, the task's new tests must fail — for the right reason.
+	// On a rerun whose implementation is already committed they should pass instead.
+	const runRedPhase = async (exitCode: number, checkResults: CheckResult[]): Promise<TddViolation | undefined> => {
+		const testFiles = simulation ? task.files : task.files.filter((f) => fs.existsSync(path.resolve(cwd, f)));
+		const command = redPhaseCommand(run.redPhase, testFiles);
+		if (exitCode !== 0 || !command || failedChecks(checkResults).length > 0) return undefined;
+		if (simulation) {
+			simulation.note(`✔ Red phase \`${command}\` in \`${cwd}\``);
+			return undefined;
+		}
+		const implemented = committedImplementers(cwd, run.implementers ?? []);
+		if (implemented.length > 0) {
+			const reason = `already implemented by ${implemented.join(", ")}`;
+			appendTaskLog(logFile, `\n⏭ TDD red phase skipped: ${reason}`);
+			return { kind: "skipped", command, reason, output: "" };
+		}
+		const violation = await verifyRedPhase(command, cwd, signal);
+		appendTaskLog(logFile, `\n${violation ? `${failsTask(violation) ? "✗" : "?"} TDD red phase: ${formatTddViolation(violation)}` : `✓ TDD red phase: ${command} fails as expected`}`);
+		return violation;
+	};
+
+	const attempts: TaskAttempt[] = [...(run.previousAttempts ?? [])];
+	let reason: TaskAttempt["reason"] = run.reason ?? "initial";
+	let context = "";
+	let delayMs = 0;
+	// wave-doctor runs aren't attempts but count towards the task's usage
+	let doctorUsage: TokenUsage | undefined;
+
+	while (true) {
+		const started = Date.now();
+		const label = reason === "initial" ? logCtx[0] : `${logCtx[0]} (attempt ${attempts.length + 1}: ${reason})`;
+		// Retries append to the same log file
+		const limits = remainingLimits(policy.taskLimit, attempts);
+		const result = await runSubagent(agentName, prompt + context, cwd, signal, fileRules, task.timeoutMs, logFile, [label, ...logCtx.slice(1)], { ...overrides, limits });
+		const checkResults = await runChecks(result.exitCode);
+		const violation = await runRedPhase(result.exitCode, checkResults);
+		const checksFailed = failedChecks(checkResults).length > 0 || failsTask(violation);
+		const failure = classifyFailure(result, {
+			rateLimited: isApiRateLimitError(result.stderr),
+			checksFailed,
+		});
+		attempts.push({
+			attempt: attempts.length + 1,
+			agent: agentName,
+			reason,
+			exitCode: result.exitCode,
+			durationMs: Date.now() - started,
+			...(delayMs > 0 ? { delayMs } : {}),
+			...(failure ? { failure } : {}),
+			...(result.usage ? { usage: result.usage } : {}),
+		});
+
+		// Failed checks always get one retry, with the command output as context
+		const retry = failure !== null && !signal?.aborted && canRetry(policy, attempts, failure, checksFailed ? 1 : 0);
+		const next = retry ? await recover(failure!, result, checkResults, violation) : null;
+		if (next === null) return taskResult(result, checkResults, violation);
+
+		reason = failure!;
+		context = next.context;
+		delayMs = next.delayMs;
+	}
+
+	/** Prepare the retry of a failed run: wait, fix the environment, or explain what went wrong. Null to give up. */
+	async function recover(
+		failure: FailureClass,
+		result: Awaited<ReturnType<typeof runSubagent>>,
+		checkResults: CheckResult[],
+		violation: TddViolation | undefined,
+	): Promise<{ context: string; delayMs: number } | null> {
+		const n = attempts.filter((a) => a.reason === failure).length + 1;
+		const limit = Math.max(policy.retries[failure], 1);
+
+		// Stall: the runner interrupted an agent stuck in a loop — retry with guidance
+		if (failure === "stall" && result.stall) {
+			onStallRetry?.(task, result.stall.reason);
+			return {
+				context: [
+					`\n\n⚠️ IMPORTANT: A previous attempt at this task got stuck.`,
+					`Reason: ${result.stall.reason}`,
+					`Recent activity before interruption:`,
+					...result.stall.recentActivity.map((a) => `  - ${a}`),
+					`\nYou MUST take a different approach. Do not repeat the same actions.`,
+					`The previous agent's partial work may already be on disk — check what exists before starting.`,
+				].join("\n"),
+				delayMs: 0,
+			};
+		}
+
+		// Infrastructure errors: a doctor fixes the environment, then the task reruns
+		if (failure === "infra") {
+			const problemDesc = (result.infraErrors ?? []).slice(-3).join("\n");
+			const doctorResult = await runSubagent(
+				"wave-doctor",
+				`Fix this infrastructure problem in ${cwd}:\n${problemDesc}`,
+				cwd, signal, undefined, 120_000, // 2 min timeout, no file restrictions
+			);
+			doctorUsage = addUsage(doctorUsage, doctorResult.usage);
+			if (doctorResult.exitCode !== 0) return null;
+			const fix = extractFinalOutput(doctorResult.stdout) || "Environment fixed.";
+			return {
+				context: [
+					`\n\n✅ ENVIRONMENT FIXED: A doctor agent resolved infrastructure issues:`,
+					fix,
+					`\nYour previous code is already on disk. Just verify it works — run the tests.`,
+				].join("\n"),
+				delayMs: 0,
+			};
+		}
+
+		const delay = retryDelay(policy, attempts, failure);
+		if (delay > 0) {
+			console.error(`⏳ Task "${task.title}" failed (${failure}). Waiting ${Math.round(delay / 1000)}s before retry ${n}/${limit}...`);
+			await new Promise((r) => setTimeout(r, delay));
+			if (signal?.aborted) return null;
+		}
+
+		// Rate limits: same prompt once the quota has recovered
+		if (failure === "rate-limit") return { context: "", delayMs: delay };
+
+		const failures = formatCheckFailures(checkResults);
+		return {
+			context: [
+				`\n\n⚠️ IMPORTANT: A previous attempt at this task ${failure === "timeout" ? "timed out" : "failed"} (retry ${n} of ${limit}).`,
+				...(failures ? [`These acceptance checks failed — the orchestrator re-runs them after you finish:`, failures] : []),
+				...(violation && failsTask(violation) ? [
+					`The orchestrator ran your tests before any implementation exists, and they must fail there on assertions or the missing implementation:`,
+					formatTddViolation(violation),
+					"```",
+					violation.output.trim() || "(no output)",
+					"```",
+				] : []),
+				`The previous agent's partial work may already be on disk — check what exists before starting.`,
+			].join("\n"),
+			delayMs: delay,
+		};
+	}
+
+	function taskResult(
+		result: Awaited<ReturnType<typeof runSubagent>>,
+		checkResults: CheckResult[],
+		violation: TddViolation | undefined,
+	): Omit<TaskResult, "durationMs"> {
+		const output = extractFinalOutput(result.stdout);
+		const checkFailures = [
+			formatCheckFailures(checkResults),
+			violation && failsTask(violation) ? `✗ TDD red phase: ${formatTddViolation(violation)}` : "",
+		].filter(Boolean).join("\n\n");
+		const usage = addUsage(sumUsage(attempts.map((a) => a.usage)), doctorUsage);
+		return {
+			id: task.id,
+			title: task.title,
+			agent: agentName,
+			exitCode: checkFailures ? 1 : result.exitCode,
+			output: result.timedOut
+				? `⏰ Task timed out\n${output}`
+				: checkFailures
+					? `${output || "(no output)"}\n\n⚠️ CHECKS FAILED:\n${checkFailures}`
+					: (output || "(no output)"),
+			stderr: result.stderr,
+			timedOut: result.timedOut,
+			...(checkResults.some((r) => !r.gate) ? { checkResults: checkResults.filter((r) => !r.gate) } : {}),
+			...(checkResults.some((r) => r.gate) ? { gateResults: checkResults.filter((r) => r.gate) } : {}),
+			attempts,
+			...(usage ? { usage } : {}),
+			...(violation ? { tddViolation: violation } : {}),
+		};
+	}
+}
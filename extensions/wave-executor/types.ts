@@ -22,6 +22,8 @@ export interface Plan {
 
 export interface Wave {
 	name: string;
+	/** Where the `## Wave N:` header was declared (set by the parser). */
+	source?: SourceLocation;
 	description: string;
 	foundation: Task[];
 	features: Feature[];
@@ -30,7 +32,11 @@ export interface Wave {
 
 export interface Feature {
 	name: string;
+	/** Where the `### Feature:` header was declared (set by the parser). */
+	source?: SourceLocation;
 	files: string[];
+	/** Reviewer agents for the feature's worker tasks (`Review:` under the header). */
+	review?: string[];
 	tasks: Task[];
 }
 
@@ -43,6 +49,138 @@ export interface Task {
 	specRefs: string[];
 	testFiles: string[];
 	description: string;
+	/** Per-task runner overrides from `- **Timeout**:`, `- **Model**:`, `- **Retries**:`
+	 *  and `- **Tools**:`. Unset means the runner default / the agent file's setting. */
+	timeoutMs?: number;
+	model?: string;
+	/** Extra attempts after a failed or timed-out run (default 0). */
+	retries?: number;
+	tools?: string[];
+	/** Shell commands from `- **Check**:` lines; all must exit 0 for the task to pass. */
+	checks?: string[];
+	/** Per-class retry limits and budget from `- **Retry Policy**:`, over the project policy. */
+	retryPolicy?: RetryPolicyOverrides;
+	/** Reviewer agents from `- **Review**:` (worker tasks); empty (`none`) turns off the feature's review. */
+	review?: string[];
+	/** Where the task header was declared (set by the parser). */
+	source?: SourceLocation;
+}
+
+// ── Plan Diagnostics ───────────────────────────────────────────────
+
+/** 1-based position in the plan Markdown. */
+export interface SourceLocation {
+	/** Included file (relative to the project dir) the position is in; unset for the plan file itself. */
+	file?: string;
+	line: number;
+	column: number;
+}
+
+export interface PlanDiagnostic {
+	severity: "error" | "warning";
+	/** Included file the problem is in; unset for the plan file itself. */
+	file?: string;
+	line: number;
+	column: number;
+	message: string;
+}
+
+export interface PlanParseResult {
+	plan: Plan;
+	/** Problems found while parsing. Any "error" means the plan should not be executed. */
+	diagnostics: PlanDiagnostic[];
+}
+
+// ── Retry Policy ───────────────────────────────────────────────────
+
+/** Why an agent run failed, for retry decisions. "failed" is anything else (including failed checks). */
+export type FailureClass = "rate-limit" | "stall" | "timeout" | "infra" | "verifier-fail" | "failed";
+
+export interface BackoffCurve {
+	initialMs: number;
+	/** Multiplier per further retry of the same class. */
+	factor: number;
+	maxMs: number;
+	/** Random spread as a fraction of the delay (0.1 = ±10%). */
+	jitter: number;
+}
+
+export interface RetryPolicy {
+	/** Retries allowed per failure class. */
+	retries: Record<FailureClass, number>;
+	/** Wait before retrying a class; classes without a curve retry immediately. */
+	backoff: Partial<Record<FailureClass, BackoffCurve>>;
+	/** Total retries for one task across all classes. */
+	budget: number;
+	/** Spend cap per task (budget caps): its runs are killed once it's spent, and not retried. */
+	taskLimit?: SpendLimit;
+}
+
+/** Partial policy, from `retry-policy.json` or a task's `- **Retry Policy**:` line. */
+export interface RetryPolicyOverrides {
+	retries?: Partial<Record<FailureClass, number>>;
+	backoff?: Partial<Record<FailureClass, Partial<BackoffCurve>>>;
+	budget?: number;
+}
+
+/** One agent run of a task: the first try, each retry, and the fix and re-verify runs of fix cycles. */
+export interface TaskAttempt {
+	/** 1-based, in the order the runs happened. */
+	attempt: number;
+	agent: string;
+	/** What started this run: the first try, the failure class being retried, re-verification after a fix, or revision after blocking review findings. */
+	reason: "initial" | "re-verify" | "review" | FailureClass;
+	exitCode: number;
+	durationMs: number;
+	/** Backoff wait before this run. */
+	delayMs?: number;
+	/** How this run failed, if it did. */
+	failure?: FailureClass;
+	/** Tokens and cost of this run. */
+	usage?: TokenUsage;
+}
+
+// ── Usage ──────────────────────────────────────────────────────────
+
+/** Tokens an agent run (or a rollup of runs) consumed, from pi's `message_end` events. */
+export interface TokenUsage {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	/** Model that produced the tokens; unset when a rollup spans several models */
+	model?: string;
+	/** Dollars, from the price table (see usage.ts); unset until priced */
+	costUsd?: number;
+	/** Models missing from the price table — their tokens are not in costUsd */
+	unpriced?: string[];
+}
+
+// ── Budget ─────────────────────────────────────────────────────────
+
+/** A spend cap — reached as soon as any one limit is. */
+export interface SpendLimit {
+	/** All tokens, cached included */
+	tokens?: number;
+	usd?: number;
+	/** Wall-clock minutes */
+	minutes?: number;
+}
+
+/** Caps from `budget.json` and `--budget`. */
+export interface BudgetCaps {
+	run?: SpendLimit;
+	wave?: SpendLimit;
+	task?: SpendLimit;
+}
+
+/** What one agent run may still spend before the runner stops it. */
+export interface RunLimits {
+	tokens?: number;
+	usd?: number;
+	ms?: number;
+	/** The task cap these are what's left of, for the message when the run is stopped. */
+	cap?: SpendLimit;
 }
 
 // ── Execution Results ──────────────────────────────────────────────
@@ -56,6 +194,92 @@ export interface TaskResult {
 	stderr: string;
 	durationMs: number;
 	timedOut?: boolean;
+	/** Results of the task's `Check:` commands from the final attempt. */
+	checkResults?: CheckResult[];
+	/** Results of the plan's Environment gates (install/typecheck/lint/test) from the final attempt. */
+	gateResults?: CheckResult[];
+	/** Every agent run for this task, in order. */
+	attempts?: TaskAttempt[];
+	/** Tokens and cost of every run for this task, including wave-doctor and reviewer runs. */
+	usage?: TokenUsage;
+	/** Outcome of the review stage, for tasks with reviewers. */
+	review?: TaskReview;
+	/** Red-phase check of a test-writer task: how its new tests didn't fail as they should. */
+	tddViolation?: TddViolation;
+}
+
+// ── TDD Red Phase ──────────────────────────────────────────────────
+
+export interface TddViolation {
+	/**
+	 * passing: the new tests already pass; crash: they fail without running
+	 * (syntax error, crash on import) — both fail the task. unclear: they fail
+	 * for a reason that isn't recognized; skipped: not run, because an
+	 * implementation task built on the tests is already committed (a rerun) —
+	 * both recorded only.
+	 */
+	kind: "passing" | "crash" | "unclear" | "skipped";
+	/** The Environment test command, run on the task's test files */
+	command: string;
+	/** What gave it away: the matching output line, or the test counts */
+	reason: string;
+	/** Tail of the test output */
+	output: string;
+}
+
+// ── Review ─────────────────────────────────────────────────────────
+
+/** critical findings block the commit; warnings and suggestions are recorded. */
+export type ReviewSeverity = "critical" | "warning" | "suggestion";
+
+export interface ReviewFinding {
+	severity: ReviewSeverity;
+	/** Reviewer agent that reported it */
+	reviewer: string;
+	message: string;
+	file?: string;
+	line?: number;
+}
+
+export interface TaskReview {
+	/** approved: nothing blocking left; blocked: still blocking after the revision round; error: a reviewer didn't report */
+	status: "approved" | "blocked" | "error";
+	reviewers: string[];
+	/** Findings of the last review round */
+	findings: ReviewFinding[];
+	/** Blocking findings of the first round, sent back to the worker for revision */
+	revised?: ReviewFinding[];
+	/** Why a reviewer didn't report, or why the revision failed */
+	reason?: string;
+	durationMs: number;
+	/** Tokens and cost of the reviewer runs */
+	usage?: TokenUsage;
+}
+
+export interface CheckResult {
+	command: string;
+	exitCode: number;
+	/** Combined stdout/stderr (tail only for long output). */
+	output: string;
+	durationMs: number;
+	timedOut?: boolean;
+	/** Set for Environment gates: which structured key the command came from. */
+	gate?: GateKind;
+	/** Counts parsed from the gate's output, when recognizable. */
+	summary?: GateSummary;
+}
+
+/** Structured Environment keys, in the order they run. */
+export type GateKind = "install" | "typecheck" | "lint" | "test";
+
+/** Commands from the plan's `## Environment` section (`- **Test**: \`npm test\``). */
+export type EnvironmentGates = Partial<Record<GateKind, string>>;
+
+export interface GateSummary {
+	passed?: number;
+	failed?: number;
+	errors?: number;
+	warnings?: number;
 }
 
 export interface FeatureResult {
@@ -64,6 +288,8 @@ export interface FeatureResult {
 	taskResults: TaskResult[];
 	passed: boolean;
 	error?: string;
+	/** Sum of the task results' usage */
+	usage?: TokenUsage;
 }
 
 export interface WaveResult {
@@ -71,6 +297,12 @@ export interface WaveResult {
 	foundationResults: TaskResult[];
 	featureResults: FeatureResult[];
 	integrationResults: TaskResult[];
+	/** Environment gates run on the base branch after the feature merge. */
+	mergeGateResults?: CheckResult[];
+	/** Tasks that failed or were skipped, including tasks of features that didn't merge. */
+	failedTaskIds?: string[];
+	/** Every agent run of the wave, merge resolvers included */
+	usage?: TokenUsage;
 	passed: boolean;
 }
 
@@ -103,6 +335,22 @@ export interface MergeResult {
 	success: boolean;
 	hadChanges: boolean;
 	error?: string;
+	/** `--resolve-conflicts`: what the merge resolver did with a conflict (success is true once resolved). */
+	resolution?: MergeResolution;
+}
+
+export interface MergeResolution {
+	/** resolved: merged and committed on the target branch; failed: left as a conflict */
+	status: "resolved" | "failed";
+	/** Files that were in conflict */
+	files: string[];
+	/** Why the resolution was rejected */
+	reason?: string;
+	/** Install and test gates run on the resolved merge */
+	gateResults?: CheckResult[];
+	durationMs: number;
+	/** Tokens and cost of the resolver run */
+	usage?: TokenUsage;
 }
 
 // ── File Access Enforcement ────────────────────────────────────────
@@ -120,6 +368,38 @@ export interface FileAccessRules {
 	safeBashOnly?: boolean;
 }
 
+// ── Agent Roles ────────────────────────────────────────────────────
+
+/** What has to hold, besides a clean exit and the task's checks, for a run of the role to pass. */
+export interface RoleSuccess {
+	/** The Environment gates pass in the task's worktree */
+	gates: boolean;
+	/** Every file in the task's `Files:` exists afterwards */
+	declaredFiles: boolean;
+	/** A failure is a verification report: fix cycles follow, as the retry policy allows */
+	fixCycles: boolean;
+	/** The task's new tests fail before anything implements them, for the right reason (red-phase.ts) */
+	redPhase: boolean;
+}
+
+/** How the executor runs a task whose `Agent:` has this role. */
+export interface AgentRole {
+	/** Task prompt template with `{{placeholder}}`s (see roles.ts) */
+	prompt: string;
+	/** files: the task's `Files:`; implementation: those minus its `Tests:`, plus `.env.test` */
+	writes: "files" | "implementation";
+	/** No writes at all (`writes` is ignored) */
+	readOnly: boolean;
+	/** Only bash commands that can't modify files */
+	safeBashOnly: boolean;
+	success: RoleSuccess;
+	/** Task log file name: `<task-id><logSuffix>.log` */
+	logSuffix: string;
+}
+
+/** Keyed by agent name */
+export type RoleRegistry = Record<string, AgentRole>;
+
 // ── Execution State (for resume) ───────────────────────────────────
 
 export interface ExecutionState {
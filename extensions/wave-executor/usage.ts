@@ -0,0 +1,249 @@
+/**
+ * Token usage and cost — what the agents of a run consumed.
+ *
+ * The runner prices the `usage` of every assistant `message_end` event with
+ * the price table (USD per million tokens, by model) and sums it over the
+ * agent run, so a run that switches models is priced message by message.
+ * Usage is recorded per attempt and rolls up task →
+ * feature → wave → run; the final summary breaks the total down by agent and
+ * shows what retries and fix cycles cost. The project's price table is
+ * `prices.json` next to the plans, merged over the defaults.
+ */
+
+import { loadProjectJson } from "./project-json.js";
+import type { MergeResolution, TaskResult, TokenUsage } from "./types.js";
+
+export const PRICES_FILE = "prices.json";
+
+/** USD per million tokens. */
+export interface ModelPrice {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+}
+
+/** Keyed by model name, without `provider/` prefix or `-YYYYMMDD` snapshot date (see modelPrice). */
+export type PriceTable = Record<string, ModelPrice>;
+
+const OPUS_4: ModelPrice = { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 };
+const OPUS_4_5: ModelPrice = { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 };
+const SONNET: ModelPrice = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+
+export const DEFAULT_PRICES: PriceTable = {
+	"claude-opus-4": OPUS_4,
+	"claude-opus-4-0": OPUS_4,
+	"claude-opus-4-1": OPUS_4,
+	"claude-opus-4-5": OPUS_4_5,
+	"claude-sonnet-4": SONNET,
+	"claude-sonnet-4-0": SONNET,
+	"claude-sonnet-4-5": SONNET,
+	"claude-3-7-sonnet": SONNET,
+	"claude-3-7-sonnet-latest": SONNET,
+	"claude-3-5-sonnet": SONNET,
+	"claude-3-5-sonnet-latest": SONNET,
+	"claude-haiku-4-5": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+	"claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+	"claude-3-5-haiku-latest": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+};
+
+let activePrices: PriceTable = DEFAULT_PRICES;
+
+/** Set the table runSubagent prices with. */
+export function setPriceTable(table: PriceTable): void {
+	activePrices = table;
+}
+
+export function priceTable(): PriceTable {
+	return activePrices;
+}
+
+// ── Tokens ─────────────────────────────────────────────────────────
+
+const num = (v: unknown): number => (typeof v === "number" && Number.isFinite(v) ? v : 0);
+
+/**
+ * Token counts of one assistant message: pi's `usage`
+ * (`input`/`output`/`cacheRead`/`cacheWrite`) or the Anthropic API's
+ * `*_tokens` names. Undefined if the message carries no usage.
+ */
+export function usageFromMessage(message: any): TokenUsage | undefined {
+	const u = message?.usage;
+	if (!u || typeof u !== "object") return undefined;
+	return {
+		input: num(u.input ?? u.input_tokens),
+		output: num(u.output ?? u.output_tokens),
+		cacheRead: num(u.cacheRead ?? u.cache_read_input_tokens),
+		cacheWrite: num(u.cacheWrite ?? u.cache_creation_input_tokens),
+		...(typeof message.model === "string" ? { model: message.model } : {}),
+	};
+}
+
+/**
+ * Sum of two usages. The model is kept while both agree; costs and unpriced
+ * models add up.
+ */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+	if (!a) return b;
+	if (!b) return a;
+	const unpriced = [...new Set([...(a.unpriced ?? []), ...(b.unpriced ?? [])])];
+	return {
+		input: a.input + b.input,
+		output: a.output + b.output,
+		cacheRead: a.cacheRead + b.cacheRead,
+		cacheWrite: a.cacheWrite + b.cacheWrite,
+		...(a.model && a.model === b.model ? { model: a.model } : {}),
+		...(a.costUsd !== undefined || b.costUsd !== undefined ? { costUsd: (a.costUsd ?? 0) + (b.costUsd ?? 0) } : {}),
+		...(unpriced.length > 0 ? { unpriced } : {}),
+	};
+}
+
+export function totalTokens(usage: TokenUsage | undefined): number {
+	return usage ? usage.input + usage.output + usage.cacheRead + usage.cacheWrite : 0;
+}
+
+export function sumUsage(usages: (TokenUsage | undefined)[]): TokenUsage | undefined {
+	return usages.reduce<TokenUsage | undefined>(addUsage, undefined);
+}
+
+// ── Cost ───────────────────────────────────────────────────────────
+
+/**
+ * Price of a model: the table entry for its exact name, without a `provider/`
+ * prefix, or else without a `-YYYYMMDD` snapshot date. No prefix matching —
+ * a new model must not be priced as an older one.
+ */
+export function modelPrice(model: string, table: PriceTable = activePrices): ModelPrice | undefined {
+	const name = model.slice(model.lastIndexOf("/") + 1);
+	return table[name] ?? table[name.replace(/-\d{8}$/, "")];
+}
+
+/**
+ * `usage` with its dollar cost, for a single model: price each message
+ * before summing. Tokens of a model missing from the table cost nothing and
+ * the model is listed in `unpriced`.
+ */
+export function priceUsage(usage: TokenUsage, table: PriceTable = activePrices): TokenUsage {
+	const price = usage.model ? modelPrice(usage.model, table) : undefined;
+	if (!price) return { ...usage, costUsd: 0, unpriced: [usage.model ?? "unknown model"] };
+	const costUsd = (usage.input * price.input
+		+ usage.output * price.output
+		+ usage.cacheRead * price.cacheRead
+		+ usage.cacheWrite * price.cacheWrite) / 1_000_000;
+	return { ...usage, costUsd };
+}
+
+// ── Project File ───────────────────────────────────────────────────
+
+/** Models in `prices.json` with a missing, negative or unknown price. */
+export function validatePriceTable(data: unknown): string[] {
+	if (typeof data !== "object" || data === null || Array.isArray(data)) return ["expected an object"];
+	const errors: string[] = [];
+	for (const [model, price] of Object.entries(data as Record<string, unknown>)) {
+		if (model === "$schema") continue;
+		if (typeof price !== "object" || price === null) {
+			errors.push(`${model}: expected an object`);
+			continue;
+		}
+		for (const key of ["input", "output", "cacheRead", "cacheWrite"]) {
+			const v = (price as Record<string, unknown>)[key];
+			if (key === "input" || key === "output" || v !== undefined) {
+				if (typeof v !== "number" || v < 0) errors.push(`${model}.${key}: expected a non-negative number`);
+			}
+		}
+		for (const key of Object.keys(price)) {
+			if (!["input", "output", "cacheRead", "cacheWrite"].includes(key)) errors.push(`${model}: unknown key "${key}"`);
+		}
+	}
+	return errors;
+}
+
+/**
+ * The project price table: defaults plus `prices.json` in the project
+ * directory, if present. Cache prices default to 0.1× (read) and 1.25×
+ * (write) the input price.
+ */
+export function loadPriceTable(projectDir: string): PriceTable {
+	const data = loadProjectJson<Record<string, Pick<ModelPrice, "input" | "output"> & Partial<ModelPrice>>>(projectDir, PRICES_FILE, validatePriceTable);
+	if (!data) return DEFAULT_PRICES;
+	const table: PriceTable = { ...DEFAULT_PRICES };
+	for (const [model, p] of Object.entries(data)) {
+		if (model === "$schema") continue;
+		table[model] = {
+			input: p.input,
+			output: p.output,
+			cacheRead: p.cacheRead ?? p.input * 0.1,
+			cacheWrite: p.cacheWrite ?? p.input * 1.25,
+		};
+	}
+	return table;
+}
+
+// ── Reporting ──────────────────────────────────────────────────────
+
+export function formatTokens(n: number): string {
+	if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+	if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+	return String(n);
+}
+
+export function formatCost(usd: number): string {
+	return usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+}
+
+/** `12.3k in · 1.2k out · 80.0k cached · $0.42` */
+export function formatUsage(usage: TokenUsage): string {
+	const cached = usage.cacheRead + usage.cacheWrite;
+	return [
+		`${formatTokens(usage.input)} in`,
+		`${formatTokens(usage.output)} out`,
+		...(cached > 0 ? [`${formatTokens(cached)} cached`] : []),
+		formatCost(usage.costUsd ?? 0) + (usage.unpriced?.length ? ` (unpriced: ${usage.unpriced.join(", ")})` : ""),
+	].join(" · ");
+}
+
+
+export interface UsageBreakdown {
+	/** Per agent, most expensive first */
+	byAgent: [string, TokenUsage][];
+	/** Retries and fix cycles: every attempt that wasn't a task's first run */
+	retries?: TokenUsage;
+}
+
+/**
+ * Where the tokens of `results` and `resolutions` went. Attempts are credited
+ * to their agent and a review to its reviewers; usage of a task beyond those
+ * (the wave-doctor runs of infra recovery) is credited to wave-doctor.
+ */
+export function usageBreakdown(results: TaskResult[], resolutions: MergeResolution[] = []): UsageBreakdown {
+	const byAgent = new Map<string, TokenUsage | undefined>();
+	const credit = (agent: string, u: TokenUsage | undefined) => {
+		if (u) byAgent.set(agent, addUsage(byAgent.get(agent), u));
+	};
+	let retries: TokenUsage | undefined;
+	for (const r of results) {
+		const attempts = r.attempts ?? [];
+		for (const a of attempts) {
+			credit(a.agent, a.usage);
+			if (a.reason !== "initial") retries = addUsage(retries, a.usage);
+		}
+		credit(r.review?.reviewers.join(", ") ?? "", r.review?.usage);
+		const attempted = sumUsage([...attempts.map((a) => a.usage), r.review?.usage]);
+		if (r.usage && totalTokens(r.usage) > totalTokens(attempted)) {
+			credit("wave-doctor", {
+				input: r.usage.input - (attempted?.input ?? 0),
+				output: r.usage.output - (attempted?.output ?? 0),
+				cacheRead: r.usage.cacheRead - (attempted?.cacheRead ?? 0),
+				cacheWrite: r.usage.cacheWrite - (attempted?.cacheWrite ?? 0),
+				costUsd: (r.usage.costUsd ?? 0) - (attempted?.costUsd ?? 0),
+			});
+		}
+	}
+	for (const r of resolutions) credit("wave-merge-resolver", r.usage);
+	return {
+		byAgent: [...byAgent.entries()]
+			.filter((e): e is [string, TokenUsage] => e[1] !== undefined)
+			.sort((x, y) => (y[1].costUsd ?? 0) - (x[1].costUsd ?? 0)),
+		...(retries ? { retries } : {}),
+	};
+}
@@ -18,27 +18,43 @@ import {
 	isGitRepo,
 	mergeFeatureBranches,
 } from "../subagent/git-worktree.js";
-import { executeDAG, mapConcurrent } from "./dag.js";
+import { remainingLimits } from "./budget.js";
+import { failedChecks, formatCheckSummary, hasGates, runGates } from "./checks.js";
+import { mapConcurrent } from "./dag.js";
+import { failedDependencies, failedInputs, localizeDependencies } from "./dependencies.js";
+import { estimateDuration, parseDurationHistory, type DurationHistory, type Simulation } from "./dry-run.js";
 import { executeFeature } from "./feature-executor.js";
 import {
 	appendTaskLog,
 	checkDeclaredFiles,
-	extractFinalOutput,
 	extractSpecSections,
-	isApiRateLimitError,
 	runSubagent,
 	taskLogFile,
 } from "./helpers.js";
+import { resolveMergeConflict } from "./merge-resolver.js";
+import { failsTask, formatTddViolation } from "./red-phase.js";
+import { canRetry, DEFAULT_RETRY_POLICY, resolveRetryPolicy, taskRetryOverrides } from "./retry-policy.js";
+import { blockingFindings, formatFindings, reviewTask, SEVERITIES, taskReviewers } from "./review.js";
+import { agentRole, buildRolePrompt, roleFileRules } from "./roles.js";
+import { cancelledResult, type RunControl } from "./run-control.js";
+import { createSlotPool, criticalPath, runWhenReady } from "./scheduler.js";
+import { runTaskAttempts } from "./task-runner.js";
 import type {
+	CheckResult,
+	EnvironmentGates,
 	FeatureResult,
 	FeatureWorktree,
+	MergeResolution,
 	MergeResult,
 	ProgressUpdate,
+	RetryPolicy,
 	Task,
+	TaskAttempt,
 	TaskResult,
 	Wave,
 	WaveResult,
 } from "./types.js";
+import { formatUsage, sumUsage } from "./usage.js";
 
 // ── Public Interface ───────────────────────────────────────────────
 
@@ -52,12 +68,32 @@ export interface WaveExecutorOptions {
 	projectStructure: string;
 	/** Environment hints (versions, test commands, quirks) — injected into every task prompt. */
 	environment: string;
+	/** Structured Environment commands the orchestrator runs after worker tasks and the feature merge. */
+	gates?: EnvironmentGates;
+	/** Project retry policy; tasks may override it (`- **Retry Policy**:`, `- **Retries**:`). */
+	retryPolicy?: RetryPolicy;
 	protectedPaths: string[];
 	cwd: string;
+	/** Agents running at once across the whole wave (all phases and features). */
 	maxConcurrency: number;
+	/** Task durations from earlier runs — ranks waiting tasks by remaining critical path. */
+	durationHistory?: DurationHistory;
 	signal?: AbortSignal;
+	/** `/waves-stop`, `/waves-pause`, `/waves-cancel` — asked before each task starts. */
+	control?: RunControl;
 	/** Task IDs to skip (already completed in a previous run). */
 	skipTaskIds?: Set<string>;
+	/** Implementation tasks downstream of each red-phase task (redPhaseImplementers) — reruns skip the red phase once one is committed. */
+	redPhaseImplementers?: ReadonlyMap<string, string[]>;
+	/**
+	 * `--keep-going`: merge conflicts and failed merge gates don't stop the
+	 * wave — integration still runs the tasks that don't build on the failure.
+	 */
+	keepGoing?: boolean;
+	/** `--resolve-conflicts`: a merge-resolver agent tries each conflicting feature merge; it lands only if tests pass. */
+	resolveConflicts?: boolean;
+	/** Tasks of earlier waves that failed or were skipped (`--keep-going`) — tasks building on them are skipped. */
+	upstreamFailures?: Task[];
 	/** Directory for per-task log files. Each task gets a <task-id>.log file. */
 	taskLogDir?: string;
 	onProgress?: (update: ProgressUpdate) => void;
@@ -67,6 +103,8 @@ export interface WaveExecutorOptions {
 	onStallRetry?: (phase: string, task: Task, reason: string) => void;
 	onMergeResult?: (result: MergeResult) => void;
 	onLog?: (line: string) => void;
+	/** Dry run: worktrees, merges, commits, checks and gates are recorded here instead of performed. */
+	simulation?: Simulation;
 }
 
 // ── Execute Wave ───────────────────────────────────────────────────
@@ -79,11 +117,19 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 		dataSchemas,
 		projectStructure,
 		environment,
+		gates,
+		retryPolicy = DEFAULT_RETRY_POLICY,
 		protectedPaths,
 		cwd,
 		maxConcurrency,
+		durationHistory = parseDurationHistory([]),
 		signal,
+		control,
 		skipTaskIds = new Set(),
+		redPhaseImplementers,
+		keepGoing = false,
+		resolveConflicts = false,
+		upstreamFailures = [],
 		taskLogDir,
 		onProgress,
 		onTaskStart,
@@ -92,6 +138,7 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 		onStallRetry,
 		onMergeResult,
 		onLog,
+		simulation,
 	} = opts;
 
 	const foundationResults: TaskResult[] = [];
@@ -109,11 +156,54 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 	// Track all created worktrees for emergency cleanup
 	const allFeatureWorktrees: FeatureWorktree[] = [];
 
+	// Tasks that failed or were skipped — their dependents in any section are skipped.
+	// Seeded with earlier waves' failures and the tasks of this wave building on them.
+	const failedIds = new Set<string>(upstreamFailures.map((t) => t.id));
+	const waveTasks = [...wave.foundation, ...wave.features.flatMap((f) => f.tasks), ...wave.integration];
+	for (const task of waveTasks) {
+		if (failedInputs(task, upstreamFailures).length > 0) failedIds.add(task.id);
+	}
+	let mergeGateResults: CheckResult[] | undefined;
+	let mergeFailed = false;
+	const foundationIds = wave.foundation.map((t) => t.id);
+	const featureTaskIds = wave.features.flatMap((f) => f.tasks.map((t) => t.id));
+	// One pool of agent slots for every phase and feature of the wave
+	const pool = createSlotPool(maxConcurrency);
+	const estimate = (t: Task) => estimateDuration(durationHistory, t.id, t.agent);
+	const priority = new Map([
+		...criticalPath(localizeDependencies(wave.foundation), estimate),
+		...criticalPath(localizeDependencies(wave.integration), estimate),
+	]);
+
+	// Merge resolver runs, for the wave's usage
+	const resolutions: MergeResolution[] = [];
+
+	const finish = (passed: boolean): WaveResult => {
+		const usage = sumUsage([
+			...[...foundationResults, ...featureResults, ...integrationResults].map((r) => r.usage),
+			...resolutions.map((r) => r.usage),
+		]);
+		return {
+			wave: wave.name,
+			foundationResults,
+			featureResults,
+			integrationResults,
+			...(mergeGateResults ? { mergeGateResults } : {}),
+			failedTaskIds: waveTasks.filter((t) => failedIds.has(t.id)).map((t) => t.id),
+			...(usage ? { usage } : {}),
+			passed,
+		};
+	};
+
 	try {
 		// ── Skip helper: wraps a task runner to short-circuit completed tasks ──
+		// and tasks whose dependencies failed; the rest wait for an agent slot.
+		// runWhenReady only orders tasks within the section, so check every
+		// declared dependency here.
 
 		const wrapWithSkip = (
 			phase: string,
+			earlierPhaseIds: string[],
 			actualRun: (task: Task) => Promise<TaskResult>,
 		) => {
 			return async (task: Task): Promise<TaskResult> => {
@@ -132,7 +222,47 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 					logTaskResult(onLog, task, skipped);
 					return skipped;
 				}
-				return actualRun(task);
+				if (failedIds.has(task.id) || failedDependencies(task, failedIds, earlierPhaseIds).length > 0) {
+					const skipped: TaskResult = {
+						id: task.id,
+						title: task.title,
+						agent: task.agent,
+						exitCode: -1,
+						output: "Skipped: dependency failed",
+						stderr: "",
+						durationMs: 0,
+					};
+					failedIds.add(task.id);
+					onTaskEnd?.(phase, task, skipped);
+					logTaskResult(onLog, task, skipped);
+					return skipped;
+				}
+				const release = await pool.acquire(priority.get(task.id));
+				try {
+					// Stopped, aborted or cancelled — and held here while paused
+					const held = await control?.admit(task.id);
+					if (held) {
+						const skipped: TaskResult = {
+							id: task.id,
+							title: task.title,
+							agent: task.agent,
+							exitCode: -1,
+							output: held,
+							stderr: "",
+							durationMs: 0,
+						};
+						failedIds.add(task.id);
+						onTaskEnd?.(phase, task, skipped);
+						logTaskResult(onLog, task, skipped);
+						return skipped;
+					}
+					const result = await actualRun(task);
+					if (result.exitCode !== 0) failedIds.add(task.id);
+					return result;
+				} finally {
+					release();
+					control?.finish(task.id);
+				}
 			};
 		};
 
@@ -142,23 +272,27 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 			onProgress?.({ phase: "foundation", currentTasks: wave.foundation.map((t) => ({ id: t.id, status: "pending" })) });
 			onLog?.("### Foundation");
 
-			const fResults = await executeDAG(
+			const fResults = await runWhenReady(
 				wave.foundation,
-				wrapWithSkip("foundation", async (task) => {
+				wrapWithSkip("foundation", [], async (task) => {
 					onTaskStart?.("foundation", task);
 					const start = Date.now();
 					// Collect all foundation files for verifier context
-					const foundationFiles = task.agent === "wave-verifier"
-						? wave.foundation.filter(t => t.agent !== "wave-verifier").flatMap(t => t.files)
+					const role = agentRole(task.agent);
+					const foundationFiles = role.readOnly
+						? wave.foundation.filter(t => !agentRole(t.agent).readOnly).flatMap(t => t.files)
 						: undefined;
 
-					const tLogFile = taskLogDir ? taskLogFile(taskLogDir, task.id, task.agent) : undefined;
-					const result = await runTaskOnBase(task, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal,
-						(t, reason) => onStallRetry?.("foundation", t, reason), foundationFiles, tLogFile);
+					const tLogFile = taskLogDir ? taskLogFile(taskLogDir, task.id, role.logSuffix) : undefined;
+					const policy = resolveRetryPolicy(retryPolicy, ...taskRetryOverrides(task));
+					const taskSignal = control?.taskSignal(task.id) ?? signal;
+					const result = await runTaskOnBase(task, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, taskSignal,
+						(t, reason) => onStallRetry?.("foundation", t, reason), foundationFiles, tLogFile, gates, simulation, policy,
+						undefined, undefined, redPhaseImplementers?.get(task.id));
 					let taskResult: TaskResult = { ...result, durationMs: Date.now() - start };
 
-					// Post-task file existence check for worker/test-writer tasks
-					if (result.exitCode === 0 && task.agent !== "wave-verifier" && task.files.length > 0) {
+					// Post-task file existence check for roles that create their files
+					if (result.exitCode === 0 && !simulation && role.success.declaredFiles && task.files.length > 0) {
 						const missingFiles = checkDeclaredFiles(task.files, cwd);
 						if (missingFiles.length > 0) {
 							taskResult = {
@@ -172,8 +306,22 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 						}
 					}
 
+					// Review stage — blocking findings get one revision round before the commit
+					const reviewers = taskReviewers(task);
+					if (taskResult.exitCode === 0 && useGit && !simulation && reviewers.length > 0 && !taskSignal?.aborted) {
+						onLog?.(`   🔎 Reviewing: ${task.id} [${reviewers.join(", ")}]`);
+						const reviewed = await reviewTask({
+							task, reviewers, result: taskResult, cwd, protectedPaths, signal: taskSignal, logDir: taskLogDir,
+							revise: (context, previousAttempts) => runTaskOnBase(task, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, taskSignal,
+								(t, reason) => onStallRetry?.("foundation", t, reason), foundationFiles, tLogFile, gates, simulation, policy, previousAttempts, context),
+						});
+						taskResult = { ...reviewed, durationMs: Date.now() - start };
+					}
+
+					if (control?.isCancelled(task.id)) taskResult = cancelledResult(taskResult);
+
 					// Per-task commit — each successful task gets its own commit
-					if (taskResult.exitCode === 0 && useGit && repoRoot) {
+					if (taskResult.exitCode === 0 && useGit && repoRoot && !simulation) {
 						const committed = commitTaskOutput(repoRoot, task.id, task.title, task.agent);
 						if (committed) {
 							onLog?.(`   📌 Committed: ${task.id} [${task.agent}] — ${task.title}`);
@@ -185,23 +333,18 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 					logTaskResult(onLog, task, taskResult);
 					return taskResult;
 				}),
-				maxConcurrency,
 			);
 			foundationResults.push(...fResults);
 
+			// `/waves-abort`: nothing else runs
+			if (signal?.aborted) return finish(false);
+
 			const foundationFailed = fResults.some((r) => r.exitCode !== 0);
 			if (foundationFailed) {
-				onLog?.("\nFoundation FAILED — skipping features and integration\n");
-				return {
-					wave: wave.name,
-					foundationResults,
-					featureResults,
-					integrationResults,
-					passed: false,
-				};
+				onLog?.("\nFoundation FAILED — skipping dependent feature and integration tasks\n");
+			} else {
+				onLog?.("");
 			}
-
-			onLog?.("");
 		}
 
 		// ── 2. Feature Phase ───────────────────────────────────────
@@ -223,18 +366,15 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 
 			if (useGit && !isSingleDefault) {
 				for (const feature of wave.features) {
-					const wt = createFeatureWorktree(repoRoot!, waveNum, feature.name);
+					const wt = simulation
+						? simulation.featureWorktree(repoRoot!, waveNum, feature.name)
+						: createFeatureWorktree(repoRoot!, waveNum, feature.name);
 					featureWorktreeMap.set(feature.name, wt);
 					if (wt) allFeatureWorktrees.push(wt);
 				}
 			}
 
-			// Execute features in parallel
-			const perFeatureConcurrency = Math.max(
-				2,
-				Math.ceil(maxConcurrency / wave.features.length),
-			);
-
+			// Execute features in parallel — their tasks share the wave's agent slots
 			const fResults = await mapConcurrent(
 				wave.features,
 				// If not using git isolation, run features sequentially to avoid file conflicts
@@ -254,11 +394,19 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 						dataSchemas,
 						projectStructure,
 						environment,
+						gates,
+						retryPolicy,
 						protectedPaths,
 						cwd,
-						maxConcurrency: perFeatureConcurrency,
+						maxConcurrency,
+						slots: pool,
+						durationHistory,
 						signal,
+						control,
 						skipTaskIds,
+						redPhaseImplementers,
+						failedTaskIds: failedIds,
+						earlierPhaseIds: foundationIds,
 						taskLogDir,
 						onTaskStart: (task) => onTaskStart?.(`feature:${feature.name}`, task),
 						onTaskEnd: (task, tr) => {
@@ -268,6 +416,7 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 						onFixCycleStart: (task) => onFixCycleStart?.(`feature:${feature.name}`, task),
 						onStallRetry: (task, reason) => onStallRetry?.(`feature:${feature.name}`, task, reason),
 						onLog,
+						simulation,
 					});
 
 					featureStatuses[idx].status = result.passed ? "done" : "failed";
@@ -280,47 +429,102 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 			featureResults.push(...fResults);
 			onLog?.("");
 
+			// `/waves-abort`: no merge — the feature worktrees are removed
+			if (signal?.aborted) {
+				if (repoRoot && allFeatureWorktrees.length > 0 && !simulation) {
+					cleanupAll(repoRoot, allFeatureWorktrees, []);
+				}
+				onLog?.("\nExecution aborted — feature worktrees removed, nothing merged\n");
+				return finish(false);
+			}
+
 			// ── 3. Merge Phase ─────────────────────────────────────
 
 			if (useGit && !isSingleDefault && allFeatureWorktrees.length > 0) {
 				onProgress?.({ phase: "merge" });
 				onLog?.("### Merge");
 
-				const mergeResults = await mergeFeatureBranches(
-					repoRoot!,
-					allFeatureWorktrees,
-					fResults.map((r) => ({ featureName: r.name, passed: r.passed })),
-				);
+				const featureOutcomes = fResults.map((r) => ({ featureName: r.name, passed: r.passed }));
+				const mergeResults = simulation
+					? simulation.mergeFeatures(allFeatureWorktrees, featureOutcomes, getCurrentBranch(repoRoot!))
+					: await mergeFeatureBranches(repoRoot!, allFeatureWorktrees, featureOutcomes);
+
+				// Conflicts: a resolver agent redoes the merge in a scratch worktree
+				if (resolveConflicts && !simulation) {
+					for (const [i, mr] of mergeResults.entries()) {
+						const wt = allFeatureWorktrees.find((w) => w.branch === mr.source);
+						if (mr.success || !mr.hadChanges || !wt || signal?.aborted) continue;
+						onLog?.(`🔧 Resolving merge conflict: ${mr.source} → ${mr.target}`);
+						const resolution = await resolveMergeConflict({
+							repoRoot: repoRoot!,
+							merge: mr,
+							worktree: wt,
+							wave,
+							dataSchemas,
+							gates,
+							protectedPaths,
+							signal,
+							logFile: taskLogDir ? taskLogFile(taskLogDir, `merge-${wt.featureName}`) : undefined,
+						});
+						resolutions.push(resolution);
+						mergeResults[i] = resolution.status === "resolved"
+							? { ...mr, success: true, error: undefined, resolution }
+							: { ...mr, resolution };
+					}
+				}
 
 				for (const mr of mergeResults) onMergeResult?.(mr);
 				logMergeResults(onLog, mergeResults);
 
 				const mergeConflicts = mergeResults.filter((m) => !m.success && m.hadChanges);
-				if (mergeConflicts.length > 0) {
+				if (mergeConflicts.length > 0 && !keepGoing) {
 					onLog?.("\nMerge conflicts detected — skipping integration\n");
-					return {
-						wave: wave.name,
-						foundationResults,
-						featureResults,
-						integrationResults,
-						passed: false,
-					};
+					return finish(false);
+				}
+				if (mergeConflicts.length > 0) {
+					// The conflicting features' work never reached the base branch
+					onLog?.("\nMerge conflicts detected — continuing without the conflicting features (--keep-going)\n");
+					mergeFailed = true;
+					for (const wt of allFeatureWorktrees) {
+						if (!mergeConflicts.some((m) => m.source === wt.branch)) continue;
+						const feature = wave.features.find((f) => f.name === wt.featureName);
+						for (const t of feature?.tasks ?? []) failedIds.add(t.id);
+					}
+				}
+
+				// Environment gates on the merged result — features that pass on their
+				// own can still break each other once combined
+				const merged = mergeResults.some((m) => m.success && m.hadChanges);
+				if (hasGates(gates) && merged && simulation) {
+					simulation.commands(cwd, [], gates);
+				} else if (hasGates(gates) && merged) {
+					mergeGateResults = await runGates(gates, cwd, signal);
+					onLog?.(formatCheckSummary(mergeGateResults));
+					if (failedChecks(mergeGateResults).length > 0 && !keepGoing) {
+						onLog?.("\nEnvironment gates failed after merge — skipping integration\n");
+						return finish(false);
+					}
+					if (failedChecks(mergeGateResults).length > 0) {
+						onLog?.("\nEnvironment gates failed after merge — continuing with integration (--keep-going)\n");
+						mergeFailed = true;
+					}
 				}
 
 				onLog?.("");
 			}
 
-			// Check if any feature failed
-			const anyFeatureFailed = fResults.some((r) => !r.passed);
-			if (anyFeatureFailed) {
-				onLog?.("\nOne or more features failed — skipping integration\n");
-				return {
-					wave: wave.name,
-					foundationResults,
-					featureResults,
-					integrationResults,
-					passed: false,
-				};
+			// A failed feature's branch isn't merged, so none of its work reaches
+			// integration — treat every task in it as failed. Without worktrees the
+			// successful tasks' output is already in place.
+			const isolated = useGit && !isSingleDefault && allFeatureWorktrees.length > 0;
+			for (const fr of fResults) {
+				for (const tr of fr.taskResults) {
+					if (tr.exitCode !== 0 || (isolated && !fr.passed)) failedIds.add(tr.id);
+				}
+			}
+
+			if (fResults.some((r) => !r.passed)) {
+				onLog?.("\nOne or more features failed — skipping dependent integration tasks\n");
 			}
 		}
 
@@ -333,27 +537,32 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 			});
 			onLog?.("### Integration");
 
-			const iResults = await executeDAG(
+			const iResults = await runWhenReady(
 				wave.integration,
-				wrapWithSkip("integration", async (task) => {
+				wrapWithSkip("integration", [...foundationIds, ...featureTaskIds], async (task) => {
 					onTaskStart?.("integration", task);
 					const start = Date.now();
 					// Collect ALL wave files for integration verifier context
-					const allWaveFiles = task.agent === "wave-verifier"
+					const role = agentRole(task.agent);
+					const writes = (t: Task) => !agentRole(t.agent).readOnly;
+					const allWaveFiles = role.readOnly
 						? [
-							...wave.foundation.filter(t => t.agent !== "wave-verifier").flatMap(t => t.files),
-							...wave.features.flatMap(f => f.tasks.filter(t => t.agent !== "wave-verifier").flatMap(t => t.files)),
-							...wave.integration.filter(t => t.agent !== "wave-verifier" && t.id !== task.id).flatMap(t => t.files),
+							...wave.foundation.filter(writes).flatMap(t => t.files),
+							...wave.features.flatMap(f => f.tasks.filter(writes).flatMap(t => t.files)),
+							...wave.integration.filter(t => writes(t) && t.id !== task.id).flatMap(t => t.files),
 						]
 						: undefined;
 
-					const tLogFile = taskLogDir ? taskLogFile(taskLogDir, task.id, task.agent) : undefined;
-					const result = await runTaskOnBase(task, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal,
-						(t, reason) => onStallRetry?.("integration", t, reason), allWaveFiles, tLogFile);
+					const tLogFile = taskLogDir ? taskLogFile(taskLogDir, task.id, role.logSuffix) : undefined;
+					const policy = resolveRetryPolicy(retryPolicy, ...taskRetryOverrides(task));
+					const taskSignal = control?.taskSignal(task.id) ?? signal;
+					const result = await runTaskOnBase(task, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, taskSignal,
+						(t, reason) => onStallRetry?.("integration", t, reason), allWaveFiles, tLogFile, gates, simulation, policy,
+						undefined, undefined, redPhaseImplementers?.get(task.id));
 					let taskResult: TaskResult = { ...result, durationMs: Date.now() - start };
 
-					// Post-task file existence check for worker/test-writer tasks
-					if (result.exitCode === 0 && task.agent !== "wave-verifier" && task.files.length > 0) {
+					// Post-task file existence check for roles that create their files
+					if (result.exitCode === 0 && !simulation && role.success.declaredFiles && task.files.length > 0) {
 						const missingFiles = checkDeclaredFiles(task.files, cwd);
 						if (missingFiles.length > 0) {
 							taskResult = {
@@ -367,28 +576,44 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 						}
 					}
 
-					// Fix cycle for integration verifier failures
-					if (task.agent === "wave-verifier" && result.exitCode !== 0) {
-						onFixCycleStart?.("integration", task);
-						const fixResult = await runIntegrationFixCycle(
-							task,
-							result,
-							wave,
-							cwd,
-							specContent,
-							dataSchemas,
-							projectStructure,
-							environment,
-							protectedPaths,
-							signal,
-						);
-						if (fixResult) {
-							taskResult = { ...fixResult, durationMs: Date.now() - start };
+					// Fix cycles for integration verifier failures, as many as the retry policy allows
+					if (role.success.fixCycles && result.exitCode !== 0) {
+						let verified = result;
+						while (verified.exitCode !== 0 && !taskSignal?.aborted && canRetry(policy, verified.attempts ?? [], "verifier-fail")) {
+							onFixCycleStart?.("integration", task);
+							verified = await runIntegrationFixCycle(
+								task,
+								verified,
+								wave,
+								cwd,
+								specContent,
+								dataSchemas,
+								projectStructure,
+								environment,
+								protectedPaths,
+								taskSignal,
+								policy,
+							);
 						}
+						taskResult = { ...verified, durationMs: Date.now() - start };
 					}
 
+					// Review stage — blocking findings get one revision round before the commit
+					const reviewers = taskReviewers(task);
+					if (taskResult.exitCode === 0 && useGit && !simulation && reviewers.length > 0 && !taskSignal?.aborted) {
+						onLog?.(`   🔎 Reviewing: ${task.id} [${reviewers.join(", ")}]`);
+						const reviewed = await reviewTask({
+							task, reviewers, result: taskResult, cwd, protectedPaths, signal: taskSignal, logDir: taskLogDir,
+							revise: (context, previousAttempts) => runTaskOnBase(task, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, taskSignal,
+								(t, reason) => onStallRetry?.("integration", t, reason), allWaveFiles, tLogFile, gates, simulation, policy, previousAttempts, context),
+						});
+						taskResult = { ...reviewed, durationMs: Date.now() - start };
+					}
+
+					if (control?.isCancelled(task.id)) taskResult = cancelledResult(taskResult);
+
 					// Per-task commit — each successful task gets its own commit
-					if (taskResult.exitCode === 0 && useGit && repoRoot) {
+					if (taskResult.exitCode === 0 && useGit && repoRoot && !simulation) {
 						const committed = commitTaskOutput(repoRoot, task.id, task.title, task.agent);
 						if (committed) {
 							onLog?.(`   📌 Committed: ${task.id} [${task.agent}] — ${task.title}`);
@@ -400,7 +625,6 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 					logTaskResult(onLog, task, taskResult);
 					return taskResult;
 				}),
-				maxConcurrency,
 			);
 			integrationResults.push(...iResults);
 
@@ -408,20 +632,15 @@ export async function executeWave(opts: WaveExecutorOptions): Promise<WaveResult
 		}
 
 		const passed =
+			!mergeFailed &&
 			foundationResults.every((r) => r.exitCode === 0) &&
 			featureResults.every((r) => r.passed) &&
 			integrationResults.every((r) => r.exitCode === 0);
 
-		return {
-			wave: wave.name,
-			foundationResults,
-			featureResults,
-			integrationResults,
-			passed,
-		};
+		return finish(passed);
 	} catch (e: any) {
 		// Emergency cleanup
-		if (repoRoot && allFeatureWorktrees.length > 0) {
+		if (repoRoot && allFeatureWorktrees.length > 0 && !simulation) {
 			cleanupAll(repoRoot, allFeatureWorktrees, []);
 		}
 		throw e;
@@ -444,6 +663,18 @@ async function runTaskOnBase(
 	allWaveFiles?: string[],
 	/** Log file path for this task */
 	logFile?: string,
+	/** Environment gates — run after tasks whose role includes them (workers) */
+	gates?: EnvironmentGates,
+	/** Dry run: checks and gates are recorded, not run */
+	simulation?: Simulation,
+	/** Retry policy for this task (project policy + task overrides) */
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	/** Earlier runs when re-verifying after a fix cycle or revising after a review */
+	previousAttempts?: TaskAttempt[],
+	/** Review revision: blocking findings appended to the prompt */
+	revision?: string,
+	/** Implementation tasks downstream of a red-phase task — see TaskRun.implementers */
+	implementers?: string[],
 ): Promise<Omit<TaskResult, "durationMs">> {
 	const agentName = task.agent || "worker";
 	const specContext = extractSpecSections(specContent, task.specRefs);
@@ -457,153 +688,17 @@ async function runTaskOnBase(
 		? `\n## Environment\n${environment}\n`
 		: "";
 	const contextBlocks = `${structureBlock}${envBlock}${schemasBlock}`;
-
-	let agentTask: string;
-
-	if (agentName === "wave-verifier") {
-		const requiredFilesBlock = allWaveFiles && allWaveFiles.length > 0
-			? `\n## Required Files (MUST ALL EXIST)\nThese files should have been created by prior tasks in this wave. Verify EVERY one exists before running tests:\n${allWaveFiles.map(f => `- \`${f}\``).join("\n")}\n`
-			: "";
-		agentTask = `You are verifying completed work.
-${contextBlocks}
-## Spec Reference
-${specContext}
-
-## Your Task
-**${task.id}: ${task.title}**
-${task.files.length > 0 ? `Files to check: ${task.files.join(", ")}` : ""}
-${requiredFilesBlock}
-${task.description}
-
-IMPORTANT — verify in this order:
-1. **File existence** — check that ALL required files listed above actually exist on disk. If ANY are missing, immediately report status "fail" with the list of missing files. Do NOT proceed to tests.
-2. **Syntax/compilation** — run the compiler/linter. If it fails, report "fail".
-3. **Tests** — run the test suite. If tests fail, report "fail".
-4. **Completeness** — verify the implementation matches the task descriptions.
-- Do NOT modify any files
-- Work continuously — do NOT stop to summarize progress or wait for feedback`;
-	} else if (agentName === "test-writer") {
-		agentTask = `You are writing tests.
-${contextBlocks}
-## Spec Reference
-${specContext}
-
-## Your Task
-**${task.id}: ${task.title}**
-Files: ${task.files.join(", ")}
-
-${task.description}
-
-IMPORTANT:
-- Only create/modify TEST files listed for this task
-- Follow existing test patterns
-- Use exact field names, column names, and type names from the Data Schemas section above
-- Work continuously — do NOT stop to summarize progress or wait for feedback`;
-	} else {
-		const testContext =
-			task.testFiles.length > 0
-				? `\nTests to satisfy: ${task.testFiles.join(", ")}\nYour implementation MUST make these tests pass.`
-				: "";
-		agentTask = `You are implementing code.
-${contextBlocks}
-## Spec Reference
-${specContext}
-
-## Your Task
-**${task.id}: ${task.title}**
-Files: ${task.files.join(", ")}${testContext}
-
-${task.description}
-
-IMPORTANT:
-- Only modify files listed for this task
-- Follow the spec requirements exactly
-- Use exact field names, column names, and type names from the Data Schemas section above — they are authoritative and override any names in the spec
-- Work continuously — do NOT stop to summarize progress or wait for feedback`;
-	}
-
-	// File access rules
-	let fileRules: import("./types.js").FileAccessRules | undefined;
-
-	if (agentName === "test-writer") {
-		fileRules = { allowWrite: [...task.files], protectedPaths, safeBashOnly: true };
-	} else if (agentName === "wave-verifier") {
-		fileRules = { readOnly: true, protectedPaths, safeBashOnly: false };
-	} else {
-		const blocked = task.testFiles || [];
-		fileRules = {
-			allowWrite: [
-				...task.files.filter((f) => !blocked.some((b) => f === b)),
-				".env.test",
-			],
-			protectedPaths,
-		};
-	}
-
-	const logCtx = [`Task: ${task.id} — ${task.title}`, `Role: ${agentName}`, `Files: ${task.files.join(", ") || "(none)"}`];
-	let result = await runSubagent(agentName, agentTask, cwd, signal, fileRules, undefined, logFile, logCtx);
-
-	// Stall retry: if agent got stuck in a loop, interrupt and retry with guidance
-	if (result.stall) {
-		onStallRetry?.(task, result.stall.reason);
-		const stallContext = [
-			`\n\n⚠️ IMPORTANT: A previous attempt at this task got stuck.`,
-			`Reason: ${result.stall.reason}`,
-			`Recent activity before interruption:`,
-			...result.stall.recentActivity.map((a) => `  - ${a}`),
-			`\nYou MUST take a different approach. Do not repeat the same actions.`,
-			`The previous agent's partial work may already be on disk — check what exists before starting.`,
-		].join("\n");
-		// Retry appends to the same log file
-		result = await runSubagent(agentName, agentTask + stallContext, cwd, signal, fileRules, undefined, logFile, [`${logCtx[0]} (stall retry)`, ...logCtx.slice(1)]);
-	}
-
-	// API rate-limit retry: if the agent was rate-limited, wait with exponential backoff and retry.
-	// Pi's internal retries use short delays (2s base); this handles sustained rate limiting
-	// with longer waits (60s, 120s, 240s) to let the API quota recover.
-	if (result.exitCode !== 0 && isApiRateLimitError(result.stderr)) {
-		const API_RETRY_DELAYS = [60_000, 120_000, 240_000]; // 1min, 2min, 4min
-		for (let attempt = 0; attempt < API_RETRY_DELAYS.length; attempt++) {
-			if (signal?.aborted) break;
-			const delay = API_RETRY_DELAYS[attempt];
-			console.error(`⏳ Task "${task.title}" hit API rate limit. Waiting ${delay / 1000}s before retry ${attempt + 1}/${API_RETRY_DELAYS.length}...`);
-			await new Promise((r) => setTimeout(r, delay));
-			if (signal?.aborted) break;
-			result = await runSubagent(agentName, agentTask, cwd, signal, fileRules, undefined, logFile, [`${logCtx[0]} (rate-limit retry ${attempt + 1})`, ...logCtx.slice(1)]);
-			if (result.exitCode === 0 || !isApiRateLimitError(result.stderr)) break;
-		}
-	}
-
-	// Doctor retry: if worker hit infrastructure errors, invoke doctor then retry
-	if (result.exitCode !== 0 && result.infraErrors && result.infraErrors.length > 0) {
-		const problemDesc = result.infraErrors.slice(-3).join("\n");
-		const doctorResult = await runSubagent(
-			"wave-doctor",
-			`Fix this infrastructure problem in ${cwd}:\n${problemDesc}`,
-			cwd, signal, undefined, 120_000,
-		);
-		if (doctorResult.exitCode === 0) {
-			const fix = extractFinalOutput(doctorResult.stdout) || "Environment fixed.";
-			const doctorContext = [
-				`\n\n✅ ENVIRONMENT FIXED: A doctor agent resolved infrastructure issues:`,
-				fix,
-				`\nYour previous code is already on disk. Just verify it works — run the tests.`,
-			].join("\n");
-			result = await runSubagent(agentName, agentTask + doctorContext, cwd, signal, fileRules, undefined, logFile, [`${logCtx[0]} (doctor retry)`, ...logCtx.slice(1)]);
-		}
-	}
-
-	const output = extractFinalOutput(result.stdout);
-
-	return {
-		id: task.id,
-		title: task.title,
-		agent: agentName,
-		exitCode: result.exitCode,
-		output: result.timedOut ? `⏰ Task timed out\n${output}` : (output || "(no output)"),
-		stderr: result.stderr,
-		timedOut: result.timedOut,
-	};
+	const role = agentRole(agentName);
+	const agentTask = buildRolePrompt(role, { task, specContext, contextBlocks, requiredFiles: allWaveFiles });
+	const fileRules = roleFileRules(role, task, protectedPaths);
+
+	return runTaskAttempts({
+		task, agentName, prompt: agentTask + (revision ?? ""), cwd, fileRules, policy, logFile, signal, onStallRetry, simulation,
+		gates: role.success.gates ? gates : undefined,
+		redPhase: role.success.redPhase ? gates?.test : undefined,
+		implementers,
+		previousAttempts, reason: revision ? "review" : previousAttempts ? "re-verify" : "initial",
+	});
 }
 
 // ── Integration Fix Cycle ──────────────────────────────────────────
@@ -618,8 +713,9 @@ async function runIntegrationFixCycle(
 	projectStructure: string,
 	environment: string,
 	protectedPaths: string[],
-	signal?: AbortSignal,
-): Promise<Omit<TaskResult, "durationMs"> | null> {
+	signal: AbortSignal | undefined,
+	policy: RetryPolicy,
+): Promise<Omit<TaskResult, "durationMs">> {
 	// Integration fix agent gets access to all files
 	const allFiles = [
 		...wave.foundation.flatMap((t) => t.files),
@@ -640,16 +736,28 @@ ${allFiles.join(", ")}
 
 Fix the issues and ensure all tests pass.`;
 
-	await runSubagent("worker", fixTask, cwd, signal, {
+	const attempts = verifierResult.attempts ?? [];
+	const fixStart = Date.now();
+	const fixResult = await runSubagent("worker", fixTask, cwd, signal, {
 		allowWrite: allFiles,
 		protectedPaths,
-	});
+	}, undefined, undefined, undefined, { limits: remainingLimits(policy.taskLimit, attempts) });
+	const fixAttempt: TaskAttempt = {
+		attempt: attempts.length + 1,
+		agent: "worker",
+		reason: "verifier-fail",
+		exitCode: fixResult.exitCode,
+		durationMs: Date.now() - fixStart,
+		...(fixResult.usage ? { usage: fixResult.usage } : {}),
+	};
 
 	// Re-verify (no stall callback — this is already inside a fix cycle)
-	const reResult = await runTaskOnBase(verifierTask, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal, undefined, allFiles);
+	const reResult = await runTaskOnBase(verifierTask, cwd, specContent, dataSchemas, projectStructure, environment, protectedPaths, signal, undefined, allFiles,
+		undefined, undefined, undefined, policy, [...attempts, fixAttempt]);
 
 	let passed = reResult.exitCode === 0;
-	if (!passed) {
+	// Failed Check commands are authoritative — the verifier's report can't override them
+	if (!passed && failedChecks(reResult.checkResults).length === 0) {
 		try {
 			const jsonMatch = reResult.output.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, reResult.output];
 			const v = JSON.parse(jsonMatch[1]!.trim());
@@ -659,7 +767,7 @@ Fix the issues and ensure all tests pass.`;
 		}
 	}
 
-	return passed ? { ...reResult, exitCode: 0 } : null;
+	return passed ? { ...reResult, exitCode: 0 } : { ...reResult, exitCode: reResult.exitCode || 1 };
 }
 
 // ── Logging Helpers ────────────────────────────────────────────────
@@ -672,9 +780,24 @@ function logTaskResult(
 	if (!onLog) return;
 	const icon = result.timedOut ? "⏰" : result.exitCode === 0 ? "✅" : result.exitCode === -1 ? "⏭️" : "❌";
 	const agentEmoji =
-		task.agent === "test-writer" ? "🧪" : task.agent === "wave-verifier" ? "🔍" : "🔨";
+		task.agent === "test-writer" ? "🧪" : agentRole(task.agent).readOnly ? "🔍" : "🔨";
 	const suffix = result.timedOut ? " **TIMED OUT**" : "";
-	onLog(`${icon} ${agentEmoji} **${task.id}** [${task.agent}]: ${task.title} (${(result.durationMs / 1000).toFixed(1)}s)${suffix}`);
+	const usage = result.usage ? ` · ${formatUsage(result.usage)}` : "";
+	onLog(`${icon} ${agentEmoji} **${task.id}** [${task.agent}]: ${task.title} (${(result.durationMs / 1000).toFixed(1)}s${usage})${suffix}`);
+	if (result.review) {
+		const { status, reviewers, findings, revised, reason } = result.review;
+		const counts = SEVERITIES.map((s) => [s, findings.filter((f) => f.severity === s).length] as const)
+			.filter(([, n]) => n > 0)
+			.map(([s, n]) => `${n} ${s}`);
+		const round = revised ? `, after revising ${revised.length} finding${revised.length === 1 ? "" : "s"}` : "";
+		onLog(`   🔎 Review [${reviewers.join(", ")}]: ${status}${round}${counts.length > 0 ? ` — ${counts.join(", ")}` : ""}`);
+		const shown = status === "blocked" ? blockingFindings(findings) : [];
+		for (const line of formatFindings(shown).split("\n").filter(Boolean).slice(0, 5)) onLog(`   ${line.slice(0, 200)}`);
+		if (reason) onLog(`   ${reason.slice(0, 200)}`);
+	}
+	if (result.tddViolation) {
+		onLog(`   ${failsTask(result.tddViolation) ? "⚠️" : result.tddViolation.kind === "skipped" ? "⏭️" : "❔"} TDD red phase (${result.tddViolation.kind}): ${formatTddViolation(result.tddViolation).slice(0, 300)}`);
+	}
 	if (result.exitCode !== 0 && result.exitCode !== -1) {
 		// Log stderr (first few lines)
 		if (result.stderr) {
@@ -702,12 +825,17 @@ function logMergeResults(
 ): void {
 	if (!onLog) return;
 	for (const r of results) {
-		if (r.success && r.hadChanges) {
+		if (r.resolution?.status === "resolved") {
+			onLog(`✅ Merged: ${r.source} → ${r.target} (conflicts in ${r.resolution.files.join(", ")} resolved, tests passed)`);
+		} else if (r.success && r.hadChanges) {
 			onLog(`✅ Merged: ${r.source} → ${r.target}`);
 		} else if (r.success && !r.hadChanges) {
 			onLog(`⏭️ No changes: ${r.source}`);
 		} else if (r.error) {
 			onLog(`❌ ${r.error}`);
 		}
+		if (r.resolution?.status === "failed") {
+			onLog(`   🔧 Conflict resolution failed: ${r.resolution.reason}`);
+		}
 	}
 }
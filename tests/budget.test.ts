@@ -0,0 +1,98 @@
+/**
+ * Tests for budget caps: parsing them, what a task may still spend, and
+ * stopping new tasks once a run or wave cap is reached.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import {
+	createSpendTracker,
+	formatMinutes,
+	mergeBudgetCaps,
+	parseBudgetSpec,
+	remainingLimits,
+	taskLimitReached,
+} from "../extensions/wave-executor/budget.js";
+import { canRetry, DEFAULT_RETRY_POLICY } from "../extensions/wave-executor/retry-policy.js";
+import { createRunControl } from "../extensions/wave-executor/run-control.js";
+import type { TaskAttempt, TokenUsage } from "../extensions/wave-executor/types.js";
+
+const usage = (tokens: number, costUsd: number): TokenUsage =>
+	({ input: tokens, output: 0, cacheRead: 0, cacheWrite: 0, costUsd });
+
+const attempt = (n: number, u: TokenUsage, durationMs = 60_000): TaskAttempt => ({
+	attempt: n, agent: "worker", reason: n === 1 ? "initial" : "failed", exitCode: 1, durationMs, usage: u,
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Caps
+// ════════════════════════════════════════════════════════════════════
+
+describe("parseBudgetSpec", () => {
+	it("parses scope.limit pairs and merges them over the file", () => {
+		const flag = parseBudgetSpec("run.usd=$20, task.minutes=30");
+		assert.deepEqual(flag, { run: { usd: 20 }, task: { minutes: 30 } });
+		assert.deepEqual(mergeBudgetCaps({ run: { usd: 50, tokens: 1e6 }, wave: { usd: 10 } }, flag), {
+			run: { usd: 20, tokens: 1e6 },
+			wave: { usd: 10 },
+			task: { minutes: 30 },
+		});
+	});
+
+	it("lists every problem", () => {
+		assert.throws(
+			() => parseBudgetSpec("feature.usd=1,run.dollars=2,task.usd=-1,wave"),
+			/"wave": expected[\s\S]*unknown scope "feature"[\s\S]*unknown limit "dollars"[\s\S]*task\.usd: expected a positive number/,
+		);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Task cap
+// ════════════════════════════════════════════════════════════════════
+
+describe("task cap", () => {
+	it("gives the next run what's left and stops retries once spent", () => {
+		const limit = { usd: 1, tokens: 100_000, minutes: 5 };
+		const spent = [attempt(1, usage(40_000, 0.25))];
+		assert.deepEqual(remainingLimits(limit, spent), { tokens: 60_000, usd: 0.75, ms: 240_000, cap: limit });
+
+		const policy = { ...DEFAULT_RETRY_POLICY, retries: { ...DEFAULT_RETRY_POLICY.retries, failed: 3 }, taskLimit: limit };
+		assert.equal(canRetry(policy, spent, "failed"), true);
+		const over = [...spent, attempt(2, usage(20_000, 0.8))];
+		assert.equal(taskLimitReached(limit, over), "$1.05 of $1.00");
+		assert.equal(canRetry(policy, over, "failed"), false);
+	});
+
+	it("names sub-minute times in seconds", () => {
+		assert.equal(formatMinutes(30_000), "30s");
+		assert.equal(formatMinutes(25 * 60_000), "25 min");
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 3. Run and wave caps
+// ════════════════════════════════════════════════════════════════════
+
+describe("createSpendTracker", () => {
+	it("skips new tasks once the wave or run cap is reached", async () => {
+		let clock = 0;
+		const spend = createSpendTracker({ run: { usd: 10 }, wave: { tokens: 1000, minutes: 30 } }, () => clock);
+		const control = createRunControl(["a", "b", "c"], () => spend.exhausted());
+
+		assert.equal(await control.admit("a"), null);
+		spend.add(usage(1200, 1));
+		assert.equal(await control.admit("b"), "Skipped: wave budget reached (1.2k of 1.0k tokens)");
+
+		spend.startWave();
+		assert.equal(await control.admit("b"), null);
+		clock = 31 * 60_000;
+		assert.equal(spend.exhausted(), "wave budget reached (31 of 30 min)");
+
+		spend.startWave();
+		spend.add(usage(10, 9.5));
+		assert.equal(spend.runExhausted(), "run budget reached ($10.50 of $10.00)");
+		assert.equal(await control.admit("c"), "Skipped: run budget reached ($10.50 of $10.00)");
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for task acceptance checks (`- **Check**:` metadata).
+ *
+ * Checks are shell commands the orchestrator runs itself after the agent
+ * finishes. These tests cover parsing/serializing the metadata, the
+ * command runner's exit code, output and timeout handling, and the
+ * Environment gates (structured install/typecheck/lint/test commands).
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as os from "node:os";
+
+import {
+	acceptanceGates,
+	failedChecks,
+	formatCheckFailures,
+	parseEnvironmentGates,
+	runGates,
+	runShellCheck,
+	runTaskChecks,
+	summarizeGateOutput,
+} from "../extensions/wave-executor/checks.js";
+import { parsePlanV2, parsePlanWithDiagnostics } from "../extensions/wave-executor/plan-parser.js";
+import { serializePlan, stripSourceLocations } from "../extensions/wave-executor/plan-serializer.js";
+
+const PLAN = `## Wave 1: Auth
+
+### Feature: auth
+
+#### Task w1-auth-t1: Implement auth
+- **Agent**: worker
+- **Files**: \`src/auth.ts\`
+- **Check**: \`npm test -- auth\`
+- **Check**: npx tsc --noEmit -p tsconfig.json, --pretty false
+- **Description**: Implement it.
+`;
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Plan metadata
+// ════════════════════════════════════════════════════════════════════
+
+describe("Check metadata", () => {
+	it("collects one command per Check line", () => {
+		const { plan, diagnostics } = parsePlanWithDiagnostics(PLAN);
+		assert.deepEqual(diagnostics, []);
+		assert.deepEqual(plan.waves[0].features[0].tasks[0].checks, [
+			"npm test -- auth",
+			"npx tsc --noEmit -p tsconfig.json, --pretty false",
+		]);
+	});
+
+	it("round-trips through the serializer", () => {
+		const original = stripSourceLocations(parsePlanV2(PLAN));
+		assert.deepEqual(stripSourceLocations(parsePlanV2(serializePlan(original))), original);
+	});
+
+	it("rejects empty commands", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(PLAN.replace("`npm test -- auth`", "``"));
+		assert.match(diagnostics[0].message, /Empty check command in w1-auth-t1/);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Running checks
+// ════════════════════════════════════════════════════════════════════
+
+describe("runShellCheck", () => {
+	const cwd = os.tmpdir();
+
+	it("passes on exit 0 and captures output", async () => {
+		const r = await runShellCheck("echo ready && echo warn >&2", cwd);
+		assert.equal(r.exitCode, 0);
+		assert.match(r.output, /ready/);
+		assert.match(r.output, /warn/);
+	});
+
+	it("reports non-zero exits", async () => {
+		const results = await runTaskChecks(["true", "echo 'expected 2, got 3'; exit 3"], cwd);
+		assert.deepEqual(results.map((r) => r.exitCode), [0, 3]);
+		assert.equal(failedChecks(results).length, 1);
+		assert.match(formatCheckFailures(results), /`echo 'expected 2, got 3'; exit 3` exited with 3[\s\S]*expected 2, got 3/);
+	});
+
+	it("kills commands that exceed the timeout", async () => {
+		const r = await runShellCheck("sleep 10", cwd, undefined, 200);
+		assert.equal(r.timedOut, true);
+		assert.notEqual(r.exitCode, 0);
+		assert.ok(r.durationMs < 5000);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 3. Environment gates
+// ════════════════════════════════════════════════════════════════════
+
+describe("Environment gates", () => {
+	it("reads structured keys and leaves free text alone", () => {
+		const gates = parseEnvironmentGates([
+			"- Node 20, pnpm",
+			"- **Test**: `npx vitest run {tests}`",
+			"- **Type-check:** npx tsc --noEmit",
+			"- lint: `npx eslint src`",
+			"- Test framework: vitest",
+		].join("\n"));
+		assert.deepEqual(gates, { test: "npx vitest run {tests}", typecheck: "npx tsc --noEmit", lint: "npx eslint src" });
+	});
+
+	it("parses counts from common runners", () => {
+		assert.deepEqual(summarizeGateOutput("test", "# tests 9\n# pass 7\n# fail 2\n"), { passed: 7, failed: 2 });
+		assert.deepEqual(summarizeGateOutput("test", "Tests:       1 failed, 12 passed, 13 total"), { passed: 12, failed: 1 });
+		assert.deepEqual(summarizeGateOutput("typecheck", "a.ts(1,2): error TS2345: x\nb.ts(3,4): error TS2322: y\n"), { errors: 2 });
+		assert.deepEqual(summarizeGateOutput("lint", "✖ 4 problems (3 errors, 1 warning)"), { errors: 3, warnings: 1 });
+		assert.equal(summarizeGateOutput("install", "added 12 packages"), undefined);
+	});
+
+	it("runs in order, expands {tests} and stops after a failed install", async () => {
+		const cwd = os.tmpdir();
+		const results = await runGates({ test: "echo '# pass 1' {tests}", lint: "true" }, cwd, undefined, ["a b.test.ts", "c.test.ts"]);
+		assert.deepEqual(results.map((r) => r.gate), ["lint", "test"]);
+		assert.match(results[1].output, /# pass 1 a b.test.ts c.test.ts/);
+		assert.deepEqual(results[1].summary, { passed: 1 });
+
+		const broken = await runGates({ install: "exit 1", test: "true" }, cwd);
+		assert.deepEqual(broken.map((r) => r.gate), ["install"]);
+		assert.match(formatCheckFailures(broken), /install gate `exit 1` exited with 1/);
+	});
+
+	it("picks the gates that check a merge resolution, if there is a Test command", () => {
+		assert.deepEqual(acceptanceGates({ install: "npm ci", lint: "npx eslint src", test: "npm test" }), { install: "npm ci", test: "npm test" });
+		assert.deepEqual(acceptanceGates({ test: "npm test" }), { test: "npm test" });
+		assert.equal(acceptanceGates({ install: "npm ci", typecheck: "npx tsc --noEmit" }), null);
+		assert.equal(acceptanceGates(undefined), null);
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for cross-section and cross-wave task dependencies.
+ *
+ * Dependencies may point at any task that runs earlier (same section, earlier
+ * phase of the wave, earlier wave). These tests pin down which ones the plan
+ * validator rejects and how failures propagate to dependents.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import {
+	failedDependencies,
+	failedInputs,
+	localizeDependencies,
+	redPhaseImplementers,
+	validateDependencies,
+} from "../extensions/wave-executor/dependencies.js";
+import type { Plan } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+function plan(overrides: Record<string, string[]> = {}): Plan {
+	const t = (id: string) => task(id, { depends: overrides[id] ?? [] });
+	return {
+		goal: "g",
+		dataSchemas: "",
+		projectStructure: "",
+		environment: "",
+		waves: [
+			{
+				name: "one",
+				description: "",
+				foundation: [t("w1-found-t1")],
+				features: [
+					{ name: "auth", files: [], tasks: [t("w1-auth-t1"), t("w1-auth-t2")] },
+					{ name: "data", files: [], tasks: [t("w1-data-t1")] },
+				],
+				integration: [t("w1-int-t1")],
+			},
+			{
+				name: "two",
+				description: "",
+				foundation: [t("w2-found-t1")],
+				features: [],
+				integration: [],
+			},
+		],
+	};
+}
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Validation
+// ════════════════════════════════════════════════════════════════════
+
+describe("validateDependencies", () => {
+	it("accepts dependencies on earlier sections and waves", () => {
+		const p = plan({
+			"w1-auth-t1": ["w1-found-t1"],
+			"w1-auth-t2": ["w1-auth-t1"],
+			"w1-int-t1": ["w1-auth-t2", "w1-data-t1"],
+			"w2-found-t1": ["w1-int-t1", "w1-auth-t1"],
+		});
+		assert.deepEqual(validateDependencies(p), []);
+	});
+
+	it("rejects dependencies on later phases and waves", () => {
+		const p = plan({ "w1-found-t1": ["w1-int-t1"], "w1-int-t1": ["w2-found-t1"] });
+		const messages = validateDependencies(p).map((d) => d.message);
+		assert.deepEqual(messages, [
+			"Task w1-found-t1 depends on w1-int-t1, which is a later integration task",
+			"Task w1-int-t1 depends on w2-found-t1, which is in a later wave (Wave 2)",
+		]);
+	});
+
+	it("rejects dependencies between parallel features", () => {
+		const [diag] = validateDependencies(plan({ "w1-data-t1": ["w1-auth-t2"] }));
+		assert.match(diag.message, /in feature "auth", which runs in parallel with "data"/);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Scheduling
+// ════════════════════════════════════════════════════════════════════
+
+describe("dependency scheduling", () => {
+	it("strips cross-section dependencies for the section DAG", () => {
+		const local = localizeDependencies([task("a", { depends: ["found", "b"] }), task("b", { depends: ["w0-x"] })]);
+		assert.deepEqual(local.map((t) => t.depends), [["b"], []]);
+	});
+
+	it("blocks only tasks that depend on a failure", () => {
+		const failed = new Set(["w1-auth-t2"]);
+		const earlier = ["w1-found-t1", "w1-auth-t1", "w1-auth-t2", "w1-data-t1"];
+		assert.deepEqual(failedDependencies(task("i1", { depends: ["w1-auth-t2"] }), failed, earlier), ["w1-auth-t2"]);
+		assert.deepEqual(failedDependencies(task("i2", { depends: ["w1-data-t1"] }), failed, earlier), []);
+	});
+
+	it("makes tasks without dependencies wait on earlier phases", () => {
+		const failed = new Set(["w1-found-t1"]);
+		assert.deepEqual(failedDependencies(task("f1"), failed, ["w1-found-t1"]), ["w1-found-t1"]);
+		assert.deepEqual(failedDependencies(task("f1"), failed), []);
+	});
+
+	it("finds earlier-wave failures a task builds on (--keep-going)", () => {
+		const failed = [
+			{ ...task("w1-auth-t1"), files: ["src/auth.ts"] },
+			{ ...task("w1-data-t1"), files: ["src/db/*.ts"] },
+			{ ...task("w1-int-t1"), files: ["src/app.ts"], agent: "wave-verifier" },
+		];
+		assert.deepEqual(failedInputs(task("w2-a", { depends: ["w1-auth-t1"] }), failed), ["w1-auth-t1"]);
+		assert.deepEqual(failedInputs({ ...task("w2-b"), files: ["src/db/users.ts"] }, failed), ["w1-data-t1"]);
+		assert.deepEqual(failedInputs({ ...task("w2-c"), testFiles: ["src/auth.ts"] }, failed), ["w1-auth-t1"]);
+		assert.deepEqual(failedInputs({ ...task("w2-d"), files: ["src/app.ts", "src/ui.ts"] }, failed), []);
+	});
+
+	it("finds the implementation tasks downstream of a test-writer", () => {
+		const tests = task("w1-auth-t1", { agent: "test-writer" });
+		const waves: Plan["waves"] = [
+			{
+				name: "one", description: "", foundation: [],
+				features: [
+					{ name: "auth", files: [], tasks: [tests, task("w1-auth-t2", { depends: ["w1-auth-t1"] })] },
+					{ name: "pay", files: [], tasks: [task("w1-pay-t1")] },
+				],
+				integration: [task("w1-int-t1", { agent: "wave-verifier" })],
+			},
+			{ name: "two", description: "", foundation: [task("w2-found-t1", { depends: ["w1-auth-t2"] })], features: [], integration: [] },
+		];
+		const implementers = redPhaseImplementers({ goal: "g", dataSchemas: "", projectStructure: "", environment: "", waves });
+		assert.deepEqual([...implementers], [["w1-auth-t1", ["w1-auth-t2", "w2-found-t1"]]]);
+	});
+});
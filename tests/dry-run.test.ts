@@ -0,0 +1,72 @@
+/**
+ * Tests for `/waves-execute --dry-run`: duration history from execution logs
+ * and the virtual clock of the simulated runner.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { createSimulation, estimateDuration, parseDurationHistory } from "../extensions/wave-executor/dry-run.js";
+
+const LOG_V1 = `[00:05] ✅ 🧪 **w1-auth-t1** [test-writer]: Write auth tests (120.0s)
+[04:10] ❌ 🔨 **w1-auth-t2** [worker]: Implement auth (300.0s)`;
+const LOG_V2 = `[00:00] ✅ 🧪 **w1-auth-t1** [test-writer]: Write auth tests (0.0s)
+[05:00] ✅ 🔨 **w1-auth-t2** [worker]: Implement auth (200.5s)
+[05:00] ⏭️ 🔨 **w1-auth-t3** [worker]: Skipped thing (0.0s)`;
+
+function spawnTask(sim: ReturnType<typeof createSimulation>, id: string, agent: string) {
+	return sim.runner.spawn({ agentName: agent, systemPrompt: "", task: `You are implementing code.\n\n**${id}: Title**\nFiles: x`, cwd: "/repo" });
+}
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Duration history
+// ════════════════════════════════════════════════════════════════════
+
+describe("parseDurationHistory", () => {
+	it("keeps the latest duration per task and averages per agent", () => {
+		const history = parseDurationHistory([LOG_V1, LOG_V2]);
+		assert.equal(history.byTask.get("w1-auth-t1"), 120_000);
+		assert.equal(history.byTask.get("w1-auth-t2"), 200_500);
+		assert.equal(history.byTask.has("w1-auth-t3"), false);
+		assert.equal(history.byAgent.get("worker"), 250_250);
+	});
+
+	it("falls back from task to agent to defaults", () => {
+		const history = parseDurationHistory([LOG_V1]);
+		assert.equal(estimateDuration(history, "w1-auth-t1", "test-writer"), 120_000);
+		assert.equal(estimateDuration(history, "w9-new-t1", "worker"), 300_000);
+		assert.equal(estimateDuration(history, undefined, "wave-verifier"), 120_000);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Virtual clock
+// ════════════════════════════════════════════════════════════════════
+
+describe("Simulation", () => {
+	it("runs concurrent agents side by side and sequential ones back to back", async () => {
+		const sim = createSimulation(parseDurationHistory([LOG_V1]));
+		await Promise.all([spawnTask(sim, "w1-auth-t1", "test-writer"), spawnTask(sim, "w1-auth-t2", "worker")]);
+		assert.equal(sim.elapsed(), 300_000);
+		const result = await spawnTask(sim, "w1-int-t1", "wave-verifier");
+		assert.equal(result.exitCode, 0);
+		assert.equal(sim.elapsed(), 300_000 + 120_000);
+	});
+
+	it("records worktrees, merges and prompts in the report", async () => {
+		const sim = createSimulation(parseDurationHistory([]));
+		const wt = sim.featureWorktree("/repo", 1, "auth");
+		const subs = sim.subWorktrees(wt, 1, ["w1-auth-t1", "w1-auth-t2"]);
+		await Promise.all(subs.map((s) => spawnTask(sim, s.taskId, "worker")));
+		sim.mergeSubWorktrees(wt, subs, [{ taskId: "w1-auth-t1", exitCode: 0 }, { taskId: "w1-auth-t2", exitCode: 0 }]);
+		const merges = sim.mergeFeatures([wt], [{ featureName: "auth", passed: true }], "main");
+		assert.deepEqual(merges, [{ source: "wave-1/auth", target: "main", success: true, hadChanges: true }]);
+
+		const report = sim.report("Dry run");
+		assert.match(report, /Estimated wall time:\*\* 06:00 \(2 agent runs\)/);
+		assert.match(report, /`\+00:00` 🌱 Sub-worktree for \*\*w1-auth-t2\*\* on new branch `wave-1\/auth\/w1-auth-t2`/);
+		assert.match(report, /`\+06:00` 🔀 Merge `wave-1\/auth` → `main`/);
+		assert.match(report, /### w1-auth-t1 \(\+00:00\)[\s\S]*\*\*w1-auth-t1: Title\*\*/);
+		assert.doesNotMatch(sim.report("Dry run", false), /## Prompts/);
+	});
+});
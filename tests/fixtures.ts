@@ -0,0 +1,10 @@
+/**
+ * Shared test fixtures.
+ */
+
+import type { Task } from "../extensions/wave-executor/types.js";
+
+/** A worker task titled after its id, with no files or dependencies unless overridden. */
+export function task(id: string, overrides: Partial<Task> = {}): Task {
+	return { id, title: id, agent: "worker", files: [], depends: [], specRefs: [], testFiles: [], description: "", ...overrides };
+}
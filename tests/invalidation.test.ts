@@ -0,0 +1,140 @@
+/**
+ * Tests for task invalidation: which tasks are downstream of an invalidated
+ * task, resetting their saved state, and reverting their commits.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+	holdResumePoint,
+	invalidationSet,
+	resetTaskStates,
+	revertTaskCommits,
+	taskCommits,
+} from "../extensions/wave-executor/invalidation.js";
+import type { ExecutionState, Plan } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const plan: Plan = {
+	goal: "g",
+	dataSchemas: "",
+	projectStructure: "",
+	environment: "",
+	waves: [
+		{
+			name: "one",
+			description: "",
+			foundation: [task("w1-found-t1"), task("w1-found-t2")],
+			features: [
+				{ name: "auth", files: [], tasks: [task("w1-auth-t1", { depends: ["w1-found-t1"] }), task("w1-auth-t2", { depends: ["w1-auth-t1"] })] },
+				{ name: "data", files: [], tasks: [task("w1-data-t1", { depends: ["w1-found-t2"] })] },
+			],
+			integration: [task("w1-int-t1")],
+		},
+		{
+			name: "two",
+			description: "",
+			foundation: [task("w2-found-t1", { depends: ["w1-auth-t2"] })],
+			features: [],
+			integration: [],
+		},
+	],
+};
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Downstream set
+// ════════════════════════════════════════════════════════════════════
+
+describe("invalidationSet", () => {
+	it("follows Depends across features and waves, and implicit phase waits", () => {
+		assert.deepEqual(invalidationSet(plan, ["w1-auth-t1"]), [
+			{ id: "w1-auth-t1", reason: "invalidated" },
+			{ id: "w1-auth-t2", reason: "depends on w1-auth-t1" },
+			// No Depends: waits on every feature task
+			{ id: "w1-int-t1", reason: "depends on w1-auth-t1" },
+			{ id: "w2-found-t1", reason: "depends on w1-auth-t2" },
+		]);
+		assert.deepEqual(invalidationSet(plan, ["w1-data-t1"]).map((t) => t.id), ["w1-data-t1", "w1-int-t1"]);
+	});
+
+	it("rejects unknown task IDs", () => {
+		assert.throws(() => invalidationSet(plan, ["w9-x"]), /Unknown task ID\(s\): w9-x/);
+	});
+});
+
+describe("resetTaskStates", () => {
+	it("clears the states and moves the resume point back", () => {
+		const state: ExecutionState = {
+			planFile: "plan-v1.md",
+			startedAt: "",
+			updatedAt: "",
+			currentWave: 1,
+			taskStates: { "w1-auth-t1": "done", "w1-auth-t2": "failed", "w1-data-t1": "done" },
+		};
+		assert.deepEqual(resetTaskStates(state, plan, ["w1-auth-t2", "w2-found-t1"]), ["w1-auth-t2"]);
+		assert.deepEqual(state.taskStates, { "w1-auth-t1": "done", "w1-data-t1": "done" });
+		assert.equal(state.currentWave, 0);
+	});
+});
+
+describe("holdResumePoint", () => {
+	it("resumes a --keep-going run at its first failure", () => {
+		// Wave 1 left a task failed and one skipped; the run moved on to wave 2
+		const state: ExecutionState = {
+			planFile: "plan-v1.md",
+			startedAt: "",
+			updatedAt: "",
+			currentWave: 1,
+			taskStates: { "w1-found-t1": "done", "w1-found-t2": "done", "w1-auth-t1": "failed", "w1-auth-t2": "skipped", "w1-data-t1": "done", "w1-int-t1": "done" },
+		};
+		holdResumePoint(state, plan, ["w1-auth-t1", "w1-auth-t2"]);
+		state.taskStates["w2-found-t1"] = "skipped";
+		assert.equal(state.currentWave, 0);
+
+		// `/waves-continue` starts at wave 1 and redoes what isn't done
+		const pending = plan.waves.slice(state.currentWave)
+			.flatMap((w) => [...w.foundation, ...w.features.flatMap((f) => f.tasks), ...w.integration])
+			.filter((t) => state.taskStates[t.id] !== "done")
+			.map((t) => t.id);
+		assert.deepEqual(pending, ["w1-auth-t1", "w1-auth-t2", "w2-found-t1"]);
+
+		// Nothing earlier to hold on to
+		holdResumePoint(state, plan, []);
+		assert.equal(state.currentWave, 0);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Git
+// ════════════════════════════════════════════════════════════════════
+
+describe("task commits", () => {
+	it("finds and reverts the orchestrator's commits for the tasks", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "invalidate-"));
+		const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+		git("init", "-q");
+		git("config", "user.name", "t");
+		git("config", "user.email", "t@t");
+		const commit = (file: string, subject: string) => {
+			fs.writeFileSync(path.join(dir, file), subject);
+			git("add", ".");
+			git("commit", "-q", "-m", subject);
+		};
+		commit("base.txt", "init");
+		commit("a.txt", "pi: w1-auth-t1 [worker] — Login");
+		commit("b.txt", "pi: w1-data-t1 [worker] — Store");
+		commit("c.txt", "pi: w1-auth-t2 [worker] — Logout");
+
+		const commits = taskCommits(dir, ["w1-auth-t1", "w1-auth-t2"]);
+		assert.deepEqual(commits.map((c) => c.taskId), ["w1-auth-t2", "w1-auth-t1"]);
+
+		revertTaskCommits(dir, commits);
+		assert.deepEqual(fs.readdirSync(dir).filter((f) => !f.startsWith(".")).sort(), ["b.txt", "base.txt"]);
+		assert.deepEqual(taskCommits(dir, ["w1-auth-t1", "w1-auth-t2"]), []);
+	});
+});
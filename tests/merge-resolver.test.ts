@@ -0,0 +1,174 @@
+/**
+ * Tests for merge conflict resolution: picking the colliding features,
+ * building the resolver prompt, and the git flow of a resolution — scratch
+ * worktree, marker and test checks, fast-forward of the base branch.
+ */
+
+import { describe, it, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import { execFileSync, spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { setRunnerOverride } from "../extensions/wave-executor/helpers.js";
+import { buildResolverPrompt, collidingFeatures, resolveMergeConflict } from "../extensions/wave-executor/merge-resolver.js";
+import type { AgentRunner, RunnerConfig } from "../extensions/runner/types.js";
+import type { EnvironmentGates, FeatureWorktree, Wave } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const wave: Wave = {
+	name: "Wave 1",
+	description: "",
+	foundation: [],
+	features: [
+		{ name: "pay", files: [], tasks: [task("w1-pay-t1", { files: ["src/shared.ts"] })] },
+		{ name: "auth", files: [], tasks: [task("w1-auth-t1", { files: ["src/shared.ts"] })] },
+		{ name: "docs", files: [], tasks: [task("w1-docs-t1", { files: ["docs/guide.md"] })] },
+	],
+	integration: [],
+};
+const [pay, auth, docs] = wave.features;
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Prompt
+// ════════════════════════════════════════════════════════════════════
+
+describe("collidingFeatures", () => {
+	it("picks the other features writing a conflicted file", () => {
+		assert.deepEqual(collidingFeatures(wave, pay, ["src/shared.ts"]), [auth]);
+	});
+
+	it("falls back to every other feature when none declares the file", () => {
+		assert.deepEqual(collidingFeatures(wave, pay, ["src/other.ts"]), [auth, docs]);
+	});
+});
+
+describe("buildResolverPrompt", () => {
+	it("cuts long conflict hunks off", () => {
+		const diff = Array.from({ length: 250 }, (_, i) => `line ${i + 1}`).join("\n");
+		const prompt = buildResolverPrompt([{ file: "src/shared.ts", diff }], pay, [auth], "");
+		assert.match(prompt, /line 200\n\.\.\. \(50 more lines — read the file\)/);
+		assert.doesNotMatch(prompt, /line 201/);
+		assert.match(prompt, /### Feature: auth/);
+		assert.doesNotMatch(prompt, /Data Schemas/);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Resolve
+// ════════════════════════════════════════════════════════════════════
+
+/** Repo on main with a feature worktree on wave-1/pay that conflicts in src/shared.ts. */
+function conflictingRepo(): { repoRoot: string; worktree: FeatureWorktree } {
+	const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "merge-resolve-"));
+	const git = (cwd: string, ...args: string[]) => execFileSync("git", args, { cwd, stdio: "ignore" });
+	git(repoRoot, "init", "-q", "-b", "main");
+	git(repoRoot, "config", "user.name", "t");
+	git(repoRoot, "config", "user.email", "t@t");
+	fs.mkdirSync(path.join(repoRoot, "src"));
+	fs.writeFileSync(path.join(repoRoot, "src", "shared.ts"), "export const a = 0;\n");
+	git(repoRoot, "add", ".");
+	git(repoRoot, "commit", "-q", "-m", "init");
+
+	const dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "merge-feature-")), "pay");
+	git(repoRoot, "worktree", "add", "-q", "-b", "wave-1/pay", dir);
+	fs.writeFileSync(path.join(dir, "src", "shared.ts"), "export const a = 1;\n");
+	git(dir, "commit", "-q", "-am", "pay");
+	fs.writeFileSync(path.join(repoRoot, "src", "shared.ts"), "export const a = 2;\n");
+	git(repoRoot, "commit", "-q", "-am", "auth");
+	return { repoRoot, worktree: { featureName: "pay", branch: "wave-1/pay", dir, repoRoot } };
+}
+
+const head = (cwd: string, ref = "HEAD") => execFileSync("git", ["rev-parse", ref], { cwd, encoding: "utf-8" }).trim();
+
+/** Resolver stand-in: writes `content` to every file it may edit (or nothing). */
+function resolver(content?: string) {
+	const spawns: { cwd: string; detached: boolean; prompt: string }[] = [];
+	const runner: AgentRunner = {
+		async spawn(config: RunnerConfig) {
+			const detached = spawnSync("git", ["symbolic-ref", "-q", "HEAD"], { cwd: config.cwd }).status !== 0;
+			spawns.push({ cwd: config.cwd, detached, prompt: config.task });
+			if (content !== undefined) {
+				for (const file of config.fileRules?.allowWrite ?? []) fs.writeFileSync(path.join(config.cwd, file), content);
+			}
+			return { exitCode: 0, stdout: "", stderr: "" };
+		},
+		extractFinalOutput: () => "",
+	};
+	setRunnerOverride(runner);
+	return spawns;
+}
+
+function resolve(repoRoot: string, worktree: FeatureWorktree, gates: EnvironmentGates) {
+	return resolveMergeConflict({
+		repoRoot,
+		merge: { source: "wave-1/pay", target: "main", success: false, hadChanges: true },
+		worktree,
+		wave,
+		dataSchemas: "",
+		gates,
+		protectedPaths: [],
+	});
+}
+
+describe("resolveMergeConflict", () => {
+	afterEach(() => setRunnerOverride(null));
+
+	it("resolves in a detached scratch worktree and fast-forwards the base branch", async () => {
+		const { repoRoot, worktree } = conflictingRepo();
+		const spawns = resolver("export const a = 3;\n");
+		const resolution = await resolve(repoRoot, worktree, { test: "grep -q 'a = 3' src/shared.ts" });
+
+		assert.equal(resolution.status, "resolved", resolution.reason);
+		assert.deepEqual(resolution.files, ["src/shared.ts"]);
+		assert.equal(resolution.gateResults?.length, 1);
+		assert.equal(spawns.length, 1);
+		assert.notEqual(spawns[0].cwd, repoRoot);
+		assert.equal(spawns[0].detached, true);
+		assert.match(spawns[0].prompt, /### src\/shared\.ts/);
+		assert.equal(fs.existsSync(spawns[0].cwd), false);
+
+		// main now has the merge commit, with both parents, and the feature is gone
+		assert.equal(fs.readFileSync(path.join(repoRoot, "src", "shared.ts"), "utf-8"), "export const a = 3;\n");
+		assert.equal(execFileSync("git", ["rev-list", "--parents", "-n", "1", "HEAD"], { cwd: repoRoot, encoding: "utf-8" }).trim().split(" ").length, 3);
+		assert.equal(fs.existsSync(worktree.dir), false);
+		assert.equal(spawnSync("git", ["rev-parse", "--verify", "-q", "wave-1/pay"], { cwd: repoRoot }).status, 1);
+	});
+
+	it("rejects a resolution that leaves conflict markers", async () => {
+		const { repoRoot, worktree } = conflictingRepo();
+		const before = head(repoRoot);
+		resolver();
+		const resolution = await resolve(repoRoot, worktree, { test: "true" });
+
+		assert.equal(resolution.status, "failed");
+		assert.match(resolution.reason ?? "", /conflict markers left in src\/shared\.ts/);
+		assert.equal(head(repoRoot), before);
+		assert.equal(head(repoRoot, "wave-1/pay"), head(worktree.dir));
+	});
+
+	it("rejects a resolution that fails the tests", async () => {
+		const { repoRoot, worktree } = conflictingRepo();
+		const before = head(repoRoot);
+		resolver("export const a = 3;\n");
+		const resolution = await resolve(repoRoot, worktree, { test: "exit 1" });
+
+		assert.equal(resolution.status, "failed");
+		assert.match(resolution.reason ?? "", /^tests failed after resolving/);
+		assert.equal(resolution.gateResults?.length, 1);
+		assert.equal(head(repoRoot), before);
+		assert.equal(fs.readFileSync(path.join(repoRoot, "src", "shared.ts"), "utf-8"), "export const a = 2;\n");
+		assert.equal(fs.existsSync(worktree.dir), true);
+	});
+
+	it("doesn't try without a Test gate", async () => {
+		const { repoRoot, worktree } = conflictingRepo();
+		const spawns = resolver("export const a = 3;\n");
+		const resolution = await resolve(repoRoot, worktree, { install: "true" });
+
+		assert.equal(resolution.status, "failed");
+		assert.match(resolution.reason ?? "", /no Environment Test command/);
+		assert.equal(spawns.length, 0);
+	});
+});
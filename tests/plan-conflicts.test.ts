@@ -0,0 +1,119 @@
+/**
+ * Tests for the file-ownership conflict checker.
+ *
+ * Parallel features and same-level tasks must not write the same files;
+ * globs count when they match a literal path (error) or could overlap
+ * another glob (warning).
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { checkFileConflicts, fileOverlap, sectionLevels } from "../extensions/wave-executor/plan-conflicts.js";
+import { parsePlanV2 } from "../extensions/wave-executor/plan-parser.js";
+
+function task(id: string, files: string, extra = ""): string {
+	return `#### Task ${id}: ${id}
+- **Agent**: worker
+- **Files**: ${files}
+${extra}- **Description**: Do ${id}.
+`;
+}
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Glob overlap
+// ════════════════════════════════════════════════════════════════════
+
+describe("fileOverlap", () => {
+	it("matches identical paths", () => {
+		assert.equal(fileOverlap("src/a.ts", "./src/a.ts"), "definite");
+		assert.equal(fileOverlap("src/a.ts", "src/b.ts"), null);
+	});
+
+	it("matches literal paths against globs", () => {
+		assert.equal(fileOverlap("src/**/*.ts", "src/auth/login.ts"), "definite");
+		assert.equal(fileOverlap("src/*.ts", "src/auth/login.ts"), null);
+		assert.equal(fileOverlap("src/**", "lib/a.ts"), null);
+	});
+
+	it("reports compatible globs as possible overlaps", () => {
+		assert.equal(fileOverlap("src/**/*.ts", "src/auth/*.ts"), "possible");
+		assert.equal(fileOverlap("src/auth/*", "src/billing/*"), null);
+		assert.equal(fileOverlap("src/**/*.ts", "src/**/*.css"), null);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Plan analysis
+// ════════════════════════════════════════════════════════════════════
+
+describe("checkFileConflicts", () => {
+	it("flags parallel features writing the same file", () => {
+		const plan = parsePlanV2(`## Wave 1: Core
+
+### Feature: auth
+${task("w1-auth-t1", "`src/app.ts`, `src/auth.ts`")}
+### Feature: billing
+${task("w1-bill-t1", "`src/app.ts`")}`);
+		const diagnostics = checkFileConflicts(plan);
+		assert.equal(diagnostics.length, 1);
+		assert.equal(diagnostics[0].severity, "error");
+		assert.match(diagnostics[0].message, /feature "auth" and feature "billing" both write `src\/app.ts`/);
+	});
+
+	it("flags same-level tasks but not tasks ordered by Depends", () => {
+		const plan = parsePlanV2(`## Wave 1: Core
+
+### Foundation
+${task("w1-f-t1", "`src/types.ts`")}
+${task("w1-f-t2", "`src/types.ts`")}
+${task("w1-f-t3", "`src/types.ts`", "- **Depends**: w1-f-t1, w1-f-t2\n")}`);
+		const diagnostics = checkFileConflicts(plan);
+		assert.equal(diagnostics.length, 1);
+		assert.match(diagnostics[0].message, /w1-f-t1 and w1-f-t2 both write `src\/types.ts`.*foundation, level 0/);
+	});
+
+	it("flags independent chains that overlap across levels", () => {
+		const plan = parsePlanV2(`## Wave 1: Core
+
+### Foundation
+${task("w1-f-t1", "`src/a.ts`")}
+${task("w1-f-t2", "`src/b.ts`", "- **Depends**: w1-f-t1\n")}
+${task("w1-f-t3", "`src/b.ts`")}`);
+		const diagnostics = checkFileConflicts(plan);
+		assert.equal(diagnostics.length, 1);
+		assert.match(diagnostics[0].message, /w1-f-t3 and w1-f-t2 both write `src\/b.ts`.*foundation, levels 0 and 1/);
+	});
+
+	it("ignores read-only verifiers and warns about undeclared feature files", () => {
+		const plan = parsePlanV2(`## Wave 1: Core
+
+### Feature: auth
+Files: \`src/auth/**\`
+
+${task("w1-auth-t1", "`src/auth/login.ts`, `src/routes.ts`")}
+#### Task w1-auth-t2: Verify
+- **Agent**: wave-verifier
+- **Files**: \`src/auth/login.ts\`
+- **Description**: Check it.
+`);
+		const diagnostics = checkFileConflicts(plan);
+		assert.equal(diagnostics.length, 1);
+		assert.equal(diagnostics[0].severity, "warning");
+		assert.match(diagnostics[0].message, /w1-auth-t1 writes `src\/routes.ts`, which is not in feature "auth" Files:/);
+	});
+});
+
+describe("sectionLevels", () => {
+	it("groups tasks by dependency depth within the section", () => {
+		const plan = parsePlanV2(`## Wave 1: Core
+
+### Foundation
+${task("a", "`a`")}
+${task("b", "`b`", "- **Depends**: a\n")}
+${task("c", "`c`")}
+${task("d", "`d`", "- **Depends**: b, c\n")}`);
+		const levels = sectionLevels(plan.waves[0].foundation).map((l) => l.map((t) => t.id));
+		assert.deepEqual(levels, [["a", "c"], ["b"], ["d"]]);
+	});
+});
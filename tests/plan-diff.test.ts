@@ -0,0 +1,107 @@
+/**
+ * Tests for the semantic plan diff behind /waves-plan-diff.
+ *
+ * Re-plans are reviewed as structural changes: added/removed/modified waves,
+ * features and tasks with field-level detail, plus the completed tasks whose
+ * work no longer matches the new plan.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { diffPlans, formatPlanDiff, invalidatedTasks } from "../extensions/wave-executor/plan-diff.js";
+import type { Plan } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const BEFORE: Plan = {
+	goal: "g",
+	dataSchemas: "",
+	projectStructure: "",
+	environment: "",
+	waves: [
+		{
+			name: "Core",
+			description: "Working state: API",
+			foundation: [task("w1-found-t1", { files: ["src/types.ts"] })],
+			features: [
+				{ name: "auth", files: ["src/auth.ts"], tasks: [task("w1-auth-t1"), task("w1-auth-t2", { depends: ["w1-auth-t1"] })] },
+				{ name: "legacy", files: [], tasks: [task("w1-legacy-t1")] },
+			],
+			integration: [task("w1-int-t1", { depends: ["w1-auth-t2"] })],
+		},
+	],
+};
+
+function after(): Plan {
+	const plan = structuredClone(BEFORE);
+	const wave = plan.waves[0];
+	wave.foundation[0].files.push("src/errors.ts");
+	wave.features[0].files.push("src/session.ts");
+	wave.features[0].tasks[0].title = "Auth tests (renamed)";
+	wave.features.splice(1, 1);
+	wave.features.push({ name: "billing", files: [], tasks: [task("w1-bill-t1")] });
+	plan.waves.push({ name: "Polish", description: "", foundation: [], features: [], integration: [] });
+	return plan;
+}
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Structural diff
+// ════════════════════════════════════════════════════════════════════
+
+describe("diffPlans", () => {
+	it("reports added, removed and modified elements field by field", () => {
+		const diff = diffPlans(BEFORE, after());
+		assert.deepEqual(diff.waves, [{ kind: "added", label: "Polish", fields: [] }]);
+		assert.deepEqual(diff.features.map((f) => `${f.kind} ${f.label}`), [
+			"modified Core / auth",
+			"added Core / billing",
+			"removed Core / legacy",
+		]);
+		assert.deepEqual(diff.tasks.map((t) => `${t.kind} ${t.label}`), [
+			"modified w1-found-t1",
+			"modified w1-auth-t1",
+			"added w1-bill-t1",
+			"removed w1-legacy-t1",
+		]);
+		assert.deepEqual(diff.tasks[0].fields, [{ field: "files", before: "src/types.ts", after: "src/types.ts, src/errors.ts" }]);
+	});
+
+	it("tracks a task moved between sections as a location change", () => {
+		const moved = structuredClone(BEFORE);
+		moved.waves[0].integration.push(moved.waves[0].features[1].tasks.pop()!);
+		const [change] = diffPlans(BEFORE, moved).tasks;
+		assert.equal(change.label, "w1-legacy-t1");
+		assert.deepEqual(change.fields.map((f) => f.field), ["location"]);
+	});
+
+	it("reports identical plans as unchanged", () => {
+		assert.equal(formatPlanDiff(diffPlans(BEFORE, structuredClone(BEFORE))), "No structural changes.");
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Invalidated completed tasks
+// ════════════════════════════════════════════════════════════════════
+
+describe("invalidatedTasks", () => {
+	it("flags modified, removed and downstream completed tasks", () => {
+		const next = after();
+		next.waves[0].features[0].tasks[0].description = "Cover token refresh too.";
+		const diff = diffPlans(BEFORE, next);
+		const completed = ["w1-found-t1", "w1-auth-t1", "w1-auth-t2", "w1-int-t1", "w1-legacy-t1"];
+		assert.deepEqual(invalidatedTasks(diff, next, completed), [
+			{ id: "w1-found-t1", reason: "modified (files)" },
+			{ id: "w1-auth-t1", reason: "modified (description)" },
+			{ id: "w1-auth-t2", reason: "depends on w1-auth-t1" },
+			{ id: "w1-int-t1", reason: "depends on w1-auth-t2" },
+			{ id: "w1-legacy-t1", reason: "removed from the plan" },
+		]);
+	});
+
+	it("ignores title-only changes", () => {
+		const next = after();
+		const diff = diffPlans(BEFORE, next);
+		assert.deepEqual(invalidatedTasks(diff, next, ["w1-auth-t1"]), []);
+		assert.match(formatPlanDiff(diff), /~ w1-auth-t1\n    title: w1-auth-t1 → Auth tests \(renamed\)/);
+	});
+});
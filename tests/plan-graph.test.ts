@@ -0,0 +1,83 @@
+/**
+ * Tests for plan graph export (Mermaid and DOT).
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { renderPlanGraph } from "../extensions/wave-executor/plan-graph.js";
+import { parsePlanV2 } from "../extensions/wave-executor/plan-parser.js";
+
+const PLAN = parsePlanV2(`# Implementation Plan
+
+## Goal
+Ship auth
+
+## Wave 1: Core
+
+### Foundation
+
+#### Task w1-found-t1: Create "shared" types
+- **Agent**: worker
+- **Files**: \`src/types.ts\`
+- **Description**: Types.
+
+### Feature: auth
+
+#### Task w1-auth-t1: Write auth tests
+- **Agent**: test-writer
+- **Files**: \`tests/auth.test.ts\`
+- **Depends**: w1-found-t1
+- **Description**: Tests.
+
+#### Task w1-auth-t2: Implement auth
+- **Agent**: worker
+- **Files**: \`src/auth.ts\`
+- **Depends**: w1-auth-t1
+- **Description**: Implement.
+`);
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Mermaid
+// ════════════════════════════════════════════════════════════════════
+
+describe("renderPlanGraph (mermaid)", () => {
+	const graph = renderPlanGraph(PLAN, "mermaid", { "w1-found-t1": "done", "w1-auth-t1": "failed" });
+
+	it("nests sections inside wave subgraphs", () => {
+		assert.match(graph, /^flowchart TB\n\tsubgraph wave1\["Wave 1: Core"\]/);
+		assert.match(graph, /subgraph wave1_feature_auth\["Feature: auth"\]/);
+	});
+
+	it("labels nodes with their DAG level and escapes quotes", () => {
+		assert.match(graph, /w1_auth_t2\["w1-auth-t2 · L1<br\/>Implement auth"\]/);
+		assert.match(graph, /Create #quot;shared#quot; types/);
+	});
+
+	it("draws dependency edges, including cross-section ones", () => {
+		assert.match(graph, /w1_found_t1 --> w1_auth_t1/);
+		assert.match(graph, /w1_auth_t1 --> w1_auth_t2/);
+	});
+
+	it("colors by agent and by status", () => {
+		assert.match(graph, /class w1_auth_t1 agent_test_writer/);
+		assert.match(graph, /class w1_found_t1,w1_auth_t2 agent_worker/);
+		assert.match(graph, /class w1_auth_t1 status_failed/);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. DOT
+// ════════════════════════════════════════════════════════════════════
+
+describe("renderPlanGraph (dot)", () => {
+	const graph = renderPlanGraph(PLAN, "dot");
+
+	it("renders clusters, ranks and edges", () => {
+		assert.match(graph, /subgraph cluster_wave1 \{\n\t\tlabel="Wave 1: Core";/);
+		assert.match(graph, /\{ rank=same;\n\t\t\t\t"w1-auth-t2"/);
+		assert.match(graph, /"w1-found-t1" -> "w1-auth-t1";/);
+		assert.match(graph, /label="w1-found-t1 · L0\\nCreate \\"shared\\" types"/);
+		assert.doesNotMatch(graph, /penwidth/);
+	});
+});
@@ -0,0 +1,382 @@
+/**
+ * Tests for the plan parser's diagnostics, the Markdown serializer, the
+ * JSON/YAML interchange format and plan includes.
+ *
+ * The parser used to drop anything it didn't recognize. These tests pin down
+ * that broken plans now produce diagnostics pointing at the offending line,
+ * that well-formed plans parse cleanly with source positions attached, and
+ * that serialized plans (Markdown or JSON) parse back to the same plan.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { snapshotPlanIncludes } from "../extensions/wave-executor/plan-includes.js";
+import { formatDiagnostics, formatDuration, hasPlanErrors, parseDuration, parsePlanV2, parsePlanWithDiagnostics, planErrorReport } from "../extensions/wave-executor/plan-parser.js";
+import { loadPlanFile, parsePlanDocument, planToJson } from "../extensions/wave-executor/plan-interchange.js";
+import { serializePlan, stripSourceLocations } from "../extensions/wave-executor/plan-serializer.js";
+import type { Plan } from "../extensions/wave-executor/types.js";
+
+const VALID_PLAN = `# Implementation Plan
+
+## Goal
+Add authentication.
+
+---
+
+## Wave 1: Auth
+Working state: login works
+
+### Foundation
+
+#### Task w1-found-t1: Shared types
+- **Agent**: worker
+- **Files**: \`src/types.ts\`
+- **Description**: Create the types.
+
+### Feature: auth
+Files: src/auth.ts, tests/auth.test.ts
+
+#### Task w1-auth-t1: Write auth tests
+- **Agent**: test-writer
+- **Files**: \`tests/auth.test.ts\`
+- **Description**: Write tests.
+
+#### Task w1-auth-t2: Implement auth
+- **Agent**: worker
+- **Files**: \`src/auth.ts\`
+- **Depends**: w1-auth-t1
+- **Tests**: \`tests/auth.test.ts\`
+- **Description**: Implement it.
+  Keep it small.
+`;
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Well-formed plans
+// ════════════════════════════════════════════════════════════════════
+
+describe("parsePlanWithDiagnostics: valid plan", () => {
+	it("reports no diagnostics", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(VALID_PLAN);
+		assert.deepEqual(diagnostics, []);
+	});
+
+	it("attaches source positions to waves, features and tasks", () => {
+		const { plan } = parsePlanWithDiagnostics(VALID_PLAN);
+		const wave = plan.waves[0];
+		assert.deepEqual(wave.source, { line: 8, column: 1 });
+		assert.deepEqual(wave.foundation[0].source, { line: 13, column: 1 });
+		assert.deepEqual(wave.features[0].source, { line: 18, column: 1 });
+		assert.deepEqual(wave.features[0].tasks[1].source, { line: 26, column: 1 });
+	});
+
+	it("keeps multi-line descriptions", () => {
+		const { plan } = parsePlanWithDiagnostics(VALID_PLAN);
+		assert.equal(plan.waves[0].features[0].tasks[1].description, "Implement it.\n  Keep it small.");
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Lines that used to be dropped silently
+// ════════════════════════════════════════════════════════════════════
+
+describe("parsePlanWithDiagnostics: broken plans", () => {
+	it("flags misspelled metadata as an error with a suggestion", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(VALID_PLAN.replace("- **Agent**: test-writer", "- **Agents**: test-writer"));
+		assert.equal(diagnostics.length, 1);
+		assert.equal(diagnostics[0].severity, "error");
+		assert.equal(diagnostics[0].line, 22);
+		assert.match(diagnostics[0].message, /did you mean "Agent"/);
+	});
+
+	it("warns about unrelated unknown metadata", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(VALID_PLAN.replace("- **Agent**: worker\n- **Files**: `src/types.ts`", "- **Agent**: worker\n- **Owner**: alice\n- **Files**: `src/types.ts`"));
+		assert.equal(diagnostics.length, 1);
+		assert.equal(diagnostics[0].severity, "warning");
+		assert.equal(diagnostics[0].line, 15);
+	});
+
+	it("flags tasks outside any section", () => {
+		const md = VALID_PLAN.replace("### Foundation\n", "");
+		const { diagnostics } = parsePlanWithDiagnostics(md);
+		assert.ok(hasPlanErrors(diagnostics));
+		assert.match(diagnostics[0].message, /w1-found-t1 is not inside a Foundation, Feature or Integration section/);
+		assert.equal(diagnostics[0].line, 12);
+	});
+
+	it("flags duplicate task IDs at the second definition", () => {
+		const md = VALID_PLAN.replace("#### Task w1-auth-t1:", "#### Task w1-found-t1:").replace("- **Depends**: w1-auth-t1", "- **Depends**: w1-found-t1");
+		const { diagnostics } = parsePlanWithDiagnostics(md);
+		const dup = diagnostics.find((d) => d.message.startsWith("Duplicate task ID"));
+		assert.ok(dup);
+		assert.equal(dup.line, 21);
+		assert.match(dup.message, /first defined on line 13/);
+	});
+
+	it("flags dependencies on unknown tasks", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(VALID_PLAN.replace("- **Depends**: w1-auth-t1", "- **Depends**: w1-auth-t9"));
+		assert.equal(diagnostics.length, 1);
+		assert.match(diagnostics[0].message, /unknown task "w1-auth-t9"/);
+	});
+
+	it("flags malformed wave headers", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(`${VALID_PLAN}\n## Wave 2 - Payments\n`);
+		assert.ok(diagnostics.some((d) => d.severity === "error" && /Malformed wave header/.test(d.message)));
+	});
+
+	it("reports the errors a run refuses to start with", () => {
+		const md = VALID_PLAN
+			.replace("- **Agent**: worker\n- **Files**: `src/types.ts`", "- **Agent**: worker\n- **Owner**: alice\n- **Files**: `src/types.ts`")
+			.replace("- **Depends**: w1-auth-t1", "- **Depends**: w1-auth-t9");
+		const report = planErrorReport(parsePlanWithDiagnostics(md).diagnostics, "plan-v1.md");
+		assert.match(report ?? "", /^plan-v1\.md:\d+:\d+: error: .*unknown task "w1-auth-t9"$/);
+		assert.equal(planErrorReport(parsePlanWithDiagnostics(VALID_PLAN.replace("- **Agent**: worker\n", "- **Agent**: worker\n- **Owner**: alice\n")).diagnostics), null);
+	});
+
+	it("does not treat description bullets as metadata typos", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(VALID_PLAN.replace("Keep it small.", "- **Fields**: id, name"));
+		assert.deepEqual(diagnostics, []);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 3. Serializer round-trip
+// ════════════════════════════════════════════════════════════════════
+
+const FULL_PLAN: Plan = {
+	goal: "Ship payments.",
+	projectStructure: "## Project Structure\n```\nsrc/\n  payments/   ← new\n```",
+	environment: "## Environment\n- Node 20\n- Tests: `npm test`",
+	dataSchemas: "## Data Schemas\n\n### Shared Types\n```typescript\ninterface Payment { id: string; amountCents: number }\n```",
+	waves: [
+		{
+			name: "Payments core",
+			description: "Working state: payments can be created",
+			foundation: [
+				{ id: "w1-found-t1", title: "Types", agent: "worker", files: ["src/types.ts"], depends: [], specRefs: ["FR-1"], testFiles: [], description: "Create the Payment type." },
+			],
+			features: [
+				{
+					name: "api",
+					files: ["src/api.ts", "tests/api.test.ts"],
+					tasks: [
+						{ id: "w1-api-t1", title: "API tests", agent: "test-writer", files: ["tests/api.test.ts"], depends: [], specRefs: [], testFiles: [], description: "Write tests.\n  ```ts\n  expect(create()).toBeDefined();\n  ```" },
+						{ id: "w1-api-t2", title: "API", agent: "worker", files: ["src/api.ts"], depends: ["w1-api-t1"], specRefs: ["FR-2", "FR-3"], testFiles: ["tests/api.test.ts"], description: "" },
+					],
+				},
+			],
+			integration: [
+				{ id: "w1-int-t1", title: "Verify", agent: "wave-verifier", files: [], depends: [], specRefs: [], testFiles: [], description: "Run `npm test`." },
+			],
+		},
+		{ name: "Empty wave", description: "", foundation: [], features: [], integration: [] },
+	],
+};
+
+describe("serializePlan", () => {
+	it("round-trips a plan built in code", () => {
+		const parsed = stripSourceLocations(parsePlanV2(serializePlan(FULL_PLAN)));
+		assert.deepEqual(parsed, FULL_PLAN);
+	});
+
+	it("round-trips a parsed plan", () => {
+		const original = stripSourceLocations(parsePlanV2(VALID_PLAN));
+		assert.deepEqual(stripSourceLocations(parsePlanV2(serializePlan(original))), original);
+	});
+
+	it("is stable when re-serialized", () => {
+		const once = serializePlan(FULL_PLAN);
+		assert.equal(serializePlan(parsePlanV2(once)), once);
+	});
+
+	it("omits the title when there is no goal", () => {
+		const md = serializePlan({ ...FULL_PLAN, goal: "" });
+		assert.equal(parsePlanV2(md).goal, "");
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 4. JSON / YAML plans
+// ════════════════════════════════════════════════════════════════════
+
+describe("parsePlanDocument", () => {
+	it("round-trips through planToJson", () => {
+		const { plan, diagnostics } = parsePlanDocument(planToJson(FULL_PLAN, "docs/spec.md"));
+		assert.ok(!hasPlanErrors(diagnostics));
+		assert.deepEqual(stripSourceLocations(plan), FULL_PLAN);
+	});
+
+	it("reads YAML and fills parser defaults", () => {
+		const yaml = [
+			"goal: Ship it",
+			"waves:",
+			"  - name: Core",
+			"    features:",
+			"      - name: api",
+			"        tasks:",
+			"          - id: w1-api-t1",
+			"            title: Build API",
+		].join("\n");
+		const { plan, diagnostics } = parsePlanDocument(yaml);
+		assert.deepEqual(diagnostics, []);
+		const task = plan.waves[0].features[0].tasks[0];
+		assert.equal(task.agent, "worker");
+		assert.deepEqual(task.files, []);
+		assert.deepEqual(task.source, { line: 7, column: 13 });
+	});
+
+	it("reports schema violations at the offending line", () => {
+		const yaml = [
+			"goal: Ship it",
+			"waves:",
+			"  - name: Core",
+			"    foundation:",
+			"      - id: w1-found-t1",
+			"        title: Types",
+			"        agents: worker",
+		].join("\n");
+		const { diagnostics } = parsePlanDocument(yaml);
+		assert.equal(diagnostics.length, 1);
+		assert.equal(diagnostics[0].line, 7);
+		assert.match(diagnostics[0].message, /unknown property "agents"/);
+	});
+
+	it("applies plan-level checks to valid documents", () => {
+		const json = JSON.stringify({
+			goal: "g",
+			waves: [{ name: "w", integration: [{ id: "a", title: "A", depends: ["missing"] }] }],
+		});
+		const { diagnostics } = parsePlanDocument(json);
+		assert.ok(diagnostics.some((d) => /unknown task "missing"/.test(d.message)));
+	});
+
+	it("reports syntax errors", () => {
+		const { diagnostics } = parsePlanDocument("{ \"goal\": ");
+		assert.ok(hasPlanErrors(diagnostics));
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 5. Per-task execution overrides
+// ════════════════════════════════════════════════════════════════════
+
+describe("task execution overrides", () => {
+	const withOverrides = VALID_PLAN.replace(
+		"- **Tests**: `tests/auth.test.ts`",
+		"- **Tests**: `tests/auth.test.ts`\n- **Timeout**: 1h30m\n- **Model**: claude-opus-4\n- **Retries**: 2\n- **Retry Policy**: stall=2, rate-limit=5, budget=4\n- **Tools**: read, bash",
+	);
+
+	it("parses Timeout, Model, Retries, Retry Policy and Tools", () => {
+		const { plan, diagnostics } = parsePlanWithDiagnostics(withOverrides);
+		assert.deepEqual(diagnostics, []);
+		const task = plan.waves[0].features[0].tasks[1];
+		assert.equal(task.timeoutMs, 90 * 60 * 1000);
+		assert.equal(task.model, "claude-opus-4");
+		assert.equal(task.retries, 2);
+		assert.deepEqual(task.retryPolicy, { retries: { stall: 2, "rate-limit": 5 }, budget: 4 });
+		assert.deepEqual(task.tools, ["read", "bash"]);
+		assert.equal(plan.waves[0].features[0].tasks[0].timeoutMs, undefined);
+	});
+
+	it("round-trips through Markdown and JSON", () => {
+		const original = stripSourceLocations(parsePlanV2(withOverrides));
+		assert.deepEqual(stripSourceLocations(parsePlanV2(serializePlan(original))), original);
+		assert.deepEqual(stripSourceLocations(parsePlanDocument(planToJson(original)).plan), original);
+	});
+
+	it("reports unparseable values", () => {
+		const { diagnostics } = parsePlanWithDiagnostics(withOverrides.replace("1h30m", "forever").replace("**Retries**: 2", "**Retries**: twice"));
+		assert.equal(diagnostics.length, 2);
+		assert.match(diagnostics[0].message, /Invalid timeout "forever"/);
+		assert.match(diagnostics[1].message, /Invalid retries "twice"/);
+	});
+
+	it("parses feature and task Review lines, with none turning a task's review off", () => {
+		const reviewed = VALID_PLAN
+			.replace("Files: src/auth.ts, tests/auth.test.ts", "Files: src/auth.ts, tests/auth.test.ts\nReview: reviewer, security-reviewer")
+			.replace("- **Depends**: w1-auth-t1", "- **Depends**: w1-auth-t1\n- **Review**: none")
+			.replace("- **Files**: `src/types.ts`", "- **Files**: `src/types.ts`\n- **Reviewers**: `reviewer`");
+		const { plan, diagnostics } = parsePlanWithDiagnostics(reviewed);
+		assert.deepEqual(diagnostics, []);
+		assert.deepEqual(plan.waves[0].features[0].review, ["reviewer", "security-reviewer"]);
+		assert.deepEqual(plan.waves[0].features[0].tasks[1].review, []);
+		assert.deepEqual(plan.waves[0].foundation[0].review, ["reviewer"]);
+
+		const original = stripSourceLocations(plan);
+		assert.deepEqual(stripSourceLocations(parsePlanV2(serializePlan(original))), original);
+		assert.deepEqual(stripSourceLocations(parsePlanDocument(planToJson(original)).plan), original);
+	});
+
+	it("formats durations that parse back exactly", () => {
+		for (const ms of [1500, 90_000, 25 * 60_000, 5_400_000, 3_661_001]) {
+			assert.equal(parseDuration(formatDuration(ms)), ms);
+		}
+		assert.equal(formatDuration(25 * 60_000), "25m");
+		assert.equal(parseDuration("10"), 10 * 60_000);
+		assert.equal(parseDuration("0s"), null);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 6. Plan includes
+// ════════════════════════════════════════════════════════════════════
+
+describe("plan includes", () => {
+	const WAVE_2 = `## Wave 2: Payments
+
+### Foundation
+
+#### Task w2-found-t1: Payment types
+- **Agent**: worker
+- **Agnet**: worker
+`;
+
+	function project(files: Record<string, string>): string {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "plan-includes-"));
+		for (const [name, content] of Object.entries(files)) {
+			fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+			fs.writeFileSync(path.join(dir, name), content);
+		}
+		return dir;
+	}
+
+	it("expands includes and reports positions in the included file", () => {
+		const dir = project({
+			"plan-v1.md": `${VALID_PLAN}\n<!-- include: waves/wave-2.md -->\n`,
+			"waves/wave-2.md": WAVE_2,
+		});
+		const { plan, diagnostics } = loadPlanFile(path.join(dir, "plan-v1.md"));
+		assert.equal(plan.waves.length, 2);
+		assert.deepEqual(plan.waves[1].source, { file: "waves/wave-2.md", line: 1, column: 1 });
+		assert.equal(diagnostics.length, 1);
+		assert.equal(formatDiagnostics(diagnostics, "plan-v1.md").split(":").slice(0, 2).join(":"), "waves/wave-2.md:7");
+		assert.deepEqual(plan.waves[0].features[0].tasks[1].source, { line: 26, column: 1 });
+	});
+
+	it("reports missing files and cycles at the directive", () => {
+		const dir = project({
+			"plan-v1.md": `${VALID_PLAN}\n<!-- include: waves/a.md -->\n<!-- include: waves/missing.md -->\n`,
+			"waves/a.md": "<!-- include: waves/a.md -->\n",
+		});
+		const messages = loadPlanFile(path.join(dir, "plan-v1.md")).diagnostics.map((d) => `${d.file ?? "plan"}:${d.line}: ${d.message}`);
+		assert.deepEqual(messages, [
+			"waves/a.md:1: Include cycle: waves/a.md → waves/a.md",
+			"plan:35: Included file not found: waves/missing.md",
+		]);
+	});
+
+	it("keeps older versions reading their own include set", () => {
+		const dir = project({
+			"plan-v1.md": `${VALID_PLAN}\n<!-- include: waves/wave-2.md -->\n`,
+			"waves/wave-2.md": WAVE_2,
+		});
+		const v1 = path.join(dir, "plan-v1.md");
+		assert.deepEqual(snapshotPlanIncludes(v1), ["waves/wave-2.md"]);
+		fs.writeFileSync(path.join(dir, "waves/wave-2.md"), WAVE_2.replace("Payments", "Refunds"));
+		assert.equal(loadPlanFile(v1).plan.waves[1].name, "Payments");
+		assert.deepEqual(snapshotPlanIncludes(v1), []);
+	});
+});
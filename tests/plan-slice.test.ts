@@ -0,0 +1,102 @@
+/**
+ * Tests for `/waves-run` slices: resolving a task, feature or wave and the
+ * completed tasks that build on it.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { invalidationSet } from "../extensions/wave-executor/invalidation.js";
+import { resolvePlanSlice, sliceInvalidations, type PlanSlice } from "../extensions/wave-executor/plan-slice.js";
+import type { Plan } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const plan: Plan = {
+	goal: "g",
+	dataSchemas: "",
+	projectStructure: "",
+	environment: "",
+	waves: [
+		{
+			name: "Basics",
+			description: "",
+			foundation: [task("w1-found-t1")],
+			features: [
+				{ name: "auth", files: [], tasks: [task("w1-auth-t1"), task("w1-auth-t2", { depends: ["w1-auth-t1"] })] },
+				{ name: "payments", files: [], tasks: [task("w1-pay-t1")] },
+			],
+			integration: [task("w1-int-t1", { depends: ["w1-auth-t2"] })],
+		},
+		{
+			name: "Polish",
+			description: "",
+			foundation: [],
+			features: [{ name: "auth", files: [], tasks: [task("w2-auth-t1", { depends: ["w1-int-t1"] })] }],
+			integration: [],
+		},
+	],
+};
+
+const slice = (target: string): PlanSlice => {
+	const result = resolvePlanSlice(plan, target);
+	assert.notEqual(typeof result, "string", result as string);
+	return result as PlanSlice;
+};
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Resolving
+// ════════════════════════════════════════════════════════════════════
+
+describe("resolvePlanSlice", () => {
+	it("keeps a single task in its own section", () => {
+		const s = slice("w1-auth-t2");
+		assert.equal(s.kind, "task");
+		assert.equal(s.waveIndex, 0);
+		assert.deepEqual(s.wave.foundation, []);
+		assert.deepEqual(s.wave.features.map((f) => [f.name, f.tasks.map((t) => t.id)]), [["auth", ["w1-auth-t2"]]]);
+		assert.deepEqual(s.wave.integration, []);
+	});
+
+	it("selects a feature, qualified by wave when the name repeats", () => {
+		assert.deepEqual(slice("payments").taskIds, ["w1-pay-t1"]);
+		assert.match(resolvePlanSlice(plan, "auth") as string, /waves 1, 2/);
+		const s = slice("2/auth");
+		assert.equal(s.waveIndex, 1);
+		assert.deepEqual(s.taskIds, ["w2-auth-t1"]);
+	});
+
+	it("selects a wave by number or name", () => {
+		assert.equal(slice("wave 2").waveIndex, 1);
+		assert.equal(slice("basics").taskIds.length, 5);
+		assert.match(resolvePlanSlice(plan, "nope") as string, /No task, feature or wave/);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Invalidation
+// ════════════════════════════════════════════════════════════════════
+
+describe("sliceInvalidations", () => {
+	it("lists completed tasks downstream of the slice", () => {
+		const done = ["w1-auth-t1", "w1-auth-t2", "w1-int-t1", "w1-pay-t1", "w2-auth-t1"];
+		assert.deepEqual(sliceInvalidations(plan, slice("w1-auth-t1"), done), [
+			{ id: "w1-auth-t2", reason: "depends on w1-auth-t1" },
+			{ id: "w1-int-t1", reason: "depends on w1-auth-t2" },
+			{ id: "w2-auth-t1", reason: "depends on w1-int-t1" },
+		]);
+		assert.deepEqual(sliceInvalidations(plan, slice("1/auth"), ["w1-auth-t2"]), []);
+	});
+
+	it("resets the same tasks as /waves-invalidate", () => {
+		// Without Depends:, integration waits on every feature task
+		const open = structuredClone(plan);
+		open.waves[0].integration[0].depends = [];
+		const pay = resolvePlanSlice(open, "w1-pay-t1") as PlanSlice;
+		const done = ["w1-found-t1", "w1-auth-t1", "w1-int-t1", "w2-auth-t1"];
+		assert.deepEqual(sliceInvalidations(open, pay, done), [
+			{ id: "w1-int-t1", reason: "depends on w1-pay-t1" },
+			{ id: "w2-auth-t1", reason: "depends on w1-int-t1" },
+		]);
+		assert.deepEqual(invalidationSet(open, ["w1-pay-t1"]).slice(1), sliceInvalidations(open, pay, done));
+	});
+});
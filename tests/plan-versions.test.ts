@@ -0,0 +1,57 @@
+/**
+ * Tests for plan versioning: starting a new plan version freezes the include
+ * set of the previous one.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { planPath } from "../extensions/wave-executor/helpers.js";
+import { loadPlanFile } from "../extensions/wave-executor/plan-interchange.js";
+import { stripSourceLocations } from "../extensions/wave-executor/plan-serializer.js";
+
+const PLAN = `# Implementation Plan
+
+## Goal
+Payments
+
+<!-- include: waves/wave-1.md -->
+`;
+
+const WAVE_1 = `## Wave 1: Payments
+
+### Foundation
+
+#### Task w1-found-t1: Payment types
+- **Agent**: worker
+- **Files**: \`src/payments.ts\`
+- **Description**: Define the types.
+`;
+
+// ════════════════════════════════════════════════════════════════════
+// 1. New versions
+// ════════════════════════════════════════════════════════════════════
+
+describe("planPath", () => {
+	it("freezes the previous version's includes", () => {
+		const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "plan-versions-"));
+		const dir = path.join(cwd, ".pi", "waves", "pay");
+		fs.mkdirSync(path.join(dir, "waves"), { recursive: true });
+		const v1 = path.join(dir, "plan-v1.md");
+		fs.writeFileSync(v1, PLAN);
+		fs.writeFileSync(path.join(dir, "waves", "wave-1.md"), WAVE_1);
+		const before = stripSourceLocations(loadPlanFile(v1).plan);
+
+		// The next version edits the shared include
+		const v2 = planPath(cwd, "pay");
+		assert.equal(v2, path.join(dir, "plan-v2.md"));
+		fs.writeFileSync(v2, PLAN);
+		fs.writeFileSync(path.join(dir, "waves", "wave-1.md"), WAVE_1.replace("Payment types", "Refund types"));
+
+		assert.deepEqual(stripSourceLocations(loadPlanFile(v1).plan), before);
+		assert.equal(loadPlanFile(v2).plan.waves[0].foundation[0].title, "Refund types");
+	});
+});
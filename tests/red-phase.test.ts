@@ -0,0 +1,130 @@
+/**
+ * Tests for the TDD red-phase check: a test-writer's new tests must fail
+ * before anything implements them, on assertions or the missing
+ * implementation — not pass, and not crash.
+ */
+
+import { describe, it, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { setRunnerOverride } from "../extensions/wave-executor/helpers.js";
+import { classifyRedRun, failsTask, redPhaseCommand, verifyRedPhase } from "../extensions/wave-executor/red-phase.js";
+import { DEFAULT_RETRY_POLICY } from "../extensions/wave-executor/retry-policy.js";
+import { runTaskAttempts } from "../extensions/wave-executor/task-runner.js";
+import type { CheckResult } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const run = (exitCode: number, output: string): CheckResult => ({ command: "npm test", exitCode, output, durationMs: 0 });
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Classification
+// ════════════════════════════════════════════════════════════════════
+
+describe("classifyRedRun", () => {
+	it("accepts assertion and missing-implementation failures", () => {
+		assert.equal(classifyRedRun(run(1, "not ok 1 - logs in\n  AssertionError [ERR_ASSERTION]: Expected values to be strictly equal\n# pass 0\n# fail 1")), null);
+		assert.equal(classifyRedRun(run(1, "Error [ERR_MODULE_NOT_FOUND]: Cannot find module '/app/src/auth.js'")), null);
+		// Node reports a missing ESM export as a SyntaxError
+		assert.equal(classifyRedRun(run(1, "SyntaxError: The requested module '../src/auth.js' does not provide an export named 'login'")), null);
+		assert.equal(classifyRedRun(run(1, "E   ModuleNotFoundError: No module named 'app.auth'")), null);
+		assert.equal(classifyRedRun(run(1, " FAIL  tests/auth.test.ts\n Tests  2 failed (2)")), null);
+	});
+
+	it("flags tests that already pass", () => {
+		assert.deepEqual(classifyRedRun(run(0, "# tests 3\n# pass 3\n# fail 0")), { kind: "passing", reason: "3 passed, none failed" });
+	});
+
+	it("flags tests that crash instead of failing", () => {
+		assert.deepEqual(classifyRedRun(run(1, "/app/tests/auth.test.ts:4\n  it('logs in', () => {\nSyntaxError: Unexpected token ')'")),
+			{ kind: "crash", reason: "SyntaxError: Unexpected token ')'" });
+		assert.deepEqual(classifyRedRun(run(1, "TypeError: Cannot read properties of undefined (reading 'env')\n    at tests/setup.ts:3")),
+			{ kind: "crash", reason: "crashed before any test ran: TypeError: Cannot read properties of undefined (reading 'env')" });
+	});
+
+	it("records unrecognized failures without failing the task", () => {
+		assert.deepEqual(classifyRedRun(run(2, "something went wrong")), { kind: "unclear", reason: "exited with 2 without a recognizable test failure" });
+		assert.equal(failsTask({ kind: "unclear", reason: "", command: "npm test", output: "" }), false);
+		assert.equal(classifyRedRun({ ...run(124, ""), timedOut: true })?.kind, "unclear");
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Running the tests
+// ════════════════════════════════════════════════════════════════════
+
+describe("verifyRedPhase", () => {
+	it("narrows the Test gate to the task's files", () => {
+		assert.equal(redPhaseCommand("npx vitest run {tests}", ["tests/a b.test.ts", "tests/c.test.ts"]), "npx vitest run 'tests/a b.test.ts' tests/c.test.ts");
+		assert.equal(redPhaseCommand("npm test", ["tests/a.test.ts"]), null);
+		assert.equal(redPhaseCommand(undefined, ["tests/a.test.ts"]), null);
+		assert.equal(redPhaseCommand("npx vitest run {tests}", []), null);
+	});
+
+	it("runs the command and records a violation with its output", async () => {
+		assert.equal(await verifyRedPhase(`echo "AssertionError: nope" && exit 1`, os.tmpdir()), undefined);
+		const violation = await verifyRedPhase(`echo "# pass 2" && echo "# fail 0"`, os.tmpdir());
+		assert.equal(violation?.kind, "passing");
+		assert.equal(violation?.command, `echo "# pass 2" && echo "# fail 0"`);
+		assert.match(violation?.output ?? "", /# pass 2/);
+		assert.equal(failsTask(violation), true);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 3. Reruns
+// ════════════════════════════════════════════════════════════════════
+
+describe("red phase on a rerun", () => {
+	afterEach(() => setRunnerOverride(null));
+
+	/** A repo whose passing auth tests were implemented by w1-auth-t2 in an earlier run. */
+	function implementedRepo(): string {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "red-rerun-"));
+		const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+		git("init", "-q");
+		git("config", "user.name", "t");
+		git("config", "user.email", "t@t");
+		fs.mkdirSync(path.join(dir, "tests"));
+		fs.writeFileSync(path.join(dir, "tests", "auth.test.mjs"), `import test from "node:test";\ntest("logs in", () => {});\n`);
+		git("add", ".");
+		git("commit", "-q", "-m", "pi: w1-auth-t1 [test-writer] — Auth tests");
+		fs.writeFileSync(path.join(dir, "auth.mjs"), "export const login = () => true;\n");
+		git("add", ".");
+		git("commit", "-q", "-m", "pi: w1-auth-t2 [worker] — Auth");
+		return dir;
+	}
+
+	const rerun = (cwd: string, implementers: string[]) => {
+		setRunnerOverride({
+			spawn: async () => ({ exitCode: 0, stdout: "", stderr: "" }),
+			extractFinalOutput: () => "done",
+		});
+		return runTaskAttempts({
+			task: task("w1-auth-t1", { agent: "test-writer", files: ["tests/auth.test.mjs"] }),
+			agentName: "test-writer",
+			prompt: "",
+			cwd,
+			policy: DEFAULT_RETRY_POLICY,
+			redPhase: "node --test {tests}",
+			implementers,
+		});
+	};
+
+	it("skips the check once an implementation task is committed", async () => {
+		const result = await rerun(implementedRepo(), ["w1-auth-t2"]);
+		assert.equal(result.exitCode, 0);
+		assert.equal(result.tddViolation?.kind, "skipped");
+		assert.equal(result.tddViolation?.reason, "already implemented by w1-auth-t2");
+		assert.equal(failsTask(result.tddViolation), false);
+	});
+
+	it("still fails passing tests nothing has implemented yet", async () => {
+		const result = await rerun(implementedRepo(), ["w1-pay-t2"]);
+		assert.notEqual(result.exitCode, 0);
+		assert.equal(result.tddViolation?.kind, "passing");
+	});
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for ReplayRunner: recording a session (event stream + file changes)
+ * into a cassette, then replaying it into a fresh checkout without spawning.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { ReplayRunner } from "../extensions/runner/replay-runner.js";
+import type { AgentRunner, RunnerConfig } from "../extensions/runner/types.js";
+
+const EVENTS = JSON.stringify({ type: "message_end", message: { role: "assistant", content: [{ type: "text", text: "done" }] } }) + "\n";
+
+function gitRepo(): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "replay-"));
+	const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+	git("init", "-q");
+	fs.writeFileSync(path.join(dir, "keep.ts"), "export {};\n");
+	fs.writeFileSync(path.join(dir, "old.ts"), "old\n");
+	git("add", ".");
+	git("-c", "user.name=t", "-c", "user.email=t@t", "commit", "-q", "-m", "init");
+	return dir;
+}
+
+let spawnCalls = 0;
+
+/** Stand-in for a real runtime: edits the working tree and prints events. */
+const fakeAgent: AgentRunner = {
+	async spawn(config: RunnerConfig) {
+		spawnCalls++;
+		fs.mkdirSync(path.join(config.cwd, "src"), { recursive: true });
+		fs.writeFileSync(path.join(config.cwd, "src", "auth.ts"), `export const attempt = ${spawnCalls};\n`);
+		fs.rmSync(path.join(config.cwd, "old.ts"));
+		return { exitCode: 0, stdout: EVENTS, stderr: "" };
+	},
+	extractFinalOutput: () => "done",
+};
+
+const config = (cwd: string) => ({ agentName: "worker", systemPrompt: "", task: "You are implementing code.\n\n**w1-auth-t1: Auth**\n", cwd });
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Record and replay
+// ════════════════════════════════════════════════════════════════════
+
+describe("ReplayRunner", () => {
+	it("records events and file changes, then replays them offline", async () => {
+		const cassette = fs.mkdtempSync(path.join(os.tmpdir(), "cassette-"));
+		const recorder = new ReplayRunner(cassette, fakeAgent);
+		await recorder.spawn(config(gitRepo()));
+		await recorder.spawn(config(gitRepo()));
+
+		const meta = JSON.parse(fs.readFileSync(path.join(cassette, "w1-auth-t1-1", "meta.json"), "utf-8"));
+		assert.deepEqual([meta.changed, meta.deleted, meta.finalOutput], [["src/auth.ts"], ["old.ts"], "done"]);
+
+		const replayer = new ReplayRunner(cassette);
+		const target = gitRepo();
+		const first = await replayer.spawn(config(target));
+		assert.equal(first.stdout, EVENTS);
+		assert.equal(replayer.extractFinalOutput(first.stdout), "done");
+		assert.equal(fs.readFileSync(path.join(target, "src", "auth.ts"), "utf-8"), "export const attempt = 1;\n");
+		assert.equal(fs.existsSync(path.join(target, "old.ts")), false);
+
+		// The second run of the same task replays the second recording (retries)
+		await replayer.spawn(config(target));
+		assert.equal(fs.readFileSync(path.join(target, "src", "auth.ts"), "utf-8"), "export const attempt = 2;\n");
+
+		const missing = await replayer.spawn(config(target));
+		assert.equal(missing.exitCode, 1);
+		assert.match(missing.stderr, /no recorded run/);
+		assert.equal(spawnCalls, 2);
+	});
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for retry policies: resolving project and task overrides, failure
+ * classification, class limits and the total budget, and backoff curves.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import {
+	backoffDelay,
+	canRetry,
+	classifyFailure,
+	DEFAULT_RETRY_POLICY,
+	parseRetryPolicy,
+	resolveRetryPolicy,
+	retryDelay,
+	taskRetryOverrides,
+	validateRetryOverrides,
+} from "../extensions/wave-executor/retry-policy.js";
+import type { FailureClass, TaskAttempt } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const attempts = (...reasons: ("initial" | "re-verify" | FailureClass)[]): TaskAttempt[] =>
+	reasons.map((reason, i) => ({ attempt: i + 1, agent: "worker", reason, exitCode: 1, durationMs: 0 }));
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Resolving policies
+// ════════════════════════════════════════════════════════════════════
+
+describe("resolveRetryPolicy", () => {
+	it("layers project and task overrides over the defaults", () => {
+		const project = resolveRetryPolicy(DEFAULT_RETRY_POLICY, { retries: { timeout: 1 }, backoff: { "rate-limit": { initialMs: 30_000 } } });
+		const policy = resolveRetryPolicy(project, ...taskRetryOverrides(task("w1-auth-t1", { retries: 2, retryPolicy: { retries: { timeout: 0 }, budget: 3 } })));
+		assert.deepEqual(policy.retries, { ...DEFAULT_RETRY_POLICY.retries, failed: 2, timeout: 0 });
+		assert.equal(policy.budget, 3);
+		assert.deepEqual(policy.backoff["rate-limit"], { initialMs: 30_000, factor: 2, maxMs: 240_000, jitter: 0.1 });
+		assert.equal(DEFAULT_RETRY_POLICY.retries.timeout, 0);
+	});
+
+	it("parses the Markdown form and rejects unknown classes", () => {
+		assert.deepEqual(parseRetryPolicy("stall=2, timeout=1, budget=4"), { retries: { stall: 2, timeout: 1 }, budget: 4 });
+		assert.match(parseRetryPolicy("flaky=2") as string, /unknown failure class "flaky"/);
+		assert.match(parseRetryPolicy("stall=lots") as string, /whole number/);
+	});
+
+	it("validates retry-policy.json", () => {
+		assert.deepEqual(validateRetryOverrides({ retries: { infra: 2 }, backoff: { timeout: { initialMs: 1000, jitter: 0.2 } }, budget: 5 }), []);
+		assert.deepEqual(validateRetryOverrides({ retries: { infra: -1 }, backoff: { timeout: { delay: 1 } }, budgets: 5 }), [
+			'unknown key "budgets"',
+			"retries.infra: expected a whole number",
+			'backoff.timeout: unknown key "delay"',
+		]);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Retry decisions
+// ════════════════════════════════════════════════════════════════════
+
+describe("retry decisions", () => {
+	it("classifies failures, stalls first and failed checks as failed", () => {
+		assert.equal(classifyFailure({ exitCode: 0 }), null);
+		assert.equal(classifyFailure({ exitCode: 0 }, { checksFailed: true }), "failed");
+		assert.equal(classifyFailure({ exitCode: 1, stall: { reason: "loop" }, timedOut: true }), "stall");
+		assert.equal(classifyFailure({ exitCode: 1, timedOut: true }, { rateLimited: true }), "rate-limit");
+		assert.equal(classifyFailure({ exitCode: 1, timedOut: true, infraErrors: ["ENOSPC"] }), "timeout");
+		assert.equal(classifyFailure({ exitCode: 1, infraErrors: ["ENOSPC"] }), "infra");
+		assert.equal(classifyFailure({ exitCode: 2 }), "failed");
+	});
+
+	it("stops at the class limit and at the total budget", () => {
+		const policy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, { budget: 2 });
+		assert.equal(canRetry(policy, attempts("initial"), "stall"), true);
+		assert.equal(canRetry(policy, attempts("initial", "stall"), "stall"), false);
+		assert.equal(canRetry(policy, attempts("initial", "stall"), "timeout"), false);
+		assert.equal(canRetry(policy, attempts("initial", "stall"), "failed", 1), true);
+		assert.equal(canRetry(policy, attempts("initial", "stall", "rate-limit"), "rate-limit"), false);
+		// Re-verification after a fix cycle doesn't use the budget; the fix does
+		assert.equal(canRetry(policy, attempts("initial", "verifier-fail", "re-verify"), "rate-limit"), true);
+		assert.equal(canRetry(policy, attempts("initial", "verifier-fail", "re-verify"), "verifier-fail"), false);
+	});
+
+	it("backs off exponentially up to the cap, with jitter", () => {
+		const curve = { initialMs: 60_000, factor: 2, maxMs: 240_000, jitter: 0.1 };
+		assert.deepEqual([1, 2, 3, 4].map((n) => backoffDelay(curve, n, () => 0.5)), [60_000, 120_000, 240_000, 240_000]);
+		assert.equal(backoffDelay(curve, 1, () => 0), 54_000);
+		assert.equal(backoffDelay(curve, 1, () => 1), 66_000);
+		assert.equal(backoffDelay(undefined, 1), 0);
+		assert.equal(retryDelay(DEFAULT_RETRY_POLICY, attempts("initial", "rate-limit"), "rate-limit", () => 0.5), 120_000);
+		assert.equal(retryDelay(DEFAULT_RETRY_POLICY, attempts("initial"), "stall"), 0);
+	});
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for the review stage: parsing reviewer findings, which findings
+ * block, and the approved / blocked / error outcomes of a review with its
+ * revision round.
+ */
+
+import { describe, it, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { setRunnerOverride } from "../extensions/wave-executor/helpers.js";
+import { blockingFindings, parseReviewFindings, reviewTask } from "../extensions/wave-executor/review.js";
+import type { AgentRunner } from "../extensions/runner/types.js";
+import type { ReviewFinding, TaskAttempt, TaskResult } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const json = (findings: unknown[]) => "```json\n" + JSON.stringify({ findings }) + "\n```";
+
+const CRITICAL = { severity: "critical", file: "src/auth.ts", line: 42, message: "Password compared with ==" };
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Findings
+// ════════════════════════════════════════════════════════════════════
+
+describe("parseReviewFindings", () => {
+	it("reads the last fenced JSON block", () => {
+		const output = `Looked at it.\n${json([{ severity: "suggestion", message: "Old" }])}\nOn second thought:\n${json([CRITICAL])}`;
+		assert.deepEqual(parseReviewFindings(output, "security-reviewer"), [
+			{ severity: "critical", reviewer: "security-reviewer", message: "Password compared with ==", file: "src/auth.ts", line: 42 },
+		]);
+	});
+
+	it("falls back to bare JSON", () => {
+		assert.deepEqual(parseReviewFindings('{"findings": []}', "r"), []);
+		assert.deepEqual(parseReviewFindings('{"findings": [{"message": "Rename it", "severity": "suggestion"}]}', "r"), [
+			{ severity: "suggestion", reviewer: "r", message: "Rename it" },
+		]);
+	});
+
+	it("maps an unknown severity to warning and drops findings without a message", () => {
+		const findings = parseReviewFindings(json([{ severity: "blocker", message: "Hmm", line: 1.5 }, { severity: "critical" }, "text"]), "r");
+		assert.deepEqual(findings, [{ severity: "warning", reviewer: "r", message: "Hmm" }]);
+	});
+
+	it("returns null without a findings block", () => {
+		assert.equal(parseReviewFindings("Looks good to me.", "r"), null);
+		assert.equal(parseReviewFindings(json([]).replace("findings", "issues"), "r"), null);
+	});
+});
+
+describe("blockingFindings", () => {
+	it("blocks on critical findings only", () => {
+		const finding = (severity: ReviewFinding["severity"]): ReviewFinding => ({ severity, reviewer: "r", message: severity });
+		assert.deepEqual(blockingFindings([finding("suggestion"), finding("critical"), finding("warning")]), [finding("critical")]);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Review
+// ════════════════════════════════════════════════════════════════════
+
+/** Reviewer stand-in answering each review run with the next of `answers` (a number is an exit code). */
+function reviewers(...answers: (string | number)[]) {
+	const runner: AgentRunner = {
+		async spawn() {
+			const answer = answers.shift() ?? "";
+			return typeof answer === "number"
+				? { exitCode: answer, stdout: "", stderr: "crashed" }
+				: { exitCode: 0, stdout: answer, stderr: "" };
+		},
+		extractFinalOutput: (stdout: string) => stdout,
+	};
+	setRunnerOverride(runner);
+}
+
+const worker = (exitCode = 0): Omit<TaskResult, "durationMs"> =>
+	({ id: "w1-auth-t2", title: "Auth", agent: "worker", exitCode, output: "done", stderr: "" });
+
+function review(revise: (context: string, previousAttempts: TaskAttempt[]) => Promise<Omit<TaskResult, "durationMs">>) {
+	return reviewTask({
+		task: task("w1-auth-t2", { title: "Auth" }),
+		reviewers: ["security-reviewer"],
+		result: worker(),
+		cwd: fs.mkdtempSync(path.join(os.tmpdir(), "review-")),
+		protectedPaths: [],
+		revise,
+	});
+}
+
+describe("reviewTask", () => {
+	afterEach(() => setRunnerOverride(null));
+
+	const noRevision = async (): Promise<Omit<TaskResult, "durationMs">> => assert.fail("revised without blocking findings");
+
+	it("approves without blocking findings", async () => {
+		reviewers(json([{ severity: "warning", message: "Long function" }]));
+		const result = await review(noRevision);
+		assert.equal(result.exitCode, 0);
+		assert.equal(result.review?.status, "approved");
+		assert.equal(result.review?.findings.length, 1);
+	});
+
+	it("approves once the revision fixes the blocking findings", async () => {
+		reviewers(json([CRITICAL]), json([]));
+		const contexts: string[] = [];
+		const result = await review(async (context) => {
+			contexts.push(context);
+			return { ...worker(), output: "fixed" };
+		});
+		assert.equal(contexts.length, 1);
+		assert.match(contexts[0], /\[critical\] src\/auth\.ts:42 — Password compared with ==/);
+		assert.equal(result.exitCode, 0);
+		assert.equal(result.output, "fixed");
+		assert.equal(result.review?.status, "approved");
+		assert.equal(result.review?.revised?.length, 1);
+	});
+
+	it("blocks when the findings survive the revision", async () => {
+		reviewers(json([CRITICAL]), json([CRITICAL]));
+		const result = await review(async () => worker());
+		assert.equal(result.exitCode, 1);
+		assert.equal(result.review?.status, "blocked");
+		assert.match(result.output, /REVIEW BLOCKED/);
+	});
+
+	it("blocks when the revision fails", async () => {
+		reviewers(json([CRITICAL]));
+		const result = await review(async () => worker(1));
+		assert.equal(result.exitCode, 1);
+		assert.equal(result.review?.status, "blocked");
+		assert.equal(result.review?.reason, "the revision failed");
+	});
+
+	it("records a reviewer that fails or reports nothing as an error without blocking", async () => {
+		reviewers(2);
+		const crashed = await review(noRevision);
+		assert.equal(crashed.exitCode, 0);
+		assert.equal(crashed.review?.status, "error");
+		assert.equal(crashed.review?.reason, "security-reviewer exited with code 2");
+
+		reviewers("LGTM");
+		const silent = await review(noRevision);
+		assert.equal(silent.review?.status, "error");
+		assert.equal(silent.review?.reason, "security-reviewer reported no findings block");
+	});
+});
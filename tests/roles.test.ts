@@ -0,0 +1,147 @@
+/**
+ * Tests for agent roles: the built-in roles' prompts and sandboxes, and
+ * project roles from roles.json.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { checkFileConflicts } from "../extensions/wave-executor/plan-conflicts.js";
+import { parsePlanV2 } from "../extensions/wave-executor/plan-parser.js";
+import {
+	agentRole,
+	agentsWithoutRole,
+	BUILTIN_ROLES,
+	buildRolePrompt,
+	loadRoleRegistry,
+	roleFileRules,
+	setRoleRegistry,
+} from "../extensions/wave-executor/roles.js";
+import type { Task } from "../extensions/wave-executor/types.js";
+import { task } from "./fixtures.js";
+
+const authTask = (agent: string): Task =>
+	task("w1-auth-t2", {
+		title: "Implement auth",
+		agent,
+		files: ["src/auth.ts", "tests/auth.test.ts"],
+		specRefs: ["FR-1"],
+		testFiles: ["tests/auth.test.ts"],
+		description: "Implement it.",
+	});
+
+const PLAN = `# Implementation Plan
+
+## Wave 1: Auth
+
+### Feature: auth
+Files: src/auth.ts
+
+#### Task w1-auth-t1: Audit auth
+- **Agent**: security-reviewer
+- **Files**: \`src/auth.ts\`
+- **Description**: Audit it.
+
+#### Task w1-auth-t2: Implement auth
+- **Agent**: worker
+- **Files**: \`src/auth.ts\`
+- **Description**: Implement it.
+`;
+
+function projectDir(files: Record<string, string>): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "roles-"));
+	for (const [name, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+		fs.writeFileSync(path.join(dir, name), content);
+	}
+	return dir;
+}
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Built-in roles
+// ════════════════════════════════════════════════════════════════════
+
+describe("built-in roles", () => {
+	it("fill the prompt template for a task", () => {
+		const prompt = buildRolePrompt(agentRole("worker"), { task: authTask("worker"), specContext: "FR-1: log in", contextBlocks: "" });
+		assert.match(prompt, /\*\*w1-auth-t2: Implement auth\*\*\nFiles: src\/auth\.ts, tests\/auth\.test\.ts\nSpec refs: FR-1\nTests to satisfy: tests\/auth\.test\.ts/);
+		assert.doesNotMatch(prompt, /\{\{/);
+
+		const verify = buildRolePrompt(agentRole("wave-verifier"), { task: authTask("wave-verifier"), specContext: "", contextBlocks: "", requiredFiles: ["src/a.ts"] });
+		assert.match(verify, /## Required Files \(MUST ALL EXIST\)[\s\S]*- `src\/a\.ts`/);
+	});
+
+	it("sandbox each role", () => {
+		assert.deepEqual(roleFileRules(agentRole("worker"), authTask("worker"), ["spec.md"]), {
+			allowWrite: ["src/auth.ts", ".env.test"], protectedPaths: ["spec.md"], safeBashOnly: false,
+		});
+		assert.deepEqual(roleFileRules(agentRole("test-writer"), authTask("test-writer"), []), {
+			allowWrite: ["src/auth.ts", "tests/auth.test.ts"], protectedPaths: [], safeBashOnly: true,
+		});
+		assert.deepEqual(roleFileRules(agentRole("wave-verifier"), authTask("wave-verifier"), []), {
+			readOnly: true, protectedPaths: [], safeBashOnly: false,
+		});
+		assert.equal(agentRole("refactor"), BUILTIN_ROLES.worker);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Project roles
+// ════════════════════════════════════════════════════════════════════
+
+describe("loadRoleRegistry", () => {
+	it("extends built-in roles from roles.json", () => {
+		const dir = projectDir({
+			"roles.json": JSON.stringify({
+				"security-reviewer": { extends: "wave-verifier", safeBashOnly: true, success: { fixCycles: false } },
+				"refactor": { prompt: "prompts/refactor.md" },
+				"test-writer": { success: { redPhase: false } },
+			}),
+			"prompts/refactor.md": "Refactor {{files}} for {{id}}.",
+		});
+		const registry = loadRoleRegistry(dir);
+		const reviewer = registry["security-reviewer"];
+		assert.equal(reviewer.readOnly, true);
+		assert.deepEqual(reviewer.success, { gates: false, declaredFiles: false, fixCycles: false, redPhase: false });
+		assert.equal(reviewer.logSuffix, "-security-reviewer");
+		assert.equal(buildRolePrompt(registry.refactor, { task: authTask("refactor"), specContext: "", contextBlocks: "" }),
+			"Refactor src/auth.ts, tests/auth.test.ts for w1-auth-t2.");
+		assert.equal(registry.refactor.writes, "implementation");
+		// A built-in role's entry changes that role
+		assert.deepEqual(registry["test-writer"], { ...BUILTIN_ROLES["test-writer"], success: { ...BUILTIN_ROLES["test-writer"].success, redPhase: false } });
+
+		const plan = parsePlanV2(PLAN);
+		assert.deepEqual(agentsWithoutRole(plan, BUILTIN_ROLES), ["security-reviewer"]);
+		assert.deepEqual(agentsWithoutRole(plan, registry), []);
+	});
+
+	it("lists every problem", () => {
+		const dir = projectDir({
+			"roles.json": JSON.stringify({
+				"auditor": { extends: "reviewer", readOnly: "yes", color: "red" },
+				"refactor": { prompt: "prompts/refactor.md", success: { tests: true } },
+			}),
+		});
+		assert.throws(() => loadRoleRegistry(dir),
+			/auditor: unknown key "color"[\s\S]*auditor\.extends: expected a built-in role[\s\S]*auditor\.readOnly: expected true or false[\s\S]*refactor\.success: unknown key "tests"/);
+
+		fs.writeFileSync(path.join(dir, "roles.json"), JSON.stringify({ refactor: { prompt: "refactor.md" } }));
+		fs.writeFileSync(path.join(dir, "refactor.md"), "Refactor {{task}}.");
+		assert.throws(() => loadRoleRegistry(dir), /refactor\.prompt: unknown placeholder \{\{task\}\}/);
+	});
+
+	it("keeps read-only roles out of file ownership conflicts", () => {
+		const plan = parsePlanV2(PLAN.replace("#### Task w1-auth-t2", "#### Task w1-auth-t0: Other\n- **Agent**: worker\n- **Files**: `src/auth.ts`\n\n#### Task w1-auth-t2"));
+		const conflicts = () => checkFileConflicts(plan).filter((d) => d.message.includes("w1-auth-t1"));
+		assert.ok(conflicts().length > 0);
+		setRoleRegistry({ ...BUILTIN_ROLES, "security-reviewer": BUILTIN_ROLES["wave-verifier"] });
+		try {
+			assert.deepEqual(conflicts(), []);
+		} finally {
+			setRoleRegistry(BUILTIN_ROLES);
+		}
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for run control: stopping, aborting, pausing and cancelling a
+ * running execution, and the messages the commands reply with.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import {
+	CANCELLED_OUTPUT,
+	createRunControl,
+	runControlCommand,
+	setActiveRunControl,
+} from "../extensions/wave-executor/run-control.js";
+
+const tick = () => new Promise((r) => setImmediate(r));
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Admitting tasks
+// ════════════════════════════════════════════════════════════════════
+
+describe("createRunControl", () => {
+	it("holds tasks while paused and lets them start on resume", async () => {
+		const control = createRunControl(["a"]);
+		control.pause();
+		let admitted: string | null | undefined;
+		control.admit("a").then((r) => { admitted = r; });
+		await tick();
+		assert.equal(admitted, undefined);
+
+		control.resume();
+		await tick();
+		assert.equal(admitted, null);
+	});
+
+	it("skips tasks not yet started after a stop, including paused ones", async () => {
+		const control = createRunControl(["a", "b"]);
+		control.pause();
+		const waiting = control.admit("a");
+		control.stop();
+		assert.equal(await waiting, "Skipped: execution stopped");
+		assert.equal(await control.admit("b"), "Skipped: execution stopped");
+		assert.equal(control.signal.aborted, false);
+	});
+
+	it("aborts every task signal on abort", async () => {
+		const control = createRunControl(["a", "b"]);
+		const running = control.taskSignal("a");
+		control.abort();
+		assert.equal(running.aborted, true);
+		assert.equal(control.taskSignal("b").aborted, true);
+		assert.equal(await control.admit("b"), "Skipped: execution aborted");
+	});
+
+	it("cancels one known, unfinished task", async () => {
+		const control = createRunControl(["a", "b", "c"]);
+		const a = control.taskSignal("a");
+		control.finish("c");
+
+		assert.equal(control.cancel("a"), true);
+		assert.equal(a.aborted, true);
+		assert.equal(control.taskSignal("b").aborted, false);
+		assert.equal(await control.admit("a"), CANCELLED_OUTPUT);
+		assert.equal(control.cancel("c"), false);
+		assert.equal(control.cancel("nope"), false);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Commands
+// ════════════════════════════════════════════════════════════════════
+
+describe("runControlCommand", () => {
+	it("acts on the active run only", () => {
+		setActiveRunControl(null);
+		assert.equal(runControlCommand("stop"), "No wave execution is running.");
+
+		const control = createRunControl(["a"]);
+		setActiveRunControl(control);
+		assert.match(runControlCommand("pause"), /Paused/);
+		assert.equal(control.paused, true);
+		assert.match(runControlCommand("resume"), /Resumed/);
+		assert.match(runControlCommand("cancel"), /Usage/);
+		assert.match(runControlCommand("cancel", "a"), /Cancelled a/);
+		setActiveRunControl(null);
+	});
+});
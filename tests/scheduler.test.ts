@@ -0,0 +1,90 @@
+/**
+ * Tests for the wave scheduler: the shared slot pool, critical-path
+ * priorities and starting tasks as soon as their dependencies finish.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { concurrentTasks, createSlotPool, criticalPath, runWhenReady } from "../extensions/wave-executor/scheduler.js";
+import { task } from "./fixtures.js";
+
+const tick = () => new Promise((r) => setImmediate(r));
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Slot pool
+// ════════════════════════════════════════════════════════════════════
+
+describe("createSlotPool", () => {
+	it("never exceeds its size and grants waiting slots by priority", async () => {
+		const pool = createSlotPool(2);
+		const order: string[] = [];
+		const take = (name: string, priority: number) => pool.acquire(priority).then((release) => {
+			order.push(name);
+			return release;
+		});
+
+		const [a, b] = await Promise.all([take("a", 0), take("b", 0)]);
+		const waiting = [take("low", 1), take("high", 5), take("low-2", 1)];
+		await tick();
+		assert.deepEqual([pool.running, pool.waiting], [2, 3]);
+
+		a();
+		a(); // releasing twice frees one slot only
+		await tick();
+		assert.deepEqual(order, ["a", "b", "high"]);
+		b();
+		(await waiting[1])();
+		await tick();
+		assert.deepEqual(order, ["a", "b", "high", "low", "low-2"]);
+		assert.equal(pool.running, 2);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. DAG analysis
+// ════════════════════════════════════════════════════════════════════
+
+describe("criticalPath", () => {
+	it("adds the longest chain of dependents to each task's estimate", () => {
+		const tasks = [task("a"), task("b", { depends: ["a"] }), task("c", { depends: ["a"], agent: "test-writer" }), task("d", { depends: ["b"] })];
+		const weights = criticalPath(tasks, (t) => (t.agent === "worker" ? 10 : 3));
+		assert.deepEqual(Object.fromEntries(weights), { a: 30, b: 20, c: 3, d: 10 });
+	});
+});
+
+describe("concurrentTasks", () => {
+	it("finds tasks no dependency path orders", () => {
+		const tasks = [task("a"), task("b", { depends: ["a"] }), task("c"), task("d", { depends: ["b", "c"] })];
+		const overlapping = concurrentTasks(tasks);
+		assert.deepEqual([...overlapping.get("c")!].sort(), ["a", "b"]);
+		assert.deepEqual([...overlapping.get("d")!], []);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 3. Ready-as-soon-as-possible execution
+// ════════════════════════════════════════════════════════════════════
+
+describe("runWhenReady", () => {
+	it("starts a task when its own dependencies finish, not its whole level", async () => {
+		const finish = new Map<string, () => void>();
+		const started: string[] = [];
+		const tasks = [task("slow"), task("fast"), task("after-fast", { depends: ["fast"] }), task("after-slow", { depends: ["slow", "outside"] })];
+		const done = runWhenReady(tasks, (t) => {
+			started.push(t.id);
+			return new Promise<string>((resolve) => finish.set(t.id, () => resolve(t.id)));
+		});
+
+		await tick();
+		assert.deepEqual(started, ["slow", "fast"]);
+		finish.get("fast")!();
+		await tick();
+		assert.deepEqual(started, ["slow", "fast", "after-fast"]);
+		finish.get("after-fast")!();
+		finish.get("slow")!();
+		await tick();
+		finish.get("after-slow")!();
+		assert.deepEqual(await done, ["slow", "fast", "after-fast", "after-slow"]);
+	});
+});
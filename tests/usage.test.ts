@@ -0,0 +1,98 @@
+/**
+ * Tests for token usage: reading it from pi's messages, pricing it and
+ * breaking a run's total down by agent.
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+	addUsage,
+	DEFAULT_PRICES,
+	formatUsage,
+	loadPriceTable,
+	priceUsage,
+	sumUsage,
+	usageBreakdown,
+	usageFromMessage,
+} from "../extensions/wave-executor/usage.js";
+import type { TaskResult, TokenUsage } from "../extensions/wave-executor/types.js";
+
+const usage = (input: number, output: number, model = "claude-sonnet-4-5"): TokenUsage =>
+	priceUsage({ input, output, cacheRead: 0, cacheWrite: 0, model });
+
+// ════════════════════════════════════════════════════════════════════
+// 1. Tokens and prices
+// ════════════════════════════════════════════════════════════════════
+
+describe("usageFromMessage", () => {
+	it("reads pi's usage and the Anthropic API's names", () => {
+		assert.deepEqual(
+			usageFromMessage({ role: "assistant", model: "claude-sonnet-4-5", usage: { input: 10, output: 5, cacheRead: 100, cacheWrite: 20, totalTokens: 135 } }),
+			{ input: 10, output: 5, cacheRead: 100, cacheWrite: 20, model: "claude-sonnet-4-5" },
+		);
+		assert.deepEqual(
+			usageFromMessage({ usage: { input_tokens: 3, output_tokens: 4, cache_read_input_tokens: 5 } }),
+			{ input: 3, output: 4, cacheRead: 5, cacheWrite: 0 },
+		);
+		assert.equal(usageFromMessage({ role: "assistant" }), undefined);
+	});
+});
+
+describe("priceUsage", () => {
+	it("prices by exact model name", () => {
+		assert.equal(usage(1_000_000, 100_000).costUsd, 4.5);
+		assert.equal(usage(1_000_000, 0, "anthropic/claude-opus-4-1").costUsd, 15);
+		assert.equal(usage(1_000_000, 0, "claude-opus-4-5-20251101").costUsd, 5);
+		// Not at the claude-opus-4 rate
+		assert.deepEqual(usage(1_000_000, 0, "claude-opus-4-9").unpriced, ["claude-opus-4-9"]);
+	});
+
+	it("keeps the cost of messages priced one by one", () => {
+		// One message without a model doesn't leave the rest unpriced
+		const run = sumUsage([usage(1_000_000, 0), usage(0, 100_000, "claude-haiku-4-5"), priceUsage({ input: 10, output: 0, cacheRead: 0, cacheWrite: 0 })]);
+		assert.equal(run?.costUsd, 3.5);
+		assert.deepEqual(run?.unpriced, ["unknown model"]);
+	});
+
+	it("lists models missing from the table", () => {
+		const u = usage(1000, 1000, "gpt-5");
+		assert.equal(u.costUsd, 0);
+		assert.deepEqual(u.unpriced, ["gpt-5"]);
+		assert.match(formatUsage(addUsage(u, usage(1000, 0))!), /unpriced: gpt-5/);
+	});
+
+	it("merges prices.json over the defaults", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "prices-"));
+		assert.equal(loadPriceTable(dir), DEFAULT_PRICES);
+		fs.writeFileSync(path.join(dir, "prices.json"), JSON.stringify({ "local-llm": { input: 0, output: 0 } }));
+		assert.deepEqual(loadPriceTable(dir)["local-llm"], { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 });
+		fs.writeFileSync(path.join(dir, "prices.json"), JSON.stringify({ "x": { input: -1, output: 1, extra: 2 } }));
+		assert.throws(() => loadPriceTable(dir), /x\.input: expected a non-negative number[\s\S]*unknown key "extra"/);
+	});
+});
+
+// ════════════════════════════════════════════════════════════════════
+// 2. Breakdown
+// ════════════════════════════════════════════════════════════════════
+
+describe("usageBreakdown", () => {
+	it("credits attempts to their agent and totals retries", () => {
+		const result: TaskResult = {
+			id: "w1-t1", title: "t", agent: "wave-verifier", exitCode: 0, output: "", stderr: "", durationMs: 0,
+			attempts: [
+				{ attempt: 1, agent: "wave-verifier", reason: "initial", exitCode: 1, durationMs: 0, usage: usage(1_000_000, 0) },
+				{ attempt: 2, agent: "worker", reason: "verifier-fail", exitCode: 0, durationMs: 0, usage: usage(0, 100_000) },
+				{ attempt: 3, agent: "wave-verifier", reason: "re-verify", exitCode: 0, durationMs: 0, usage: usage(1_000_000, 0) },
+			],
+			// Plus a wave-doctor run
+			usage: usage(3_000_000, 100_000),
+		};
+		const { byAgent, retries } = usageBreakdown([result]);
+		assert.deepEqual(byAgent.map(([agent, u]) => [agent, u.costUsd]), [["wave-verifier", 6], ["wave-doctor", 3], ["worker", 1.5]]);
+		assert.equal(retries?.costUsd, 4.5);
+	});
+});